@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
 import {
   Upload,
   Type,
@@ -12,18 +12,250 @@ import {
   ZoomIn,
   Monitor,
   Download,
-  Save,
-  List,
   Eye,
+  Ruler,
+  RotateCcw,
+  AlertTriangle,
+  FolderOpen,
+  FileDown,
+  Link2,
 } from "lucide-react";
-import { toPng } from "html-to-image";
+import type {
+  AdPreviewSettings,
+  AdSize,
+  ImageFocus,
+  Preset,
+  SizeOverrides,
+} from "./types";
+import { DEFAULT_FOCUS, computeAutoCrop, projectToSlot } from "./lib/autoCrop";
+import { runBatchExport } from "./lib/batchExport";
+import type { BatchExportJob, BatchExportProgress } from "./lib/batchExport";
+import { downloadBlob, slugify } from "./lib/download";
+import { renderOffscreen } from "./lib/renderOffscreen";
+import { buildHtml5Bundle } from "./lib/html5Bundle";
+import type { Html5Options } from "./lib/html5Bundle";
+import {
+  DEFAULT_IMAGE_EXPORT,
+  FORMAT_EXTENSIONS,
+  describeExport,
+  exportImage,
+} from "./lib/imageExport";
+import type { ImageExportResult, ImageExportSettings } from "./lib/imageExport";
+import {
+  SIZE_GROUPS,
+  enabledSizes,
+  loadSizeCatalog,
+  saveSizeCatalog,
+} from "./lib/sizeCatalog";
+import type {
+  CatalogSize,
+  SizeCatalogState,
+  SizeGroup,
+} from "./lib/sizeCatalog";
+import {
+  IMAGE_SCALE_RANGE,
+  NUDGE_KEYS,
+  NUDGE_STEP,
+  NUDGE_STEP_LARGE,
+  applyOverride,
+  clearOverride,
+  snapOffset,
+  updateOverride,
+} from "./lib/imageTransform";
+import type { SnapGuide } from "./lib/imageTransform";
+import {
+  EMPTY_RDA_ASSETS,
+  RDA_IMAGE_SLOTS,
+  sampleCombinations,
+} from "./lib/responsiveAds";
+import type { AdMode, RdaAssets } from "./lib/responsiveAds";
+import CharCounter from "./components/CharCounter";
+import { COPY_LIMITS, googleLength, isOverLimit } from "./lib/copyLimits";
+import ExportAllPanel from "./components/ExportAllPanel";
+import Html5ExportPanel from "./components/Html5ExportPanel";
+import ImageExportPanel from "./components/ImageExportPanel";
+import SizeCatalogPanel from "./components/SizeCatalogPanel";
+import RdaAssetsPanel from "./components/RdaAssetsPanel";
+import FocalPointEditor from "./components/FocalPointEditor";
+import CreativeValidationPanel from "./components/CreativeValidationPanel";
+import CheckStatusIcon from "./components/CheckStatusIcon";
+import { evaluateCreative, inspectCreative } from "./lib/creativeValidation";
+import type { CreativeInfo } from "./lib/creativeValidation";
+import { readFileAsDataUrl } from "./lib/files";
+import ContrastChecker from "./components/ContrastChecker";
+import TextFitPanel from "./components/TextFitPanel";
+import {
+  PROJECT_EXTENSION,
+  ProjectFileError,
+  isProjectFileName,
+  parseProject,
+  serializeProject,
+} from "./lib/projectFile";
+import type { ProjectState } from "./lib/projectFile";
+import PresetLibraryPanel from "./components/PresetLibraryPanel";
+import BrandKitPanel from "./components/BrandKitPanel";
+import {
+  DEFAULT_SWATCHES,
+  createBrandKit,
+  deleteBrandKit,
+  exportBrandKitBlob,
+  installKitFonts,
+  kitFontFaceCss,
+  kitFontStacks,
+  loadActiveKitId,
+  loadBrandKits,
+  parseBrandKitImport,
+  saveActiveKitId,
+  saveBrandKit,
+} from "./lib/brandKits";
+import type { BrandKit } from "./lib/brandKits";
+import {
+  DEFAULT_LAYOUT_TEMPLATE,
+  LAYOUT_TEMPLATES,
+  aspectClass,
+  resolveLayout,
+} from "./lib/layoutTemplates";
+import LayoutTemplatePanel from "./components/LayoutTemplatePanel";
+import VariantMatrixView from "./components/VariantMatrixView";
+import PlacementContextView from "./components/PlacementContextView";
+import { EMPTY_MATRIX_COPY, buildMatrix } from "./lib/variantMatrix";
+import type { CellStatus, MatrixCell, MatrixCopy } from "./lib/variantMatrix";
+import FeedImportPanel from "./components/FeedImportPanel";
+import HistoryPanel from "./components/HistoryPanel";
+import type { ExportAllHandle } from "./components/ExportAllPanel";
+import {
+  changedKeys,
+  createHistory,
+  currentStep,
+  describeChange,
+  jumpHistory,
+  pushHistory,
+  scheduleSettle,
+} from "./lib/history";
+import type { History } from "./lib/history";
+import { matchShortcut } from "./lib/shortcuts";
+import ReviewBanner from "./components/ReviewBanner";
+import {
+  EMBED_MAX_BYTES,
+  ShareLinkError,
+  decodeShareHash,
+  encodeShareHash,
+  matchSharedImages,
+  shareUrl,
+} from "./lib/shareLink";
+import type { ShareState, SharedImage } from "./lib/shareLink";
+import LocalePanel from "./components/LocalePanel";
+import {
+  DEFAULT_LOCALE,
+  localeCodes,
+  localeName,
+  storeLocaleCopy,
+  textDirection,
+} from "./lib/locales";
+import type { LocaleCopy } from "./lib/locales";
+import PolicyLintPanel from "./components/PolicyLintPanel";
+import {
+  lintCopy,
+  lintReportCsv,
+  loadPolicySettings,
+  savePolicySettings,
+} from "./lib/policyLint";
+import AdsEditorExportPanel from "./components/AdsEditorExportPanel";
+import OverlayToolbar from "./components/OverlayToolbar";
+import PreviewOverlays from "./components/PreviewOverlays";
+import {
+  loadOverlaySettings,
+  saveOverlaySettings,
+} from "./lib/previewOverlays";
+import type { OverlaySettings } from "./lib/previewOverlays";
+import {
+  EMPTY_ADS_EDITOR_TARGET,
+  buildImageAdPackage,
+  buildRdaPackage,
+  validateRdaAssets,
+  validateStaticCopy,
+} from "./lib/adsEditorExport";
+import type { AdsEditorTarget } from "./lib/adsEditorExport";
+import CommentPins from "./components/CommentPins";
+import QaReviewPanel from "./components/QaReviewPanel";
+import {
+  REVIEW_STATUSES,
+  addReviewComment,
+  buildReviewReport,
+  loadReviewerName,
+  removeReviewComment,
+  reviewFor,
+  saveReviewerName,
+  setReviewStatus,
+} from "./lib/sizeReview";
+import type {
+  ReportSize,
+  ReviewStatus,
+  SizeReview,
+  SizeReviews,
+} from "./lib/sizeReview";
+import type { FeedRow } from "./lib/feedImport";
+import {
+  deletePresetRecord,
+  exportPresetsBlob,
+  loadPresetLibrary,
+  newPresetId,
+  parsePresetImport,
+  savePresets,
+  sortPresets,
+} from "./lib/presetStore";
+import {
+  DEFAULT_TEXT_FIT,
+  copyElements,
+  describeOverflow,
+  fitHeadlinePx,
+  hasOverflow,
+  measureOverflow,
+  sameOverflow,
+  scaledFonts,
+} from "./lib/textFit";
+import type {
+  TextFitSettings,
+  TextOverflow,
+  TextOverflowEntry,
+} from "./lib/textFit";
+import {
+  LIGHT_TEXT,
+  averageImageColor,
+  readableTextColor,
+} from "./lib/contrast";
 
 // ---------- Types ----------
 
-interface AdSize {
-  w: number;
-  h: number;
-}
+/** What undo/redo restores; switching variants isn't an edit. */
+type EditorState = Omit<ProjectState, "activeImageIndex">;
+
+const HISTORY_LABELS: Partial<Record<keyof EditorState, string>> = {
+  images: "Add variant",
+  imageFocus: "Set focal point",
+  headline: "Edit headline",
+  subhead: "Edit subhead",
+  cta: "Edit CTA",
+  activeLocale: "Switch locale",
+  localeCopy: "Edit locales",
+  primaryColor: "Change colour",
+  autoCtaText: "Toggle auto CTA text",
+  darkMode: "Toggle Halo checker",
+  imageScale: "Scale image",
+  imageOffset: "Move image",
+  manualCrop: "Switch crop mode",
+  sizeOverrides: "Adjust size crop",
+  textFit: "Change text fit",
+  layoutTemplate: "Change layout",
+  sizeTemplates: "Change size layout",
+  sizeCatalog: "Change sizes",
+  imageExport: "Change export format",
+  adMode: "Switch ad mode",
+  rdaAssets: "Edit responsive assets",
+  rdaSamples: "Change sample count",
+  sizeReviews: "Review size",
+  adsEditorTarget: "Edit campaign details",
+};
 
 interface AdProps {
   size: AdSize;
@@ -32,24 +264,114 @@ interface AdProps {
   subhead: string;
   cta: string;
   primaryColor: string;
+  ctaTextColor?: string;
   darkMode: boolean;
   imageScale: number;
   imageOffset: { x: number; y: number };
+  logo?: string | null;
+  logoWide?: string | null;
+  businessName?: string;
+  headlineFont?: string;
+  bodyFont?: string;
+  focus?: ImageFocus | null;
+  /** Use imageScale/imageOffset even when a focus is set. */
+  manualCrop?: boolean;
+  showCropDebug?: boolean;
   enableDrag?: boolean;
-  onImageOffsetChange?: (offset: { x: number; y: number }) => void;
+  /** `scale` is passed when the drag starts from an auto-cropped frame. */
+  onImageOffsetChange?: (
+    offset: { x: number; y: number },
+    scale?: number
+  ) => void;
+  /** Shrinks copy to fit; exports get the same fitted sizes. */
+  textFit?: TextFitSettings;
+  /** Layout template id; unknown ids fall back to the classic layout. */
+  layoutTemplate?: string;
+  /** BCP 47 tag; Arabic, Hebrew etc. lay out right to left. */
+  locale?: string;
+  /** Called whenever the set of clipped copy elements changes. */
+  onTextOverflow?: (overflow: TextOverflow) => void;
+  ref?: React.Ref<HTMLDivElement>;
 }
 
-interface Preset {
-  id: string;
-  name: string;
-  headline: string;
-  subhead: string;
-  cta: string;
-  primaryColor: string;
-  darkMode: boolean;
-  imageScale: number;
-  imageOffset: { x: number; y: number };
-}
+// ---------- Size sections ----------
+
+const SECTION_STYLES: Record<
+  SizeGroup,
+  { title: string; icon: React.ReactNode; layout: string }
+> = {
+  "high-impact": {
+    title: "Billboard high impact",
+    icon: <Star className="text-amber-500" size={16} />,
+    layout: "flex flex-wrap gap-6 items-start",
+  },
+  rectangles: {
+    title: "Rectangles high volume",
+    icon: <Box className="text-blue-500" size={16} />,
+    layout: "flex flex-wrap gap-6",
+  },
+  leaderboards: {
+    title: "Leaderboards",
+    icon: <Maximize className="text-green-500" size={16} />,
+    layout: "flex flex-wrap gap-6",
+  },
+  skyscrapers: {
+    title: "Skyscrapers",
+    icon: <Layout className="text-purple-500" size={16} />,
+    layout: "flex flex-wrap gap-6 items-start",
+  },
+  custom: {
+    title: "Custom sizes",
+    icon: <Ruler className="text-slate-500" size={16} />,
+    layout: "flex flex-wrap gap-6 items-start",
+  },
+};
+
+// ---------- Crop Debug Overlay ----------
+
+const CropDebugOverlay: React.FC<{
+  focus: ImageFocus;
+  slot: { w: number; h: number };
+  display: { w: number; h: number };
+  scale: number;
+  offset: { x: number; y: number };
+}> = ({ focus, slot, display, scale, offset }) => {
+  const project = (point: { x: number; y: number }) =>
+    projectToSlot(point, slot, display, scale, offset);
+  const point = project(focus);
+  const keep = focus.keep
+    ? {
+        from: project(focus.keep),
+        to: project({
+          x: focus.keep.x + focus.keep.w,
+          y: focus.keep.y + focus.keep.h,
+        }),
+      }
+    : null;
+
+  return (
+    <div
+      data-export-ignore
+      className="absolute inset-0 pointer-events-none border border-dashed border-fuchsia-500"
+    >
+      {keep && (
+        <div
+          className="absolute border border-fuchsia-500 bg-fuchsia-500/10"
+          style={{
+            left: keep.from.x,
+            top: keep.from.y,
+            width: keep.to.x - keep.from.x,
+            height: keep.to.y - keep.from.y,
+          }}
+        />
+      )}
+      <div
+        className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full border-2 border-white bg-fuchsia-500 shadow"
+        style={{ left: point.x, top: point.y }}
+      />
+    </div>
+  );
+};
 
 // ---------- Ad Canvas ----------
 
@@ -60,226 +382,524 @@ const AdCanvas: React.FC<AdProps> = ({
   subhead,
   cta,
   primaryColor,
+  ctaTextColor = LIGHT_TEXT,
   darkMode,
   imageScale,
   imageOffset,
+  logo = null,
+  logoWide = null,
+  businessName = "",
+  headlineFont,
+  bodyFont,
+  focus = null,
+  manualCrop = false,
+  showCropDebug = false,
   enableDrag = false,
   onImageOffsetChange,
+  textFit,
+  layoutTemplate,
+  locale,
+  onTextOverflow,
+  ref,
 }) => {
-  const isLeaderboard = size.w > size.h * 1.5;
-  const isSkyscraper = size.h > size.w * 1.5;
-  const isMicro = size.h <= 60;
+  const layout = resolveLayout(layoutTemplate, size);
+  const dir = textDirection(locale);
+  const isMicro = aspectClass(size) === "micro";
+  const isRow = layout.direction === "row";
+  const isBackground = layout.image.mode === "background";
+  const logoSrc = isRow ? logoWide || logo : logo || logoWide;
 
   const containerBg = darkMode
     ? "bg-slate-900 border-slate-700"
     : "bg-white border-slate-200";
-  const textColor = darkMode ? "text-white" : "text-slate-800";
-  const subTextColor = darkMode ? "text-slate-300" : "text-slate-600";
+  const lightText = darkMode || Boolean(layout.scrim);
+  const textColor = lightText ? "text-white" : "text-slate-800";
+  const subTextColor = layout.scrim
+    ? "text-slate-200"
+    : darkMode
+    ? "text-slate-300"
+    : "text-slate-600";
   const placeholderColor = darkMode
     ? "bg-slate-800 border-slate-600 text-slate-500"
     : "bg-slate-50 border-slate-300 text-slate-300";
 
   const [dragging, setDragging] = useState(false);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const imgRef = useRef<HTMLImageElement | null>(null);
   const dragStartRef = useRef<{ x: number; y: number } | null>(null);
   const offsetStartRef = useRef<{ x: number; y: number } | null>(null);
 
-  const handleMouseDown: React.MouseEventHandler<HTMLDivElement> = (e) => {
-    if (!enableDrag || !onImageOffsetChange || !image) return;
+  // Auto-crop needs the slot and the image's natural size.
+  const slotRef = useRef<HTMLDivElement | null>(null);
+  const [slotSize, setSlotSize] = useState<{ w: number; h: number } | null>(
+    null
+  );
+  const [natural, setNatural] = useState<{
+    src: string;
+    w: number;
+    h: number;
+  } | null>(null);
+
+  useEffect(() => {
+    const el = slotRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setSlotSize({
+        w: entry.contentRect.width,
+        h: entry.contentRect.height,
+      })
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+    // The slot node is replaced when the image moves in or out of the flow.
+  }, [isBackground]);
+
+  const naturalSize = natural && natural.src === image ? natural : null;
+  // A full-bleed image has to cover the ad, so it crops around the centre
+  // even without a focal point.
+  const cropFocus = focus ?? (isBackground ? DEFAULT_FOCUS : null);
+  const autoCrop =
+    cropFocus && slotSize && naturalSize && slotSize.w > 0 && slotSize.h > 0
+      ? computeAutoCrop(slotSize, naturalSize, cropFocus)
+      : null;
+  const useAutoCrop = autoCrop !== null && !manualCrop;
+  const scale = useAutoCrop ? autoCrop.scale : imageScale;
+  const offset = useAutoCrop ? autoCrop.offset : imageOffset;
+
+  const canDrag = enableDrag && Boolean(onImageOffsetChange) && Boolean(image);
+
+  // Pointer capture keeps the drag alive outside the card and on touch.
+  const handlePointerDown: React.PointerEventHandler<HTMLDivElement> = (e) => {
+    if (!canDrag || e.button !== 0) return;
     e.preventDefault();
+    e.currentTarget.focus({ preventScroll: true });
+    e.currentTarget.setPointerCapture(e.pointerId);
     setDragging(true);
     dragStartRef.current = { x: e.clientX, y: e.clientY };
-    offsetStartRef.current = { ...imageOffset };
+    offsetStartRef.current = { ...offset };
   };
 
-  const handleMouseMove: React.MouseEventHandler<HTMLDivElement> = (e) => {
-    if (!enableDrag || !dragging || !onImageOffsetChange) return;
+  const handlePointerMove: React.PointerEventHandler<HTMLDivElement> = (e) => {
+    if (!canDrag || !dragging || !onImageOffsetChange) return;
     if (!dragStartRef.current || !offsetStartRef.current) return;
 
-    const dx = e.clientX - dragStartRef.current.x;
-    const dy = e.clientY - dragStartRef.current.y;
-    onImageOffsetChange({
-      x: offsetStartRef.current.x + dx,
-      y: offsetStartRef.current.y + dy,
-    });
+    const moved = {
+      x: offsetStartRef.current.x + e.clientX - dragStartRef.current.x,
+      y: offsetStartRef.current.y + e.clientY - dragStartRef.current.y,
+    };
+    const img = imgRef.current;
+    // Alt moves freely.
+    const snapped =
+      slotSize && img && !e.altKey
+        ? snapOffset(moved, slotSize, {
+            w: img.offsetWidth * scale,
+            h: img.offsetHeight * scale,
+          })
+        : { offset: moved, guides: [] };
+    setGuides(snapped.guides);
+    onImageOffsetChange(snapped.offset, useAutoCrop ? scale : undefined);
   };
 
-  const stopDragging = () => setDragging(false);
+  const stopDragging = () => {
+    setDragging(false);
+    setGuides([]);
+  };
 
-  return (
+  const handleKeyDown: React.KeyboardEventHandler<HTMLDivElement> = (e) => {
+    const nudge = NUDGE_KEYS[e.key];
+    if (!canDrag || !nudge || !onImageOffsetChange) return;
+    e.preventDefault();
+    const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    onImageOffsetChange(
+      { x: offset.x + nudge.x * step, y: offset.y + nudge.y * step },
+      useAutoCrop ? scale : undefined
+    );
+  };
+
+  const dragHandlers = canDrag
+    ? {
+        tabIndex: 0,
+        onPointerDown: handlePointerDown,
+        onPointerMove: handlePointerMove,
+        onPointerUp: stopDragging,
+        onPointerCancel: stopDragging,
+        onKeyDown: handleKeyDown,
+      }
+    : {};
+  const dragClass = canDrag
+    ? "outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500"
+    : "";
+
+  // Text fit: measure after every render; when on, search for the largest
+  // headline size that fits whenever the copy or size changes.
+  const textBoxRef = useRef<HTMLDivElement | null>(null);
+  const headlineRef = useRef<HTMLHeadingElement | null>(null);
+  const subheadRef = useRef<HTMLParagraphElement | null>(null);
+  const ctaRef = useRef<HTMLButtonElement | null>(null);
+  const reportedRef = useRef<TextOverflow | null>(null);
+
+  const baseFonts = layout.fonts;
+  const fitKey = textFit?.enabled
+    ? [
+        headline,
+        subhead,
+        cta,
+        size.w,
+        size.h,
+        textFit.minPx,
+        textFit.maxPx,
+        layoutTemplate,
+        headlineFont,
+        bodyFont,
+      ]
+        .map(String)
+        .join("|")
+    : "";
+  const [fit, setFit] = useState<{ key: string; px: number } | null>(null);
+  const fitted =
+    Boolean(textFit?.enabled) && fit !== null && fit.key === fitKey;
+  const fonts = fitted && fit ? scaledFonts(baseFonts, fit.px) : baseFonts;
+
+  useLayoutEffect(() => {
+    if (!textFit?.enabled || fitted) return;
+    const els = copyElements(
+      textBoxRef.current,
+      headlineRef.current,
+      subheadRef.current,
+      ctaRef.current
+    );
+    if (els)
+      setFit({ key: fitKey, px: fitHeadlinePx(els, baseFonts, textFit) });
+  }, [textFit, fitted, fitKey, baseFonts]);
+
+  useLayoutEffect(() => {
+    const els = copyElements(
+      textBoxRef.current,
+      headlineRef.current,
+      subheadRef.current,
+      ctaRef.current
+    );
+    if (!els) return;
+    const overflow = measureOverflow(els);
+    if (!reportedRef.current || !sameOverflow(reportedRef.current, overflow)) {
+      reportedRef.current = overflow;
+      onTextOverflow?.(overflow);
+    }
+  });
+
+  // ---- Regions ----
+
+  const imageRegion = (
     <div
-      className={`${containerBg} border shadow-sm relative overflow-hidden flex cursor-default select-none transition-colors duration-200`}
-      style={{ width: size.w, height: size.h }}
-      onMouseMove={handleMouseMove}
-      onMouseUp={stopDragging}
-      onMouseLeave={stopDragging}
+      key="image"
+      ref={slotRef}
+      {...(!isBackground && dragHandlers)}
+      className={`flex items-center justify-center shrink-0 overflow-hidden ${
+        isBackground ? "absolute inset-0 z-0" : `relative ${dragClass}`
+      }`}
+      style={
+        layout.image.mode === "inline"
+          ? {
+              width: isRow ? layout.image.size : "100%",
+              height: isRow ? "100%" : layout.image.size,
+              margin: layout.image.margin,
+              touchAction: canDrag ? "none" : undefined,
+            }
+          : undefined
+      }
     >
-      <div
-        className={`relative z-10 w-full h-full flex p-3 ${
-          isLeaderboard
-            ? "flex-row items-center justify-between gap-4"
-            : "flex-col gap-2"
-        }`}
-      >
-        {/* Image */}
+      {image ? (
+        <img
+          ref={imgRef}
+          src={image}
+          alt="Creative"
+          className={`max-h-full max-w-full object-contain ${
+            dragging ? "" : "transition-transform duration-100"
+          }`}
+          style={{
+            transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+            cursor: enableDrag ? (dragging ? "grabbing" : "grab") : "default",
+          }}
+          onLoad={(e) =>
+            setNatural({
+              src: image,
+              w: e.currentTarget.naturalWidth,
+              h: e.currentTarget.naturalHeight,
+            })
+          }
+        />
+      ) : (
         <div
-          className={`
-            flex items-center justify-center shrink-0 relative overflow-hidden
-            ${
-              isLeaderboard
-                ? isMicro
-                  ? "w-12 ml-auto order-2"
-                  : "w-1/4 h-full order-last"
-                : isSkyscraper
-                ? "w-full h-1/3 mt-8"
-                : "w-full h-1/2 mt-4"
-            }
-          `}
-          onMouseDown={handleMouseDown}
+          className={`w-full h-full border border-dashed rounded flex items-center justify-center ${placeholderColor}`}
         >
-          {image ? (
+          <ImageIcon size={isMicro ? 12 : 24} />
+        </div>
+      )}
+      {showCropDebug && focus && autoCrop && slotSize && (
+        <CropDebugOverlay
+          focus={focus}
+          slot={slotSize}
+          display={autoCrop.display}
+          scale={scale}
+          offset={offset}
+        />
+      )}
+      {slotSize &&
+        guides.map((g) => (
+          <div
+            key={g.axis}
+            data-export-ignore
+            className="absolute pointer-events-none bg-fuchsia-500"
+            style={
+              g.axis === "x"
+                ? {
+                    left: Math.min(g.at, slotSize.w - 1),
+                    top: 0,
+                    bottom: 0,
+                    width: 1,
+                  }
+                : {
+                    top: Math.min(g.at, slotSize.h - 1),
+                    left: 0,
+                    right: 0,
+                    height: 1,
+                  }
+            }
+          />
+        ))}
+    </div>
+  );
+
+  const ctaButton = (
+    <button
+      ref={ctaRef}
+      data-role="cta"
+      className="font-medium shadow-sm rounded-md transition-all whitespace-nowrap font-sans"
+      style={{
+        backgroundColor: primaryColor,
+        color: ctaTextColor,
+        padding: isMicro ? "2px 8px" : "6px 16px",
+        fontSize: `${fonts.cta}px`,
+        fontFamily: bodyFont,
+      }}
+    >
+      {cta}
+    </button>
+  );
+
+  const textRegion = (
+    <div
+      key="text"
+      className={`flex flex-col flex-grow ${
+        layout.textAlign === "left"
+          ? "text-start items-start"
+          : "text-center items-center"
+      }`}
+      style={{
+        justifyContent: layout.textJustify === "end" ? "flex-end" : "center",
+        paddingInlineStart: isRow ? 8 : undefined,
+      }}
+    >
+      {!isMicro && (logoSrc || businessName) && (
+        <div className="flex items-center gap-1 mb-1">
+          {logoSrc && (
             <img
-              src={image}
-              alt="Creative"
-              className="max-h-full max-w-full object-contain transition-transform duration-100"
-              style={{
-                transform: `translate(${imageOffset.x}px, ${imageOffset.y}px) scale(${imageScale})`,
-                cursor: enableDrag ? "grab" : "default",
-              }}
+              src={logoSrc}
+              alt="Logo"
+              className="h-4 w-auto object-contain"
             />
-          ) : (
-            <div
-              className={`w-full h-full border border-dashed rounded flex items-center justify-center ${placeholderColor}`}
-            >
-              <ImageIcon size={isMicro ? 12 : 24} />
-            </div>
           )}
-        </div>
-
-        {/* Text */}
-        <div
-          className={`
-            flex flex-col justify-center flex-grow
-            ${
-              isLeaderboard
-                ? "text-left items-start pl-2"
-                : "text-center items-center"
-            }
-          `}
-        >
-          <h3
-            className={`font-bold leading-tight font-sans ${textColor}`}
-            style={{
-              fontSize: isMicro
-                ? "11px"
-                : isLeaderboard
-                ? "18px"
-                : isSkyscraper
-                ? "20px"
-                : "18px",
-            }}
-          >
-            {headline}
-          </h3>
-          {!isMicro && (
-            <p
-              className={`mt-1 leading-snug font-sans ${subTextColor}`}
-              style={{ fontSize: isSkyscraper ? "14px" : "12px" }}
+          {businessName && (
+            <span
+              className={`text-[10px] font-semibold font-sans ${subTextColor}`}
+              style={{ fontFamily: bodyFont }}
             >
-              {subhead}
-            </p>
+              {businessName}
+            </span>
           )}
         </div>
-
-        {/* CTA */}
-        <div
-          className={`
-            flex items-center shrink-0
-            ${
-              isLeaderboard
-                ? "w-auto"
-                : "w-full mt-auto pt-1 justify-center"
-            }
-          `}
+      )}
+      <h3
+        ref={headlineRef}
+        className={`font-bold leading-tight font-sans ${textColor}`}
+        style={{
+          fontSize: `${fonts.headline}px`,
+          fontFamily: headlineFont,
+        }}
+      >
+        {headline}
+      </h3>
+      {layout.showSubhead && (
+        <p
+          ref={subheadRef}
+          className={`mt-1 leading-snug font-sans ${subTextColor}`}
+          style={{
+            fontSize: `${fonts.subhead}px`,
+            fontFamily: bodyFont,
+          }}
         >
-          <button
-            className="font-medium shadow-sm rounded-md transition-all whitespace-nowrap text-white font-sans"
-            style={{
-              backgroundColor: primaryColor,
-              padding: isMicro ? "2px 8px" : "6px 16px",
-              fontSize: isMicro ? "10px" : "12px",
-            }}
-          >
-            {cta}
-          </button>
-        </div>
-      </div>
+          {subhead}
+        </p>
+      )}
+      {layout.cta === "inline" && <div className="mt-2">{ctaButton}</div>}
     </div>
   );
-};
 
-// ---------- Character Counter ----------
+  const ctaRegion = (
+    <div
+      key="cta"
+      className={`flex items-center shrink-0 ${
+        isRow ? "w-auto" : "w-full mt-auto pt-1 justify-center"
+      }`}
+    >
+      {ctaButton}
+    </div>
+  );
 
-const CharCounter: React.FC<{ current: number; max: number }> = ({
-  current,
-  max,
-}) => {
-  const isOver = current > max;
   return (
-    <span
-      className={`text-[10px] font-mono ml-auto ${
-        isOver ? "text-red-500 font-bold" : "text-slate-400"
+    <div
+      ref={ref}
+      lang={locale}
+      dir={dir}
+      className={`${containerBg} border shadow-sm relative overflow-hidden flex cursor-default select-none transition-colors duration-200 ${
+        isBackground ? dragClass : ""
       }`}
+      style={{
+        width: size.w,
+        height: size.h,
+        touchAction: isBackground && canDrag ? "none" : undefined,
+      }}
+      {...(isBackground && dragHandlers)}
     >
-      {current}/{max}
-    </span>
+      {isBackground && imageRegion}
+      {isBackground && layout.scrim && (
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{
+            background: isRow
+              ? `linear-gradient(to ${
+                  dir === "rtl" ? "left" : "right"
+                }, rgba(15,23,42,0.85), rgba(15,23,42,0.3))`
+              : "linear-gradient(to top, rgba(15,23,42,0.9), rgba(15,23,42,0.15))",
+          }}
+        />
+      )}
+      <div
+        ref={textBoxRef}
+        className={`relative z-10 w-full h-full flex ${
+          isRow ? "flex-row items-center justify-between" : "flex-col"
+        }`}
+        style={{ padding: layout.padding, gap: layout.gap }}
+      >
+        {layout.order.map((region) =>
+          region === "image"
+            ? isBackground
+              ? null
+              : imageRegion
+            : region === "text"
+            ? textRegion
+            : layout.cta === "end"
+            ? ctaRegion
+            : null
+        )}
+      </div>
+    </div>
   );
 };
 
 // ---------- Ad Preview Card (with Download) ----------
 
-interface AdPreviewSettings {
-  image: string | null;
-  headline: string;
-  subhead: string;
-  cta: string;
-  primaryColor: string;
-  darkMode: boolean;
-  imageScale: number;
-  imageOffset: { x: number; y: number };
-}
-
 interface AdPreviewCardProps {
   label: string;
   size: AdSize;
   settings: AdPreviewSettings;
-  highlightDrag?: boolean;
-  onImageOffsetChange?: (offset: { x: number; y: number }) => void;
+  exportSettings: ImageExportSettings;
+  /** Extra line under the size label, e.g. the RDA assets in use. */
+  caption?: string;
+  /** True when this size has its own scale/offset instead of the shared one. */
+  overridden?: boolean;
+  showCropDebug?: boolean;
+  onImageOffsetChange?: (
+    offset: { x: number; y: number },
+    scale?: number
+  ) => void;
+  onImageScaleChange?: (scale: number) => void;
+  /** Receives null when the card unmounts. */
+  onTextOverflow?: (overflow: TextOverflow | null) => void;
+  onResetOverride?: () => void;
+  /** This size's own template id, or "" to follow the project template. */
+  sizeTemplate?: string;
+  onSizeTemplateChange?: (id: string) => void;
+  /** QA status and comments; the review controls only show when set. */
+  review?: SizeReview;
+  /** Clicks on the ad drop a comment pin instead of dragging. */
+  commentMode?: boolean;
+  onReviewStatusChange?: (status: ReviewStatus) => void;
+  onAddComment?: (x: number, y: number, text: string) => void;
+  onRemoveComment?: (id: string) => void;
+  /** QA guides over the ad; they sit outside the exported node. */
+  overlays?: OverlaySettings;
 }
 
 const AdPreviewCard: React.FC<AdPreviewCardProps> = ({
   label,
   size,
   settings,
-  highlightDrag = false,
+  exportSettings,
+  caption,
+  overridden = false,
+  showCropDebug = false,
   onImageOffsetChange,
+  onImageScaleChange,
+  onTextOverflow,
+  onResetOverride,
+  sizeTemplate = "",
+  onSizeTemplateChange,
+  review,
+  commentMode = false,
+  onReviewStatusChange,
+  onAddComment,
+  onRemoveComment,
+  overlays,
 }) => {
-  const wrapperRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLDivElement | null>(null);
+  const [lastExport, setLastExport] = useState<ImageExportResult | null>(null);
+  const [overflow, setOverflow] = useState<TextOverflow | null>(null);
+
+  // Keep the latest callback so the unmount cleanup can clear this card.
+  const reportRef = useRef(onTextOverflow);
+  useEffect(() => {
+    reportRef.current = onTextOverflow;
+  });
+  useEffect(() => () => reportRef.current?.(null), []);
+
+  const handleTextOverflow = (next: TextOverflow) => {
+    setOverflow(next);
+    onTextOverflow?.(next);
+  };
+  const formatLabel = exportSettings.format.toUpperCase();
+
+  const handlePlaceComment = (x: number, y: number) => {
+    const text = window.prompt(
+      `Comment at ${Math.round(x)}, ${Math.round(y)} on ${label}:`
+    );
+    if (text?.trim()) onAddComment?.(x, y, text.trim());
+  };
 
   const handleDownload = async () => {
-    if (!wrapperRef.current) return;
+    if (!canvasRef.current) return;
     try {
-      const dataUrl = await toPng(wrapperRef.current, {
-        cacheBust: true,
-        pixelRatio: 2,
-      });
-      const link = document.createElement("a");
-      const safeLabel = label.toLowerCase().replace(/\s+/g, "-");
-      link.download = `${safeLabel}-${size.w}x${size.h}.png`;
-      link.href = dataUrl;
-      link.click();
+      const result = await exportImage(canvasRef.current, size, exportSettings);
+      setLastExport(result);
+      downloadBlob(
+        result.blob,
+        `${slugify(label)}-${size.w}x${size.h}.${
+          FORMAT_EXTENSIONS[result.format]
+        }`
+      );
     } catch (err) {
       console.error("Download failed", err);
-      alert("Could not export PNG. Check console for details.");
+      alert(`Could not export ${formatLabel}. Check console for details.`);
     }
   };
 
@@ -289,28 +909,185 @@ const AdPreviewCard: React.FC<AdPreviewCardProps> = ({
         <div className="text-[10px] text-slate-400 font-mono uppercase">
           {label} ({size.w}x{size.h})
         </div>
+        {overridden && (
+          <span className="flex items-center gap-1 ml-2 mr-auto text-[10px] text-blue-700 bg-blue-50 border border-blue-200 rounded px-1.5 py-0.5">
+            Custom crop
+            {onResetOverride && (
+              <button
+                onClick={onResetOverride}
+                className="text-blue-400 hover:text-blue-700"
+                title="Reset to shared scale and offset"
+              >
+                <RotateCcw size={10} />
+              </button>
+            )}
+          </span>
+        )}
+        {overflow && hasOverflow(overflow) && (
+          <span
+            className={`flex items-center gap-1 ml-2 ${
+              overridden ? "" : "mr-auto"
+            } text-[10px] text-amber-700 bg-amber-50 border border-amber-200 rounded px-1.5 py-0.5`}
+            title="Copy is cut off at this size"
+          >
+            <AlertTriangle size={10} /> Clipped: {describeOverflow(overflow)}
+          </span>
+        )}
         <button
           onClick={handleDownload}
           className="flex items-center gap-1 px-2 py-1 rounded text-[10px] border border-slate-300 text-slate-600 hover:bg-white active:scale-95"
         >
-          <Download size={10} /> PNG
+          <Download size={10} /> {formatLabel}
         </button>
       </div>
-      <div ref={wrapperRef} className="flex justify-center">
-        <AdCanvas
-          size={size}
-          image={settings.image}
-          headline={settings.headline}
-          subhead={settings.subhead}
-          cta={settings.cta}
-          primaryColor={settings.primaryColor}
-          darkMode={settings.darkMode}
-          imageScale={settings.imageScale}
-          imageOffset={settings.imageOffset}
-          enableDrag={highlightDrag}
-          onImageOffsetChange={onImageOffsetChange}
-        />
+      {caption && (
+        <div className="text-[10px] text-slate-500 font-mono -mt-2">
+          {caption}
+        </div>
+      )}
+      {lastExport && (
+        <div
+          className={`text-[10px] font-mono -mt-1 ${
+            lastExport.withinBudget ? "text-green-600" : "text-red-500"
+          }`}
+        >
+          {describeExport(lastExport)}
+          {!lastExport.withinBudget && ` · over ${exportSettings.maxKB} KB`}
+        </div>
+      )}
+      {onSizeTemplateChange && (
+        <select
+          value={sizeTemplate}
+          onChange={(e) => onSizeTemplateChange(e.target.value)}
+          className={`-mt-1 px-1 py-0.5 rounded border text-[10px] bg-white outline-none ${
+            sizeTemplate
+              ? "border-blue-300 text-blue-700"
+              : "border-slate-200 text-slate-500"
+          }`}
+          title="Layout template for this size"
+        >
+          <option value="">Project layout</option>
+          {LAYOUT_TEMPLATES.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+      )}
+      {onImageScaleChange && settings.image && (
+        <div className="flex items-center gap-2 -mt-1">
+          <ZoomIn size={10} className="text-slate-400" />
+          <input
+            type="range"
+            min={IMAGE_SCALE_RANGE.min}
+            max={IMAGE_SCALE_RANGE.max}
+            step={IMAGE_SCALE_RANGE.step}
+            value={settings.imageScale}
+            onChange={(e) => onImageScaleChange(parseFloat(e.target.value))}
+            className="flex-1 h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          />
+          <span className="text-[10px] text-slate-400 font-mono w-8 text-right">
+            {Math.round(settings.imageScale * 100)}%
+          </span>
+        </div>
+      )}
+      <div className="flex justify-center">
+        <div className="relative">
+          <AdCanvas
+            ref={canvasRef}
+            size={size}
+            image={settings.image}
+            headline={settings.headline}
+            subhead={settings.subhead}
+            cta={settings.cta}
+            primaryColor={settings.primaryColor}
+            ctaTextColor={settings.ctaTextColor}
+            darkMode={settings.darkMode}
+            imageScale={settings.imageScale}
+            imageOffset={settings.imageOffset}
+            logo={settings.logo}
+            logoWide={settings.logoWide}
+            businessName={settings.businessName}
+            headlineFont={settings.headlineFont}
+            bodyFont={settings.bodyFont}
+            focus={settings.focus}
+            manualCrop={settings.manualCrop}
+            showCropDebug={showCropDebug}
+            enableDrag={Boolean(onImageOffsetChange)}
+            onImageOffsetChange={onImageOffsetChange}
+            textFit={settings.textFit}
+            layoutTemplate={settings.layoutTemplate}
+            locale={settings.locale}
+            onTextOverflow={handleTextOverflow}
+          />
+          {review && (
+            <CommentPins
+              size={size}
+              comments={review.comments}
+              onPlace={
+                commentMode && onAddComment ? handlePlaceComment : undefined
+              }
+            />
+          )}
+          {overlays &&
+            (overlays.safeZone ||
+              overlays.grid ||
+              overlays.rulers ||
+              overlays.measure) && (
+              <PreviewOverlays size={size} settings={overlays} />
+            )}
+        </div>
       </div>
+      {review && (
+        <div className="space-y-1">
+          {onReviewStatusChange && (
+            <select
+              value={review.status}
+              onChange={(e) =>
+                onReviewStatusChange(e.target.value as ReviewStatus)
+              }
+              className="px-1 py-0.5 rounded border border-slate-200 text-[10px] bg-white outline-none font-semibold"
+              style={{
+                color: REVIEW_STATUSES.find((s) => s.value === review.status)
+                  ?.color,
+              }}
+              title="Review status for this size"
+            >
+              {REVIEW_STATUSES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {review.comments.map((c, i) => (
+            <div
+              key={c.id}
+              className="flex items-start gap-1 text-[11px] text-slate-600"
+            >
+              <span className="w-4 h-4 shrink-0 rounded-full bg-blue-600 text-white text-[9px] font-bold flex items-center justify-center">
+                {i + 1}
+              </span>
+              <span className="flex-1">
+                {c.text}
+                <span className="text-[10px] text-slate-400">
+                  {" "}
+                  — {c.author || "Anonymous"}
+                </span>
+              </span>
+              {onRemoveComment && (
+                <button
+                  onClick={() => onRemoveComment(c.id)}
+                  className="text-slate-400 hover:text-red-500"
+                  title="Delete comment"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -326,73 +1103,308 @@ const App: React.FC = () => {
   const [headline, setHeadline] = useState("");
   const [subhead, setSubhead] = useState("");
   const [cta, setCta] = useState("");
+  // Other locales' copy; the fields above always hold the active locale's.
+  const [activeLocale, setActiveLocale] = useState(DEFAULT_LOCALE);
+  const [localeCopy, setLocaleCopy] = useState<Record<string, LocaleCopy>>({});
 
   // Design
   const [primaryColor, setPrimaryColor] = useState("#EF4444");
+  const [autoCtaText, setAutoCtaText] = useState(false);
+  const [textFit, setTextFit] = useState<TextFitSettings>(DEFAULT_TEXT_FIT);
+  const [textOverflow, setTextOverflow] = useState<
+    Record<string, TextOverflowEntry>
+  >({});
   const [darkMode, setDarkMode] = useState(false);
   const [imageScale, setImageScale] = useState(1);
   const [imageOffset, setImageOffset] = useState({ x: 0, y: 0 });
+  const [manualCrop, setManualCrop] = useState(false);
+  const [sizeOverrides, setSizeOverrides] = useState<SizeOverrides>({});
+  const [layoutTemplate, setLayoutTemplate] = useState(DEFAULT_LAYOUT_TEMPLATE);
+  // Keyed by catalog size id; sizes not listed use `layoutTemplate`.
+  const [sizeTemplates, setSizeTemplates] = useState<Record<string, string>>(
+    {}
+  );
+  // Main view, variant matrix and placement context
+  const [mainView, setMainView] = useState<"sizes" | "matrix" | "context">(
+    "sizes"
+  );
+  const [matrixCopy, setMatrixCopy] = useState<MatrixCopy>(EMPTY_MATRIX_COPY);
+  const [matrixSizeId, setMatrixSizeId] = useState("");
+  const [cellStatus, setCellStatus] = useState<Record<string, CellStatus>>({});
+  const [dragScope, setDragScope] = useState<"size" | "shared">("size");
+  // QA overlays are a view preference, kept out of projects and history.
+  const [overlays, setOverlays] = useState(loadOverlaySettings);
+
+  useEffect(() => {
+    saveOverlaySettings(overlays);
+  }, [overlays]);
+
+  // Focal points, keyed by index into `images`.
+  const [imageFocus, setImageFocus] = useState<Record<number, ImageFocus>>({});
+  const [showCropDebug, setShowCropDebug] = useState(false);
+  const [imageInfo, setImageInfo] = useState<Record<number, CreativeInfo>>({});
+  // Upload file names, keyed like `imageInfo`; review links refer to them.
+  const [imageNames, setImageNames] = useState<Record<number, string>>({});
+  // Both of the above by image data URL, so undo/redo can re-key them to
+  // the image list it restores.
+  const creatives = useRef(
+    new Map<string, { info?: CreativeInfo; name?: string }>()
+  );
+
+  // Responsive Display Ads
+  const [adMode, setAdMode] = useState<AdMode>("static");
+  const [rdaAssets, setRdaAssets] = useState<RdaAssets>(EMPTY_RDA_ASSETS);
+  const [rdaSamples, setRdaSamples] = useState(3);
+
+  // Google Ads Editor bulk upload
+  const [adsEditorTarget, setAdsEditorTarget] = useState<AdsEditorTarget>(
+    EMPTY_ADS_EDITOR_TARGET
+  );
+
+  // QA review
+  const [sizeReviews, setSizeReviews] = useState<SizeReviews>({});
+  const [commentMode, setCommentMode] = useState(false);
+  const [reviewer, setReviewer] = useState(loadReviewerName);
+
+  useEffect(() => {
+    saveReviewerName(reviewer);
+  }, [reviewer]);
+
+  // Static export
+  const [imageExport, setImageExport] =
+    useState<ImageExportSettings>(DEFAULT_IMAGE_EXPORT);
 
   // Presets
-  const [presets, setPresets] = useState<Preset[]>(() => {
-    try {
-      const raw = localStorage.getItem("ga-visualizer-presets");
-      if (raw) return JSON.parse(raw);
-    } catch (e) {
-      console.warn("Could not load presets", e);
-    }
-    return [];
-  });
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [activePreset, setActivePreset] = useState<string | null>(null);
+  const [skippedPresets, setSkippedPresets] = useState(0);
+
+  useEffect(() => {
+    loadPresetLibrary()
+      .then(({ presets, skipped }) => {
+        setPresets(presets);
+        setSkippedPresets(skipped);
+      })
+      .catch((e) => console.warn("Could not load presets", e));
+  }, []);
+
+  // Brand kits
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [activeKitId, setActiveKitId] = useState<string | null>(
+    loadActiveKitId
+  );
+  const activeKit = brandKits.find((k) => k.id === activeKitId) ?? null;
+  const kitFonts = kitFontStacks(activeKit);
+  const swatches = activeKit?.palette.length
+    ? activeKit.palette
+    : DEFAULT_SWATCHES;
+
+  useEffect(() => {
+    loadBrandKits()
+      .then(setBrandKits)
+      .catch((e) => console.warn("Could not load brand kits", e));
+  }, []);
 
   useEffect(() => {
+    saveActiveKitId(activeKitId);
+  }, [activeKitId]);
+
+  useEffect(() => {
+    installKitFonts(activeKit);
+  }, [activeKit]);
+
+  const applyKitDefaults = (kit: BrandKit) => {
+    labelNextStep(`Apply brand kit "${kit.name}"`);
+    if (kit.palette.length) setPrimaryColor(kit.palette[0]);
+    if (kit.defaultCta) setCta(kit.defaultCta);
+    setDarkMode(kit.darkMode);
+  };
+
+  const selectKit = (id: string | null) => {
+    setActiveKitId(id);
+    const kit = brandKits.find((k) => k.id === id);
+    if (kit) applyKitDefaults(kit);
+  };
+
+  const storeKit = (kit: BrandKit) => {
+    setBrandKits((prev) =>
+      [...prev.filter((k) => k.id !== kit.id), kit].sort((a, b) =>
+        a.name.localeCompare(b.name)
+      )
+    );
+    saveBrandKit(kit).catch((e) => {
+      console.error("Could not save brand kit", e);
+      alert("Could not save the brand kit to this browser.");
+    });
+  };
+
+  const handleCreateKit = () => {
+    const name = window.prompt("Brand kit name?", "New client");
+    if (!name) return;
+    const kit = createBrandKit(name);
+    storeKit(kit);
+    setActiveKitId(kit.id);
+  };
+
+  const handleDeleteKit = (kit: BrandKit) => {
+    if (!window.confirm(`Delete brand kit "${kit.name}"?`)) return;
+    setBrandKits((prev) => prev.filter((k) => k.id !== kit.id));
+    setActiveKitId(null);
+    deleteBrandKit(kit.id).catch((e) =>
+      console.error("Could not delete brand kit", e)
+    );
+  };
+
+  const handleImportKit = async (file: File) => {
     try {
-      localStorage.setItem(
-        "ga-visualizer-presets",
-        JSON.stringify(presets.slice(0, 10))
-      );
+      const kit = parseBrandKitImport(await file.text());
+      storeKit(kit);
+      setActiveKitId(kit.id);
+      applyKitDefaults(kit);
     } catch (e) {
-      console.warn("Could not save presets", e);
+      console.error("Could not import brand kit", e);
+      alert("Could not import brand kit. Check console for details.");
     }
-  }, [presets]);
+  };
+
+  const handleExportKit = (kit: BrandKit) =>
+    downloadBlob(
+      exportBrandKitBlob(kit),
+      `${slugify(kit.name)}-brand-kit.json`
+    );
+
+  // Sizes
+  const [sizeCatalog, setSizeCatalog] =
+    useState<SizeCatalogState>(loadSizeCatalog);
+
+  useEffect(() => {
+    saveSizeCatalog(sizeCatalog);
+  }, [sizeCatalog]);
 
+  const activeSizes = enabledSizes(sizeCatalog);
   const activeImage = images[activeImageIndex] ?? null;
+  const ctaTextColor = autoCtaText
+    ? readableTextColor(primaryColor)
+    : LIGHT_TEXT;
+
+  // Average colour of the active image, for the contrast checker
+  const [sampledColor, setSampledColor] = useState<{
+    src: string;
+    color: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!activeImage) return;
+    let cancelled = false;
+    averageImageColor(activeImage)
+      .then(
+        (color) => !cancelled && setSampledColor({ src: activeImage, color })
+      )
+      .catch((err) => {
+        console.warn("Could not sample image colour", err);
+        if (!cancelled) setSampledColor({ src: activeImage, color: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeImage]);
+
+  const imageColor =
+    sampledColor && sampledColor.src === activeImage
+      ? sampledColor.color
+      : null;
+  const creativeReports = images.map((_, idx) =>
+    imageInfo[idx] ? evaluateCreative(imageInfo[idx], activeSizes) : null
+  );
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>): void => {
+  const handleImageUpload = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        if (ev.target?.result) {
-          const data = ev.target.result as string;
-          setImages((prev) => {
-            const next = [...prev, data];
-            setActiveImageIndex(next.length - 1);
-            return next;
-          });
-        }
-      };
-      reader.readAsDataURL(file);
+      try {
+        const data = await readFileAsDataUrl(file);
+        const info = await inspectCreative(data);
+        creatives.current.set(data, { info, name: file.name });
+        labelNextStep(`Add variant ${images.length + 1}`);
+        setImages((prev) => {
+          const next = [...prev, data];
+          setActiveImageIndex(next.length - 1);
+          setImageInfo((infos) => ({ ...infos, [next.length - 1]: info }));
+          setImageNames((names) => ({
+            ...names,
+            [next.length - 1]: file.name,
+          }));
+          return next;
+        });
+      } catch (err) {
+        console.error("Could not read image", err);
+        alert("Could not read that image file.");
+      }
     }
   };
 
-  const handleSavePreset = () => {
-    const name = window.prompt("Preset name?", "Default layout");
-    if (!name) return;
-    const preset: Preset = {
-      id: Date.now().toString(),
-      name,
-      headline,
-      subhead,
-      cta,
-      primaryColor,
-      darkMode,
-      imageScale,
-      imageOffset,
-    };
-    setPresets((prev) => [preset, ...prev].slice(0, 10));
+  const presetSettings = () => ({
+    headline,
+    subhead,
+    cta,
+    primaryColor,
+    darkMode,
+    imageScale,
+    imageOffset,
+    sizeOverrides,
+    autoCtaText,
+    textFit,
+    layoutTemplate,
+    sizeTemplates,
+  });
+
+  // State updates first, then IndexedDB; a failed write is reported but the
+  // in-memory list stays usable for this session.
+  const storePresets = (changed: Preset[]) => {
+    setPresets((prev) =>
+      sortPresets([
+        ...changed,
+        ...prev.filter((p) => !changed.some((c) => c.id === p.id)),
+      ])
+    );
+    savePresets(changed).catch((e) => {
+      console.error("Could not save presets", e);
+      alert("Could not save presets to this browser.");
+    });
   };
 
+  const handleSavePreset = (name: string, folder: string) =>
+    storePresets([
+      {
+        id: newPresetId(),
+        name,
+        folder,
+        tags: [],
+        updatedAt: Date.now(),
+        ...presetSettings(),
+      },
+    ]);
+
+  const overwritePreset = (preset: Preset) =>
+    storePresets([{ ...preset, ...presetSettings(), updatedAt: Date.now() }]);
+
+  const updatePreset = (preset: Preset) =>
+    storePresets([{ ...preset, updatedAt: Date.now() }]);
+
+  const duplicatePreset = (preset: Preset) =>
+    storePresets([
+      {
+        ...preset,
+        id: newPresetId(),
+        name: `${preset.name} copy`,
+        updatedAt: Date.now(),
+      },
+    ]);
+
   const applyPreset = (preset: Preset) => {
+    setActivePreset(preset.name);
+    labelNextStep(`Apply preset "${preset.name}"`);
     setHeadline(preset.headline);
     setSubhead(preset.subhead);
     setCta(preset.cta);
@@ -400,25 +1412,758 @@ const App: React.FC = () => {
     setDarkMode(preset.darkMode);
     setImageScale(preset.imageScale);
     setImageOffset(preset.imageOffset);
+    setSizeOverrides(preset.sizeOverrides ?? {});
+    setAutoCtaText(preset.autoCtaText ?? false);
+    setTextFit(preset.textFit ?? DEFAULT_TEXT_FIT);
+    setLayoutTemplate(preset.layoutTemplate ?? DEFAULT_LAYOUT_TEMPLATE);
+    setSizeTemplates(preset.sizeTemplates ?? {});
   };
 
-  const deletePreset = (id: string) => {
-    setPresets((prev) => prev.filter((p) => p.id !== id));
+  const deletePreset = (preset: Preset) => {
+    if (!window.confirm(`Delete preset "${preset.name}"?`)) return;
+    setPresets((prev) => prev.filter((p) => p.id !== preset.id));
+    deletePresetRecord(preset.id).catch((e) =>
+      console.error("Could not delete preset", e)
+    );
   };
 
-  const sharedSettings: AdPreviewSettings = {
-    image: activeImage,
+  const importPresets = async (file: File) => {
+    try {
+      const { presets: imported, skipped } = parsePresetImport(
+        await file.text()
+      );
+      storePresets(imported);
+      alert(
+        `Imported ${imported.length} preset${
+          imported.length === 1 ? "" : "s"
+        }` + (skipped ? `; skipped ${skipped} invalid.` : ".")
+      );
+    } catch (e) {
+      console.error("Could not import presets", e);
+      alert("Could not import presets. Check console for details.");
+    }
+  };
+
+  const exportPresets = (list: Preset[]) =>
+    downloadBlob(exportPresetsBlob(list), `presets-${Date.now()}.json`);
+
+  // ---------- Project files ----------
+
+  const editorState: EditorState = {
+    images,
+    imageFocus,
     headline,
     subhead,
     cta,
+    activeLocale,
+    localeCopy,
     primaryColor,
+    autoCtaText,
     darkMode,
     imageScale,
     imageOffset,
+    manualCrop,
+    sizeOverrides,
+    textFit,
+    layoutTemplate,
+    sizeTemplates,
+    sizeCatalog,
+    imageExport,
+    adMode,
+    rdaAssets,
+    rdaSamples,
+    sizeReviews,
+    adsEditorTarget,
   };
+  const projectState: ProjectState = { ...editorState, activeImageIndex };
 
-  return (
-    <div className="min-h-screen bg-slate-50 text-slate-800 font-sans pb-20">
+  const handleSaveProject = () => {
+    const name = window.prompt("Project name?", "creative-review");
+    if (!name) return;
+    downloadBlob(
+      serializeProject(projectState),
+      `${slugify(name)}${PROJECT_EXTENSION}`
+    );
+  };
+
+  // Upload checks aren't part of EditorState; images not seen this session
+  // are inspected again.
+  const restoreCreatives = (list: string[]) => {
+    const infos: Record<number, CreativeInfo> = {};
+    const names: Record<number, string> = {};
+    list.forEach((img, idx) => {
+      const known = creatives.current.get(img);
+      if (known?.name) names[idx] = known.name;
+      if (known?.info) {
+        infos[idx] = known.info;
+        return;
+      }
+      if (!img) return;
+      inspectCreative(img)
+        .then((info) => {
+          creatives.current.set(img, { ...creatives.current.get(img), info });
+          setImageInfo((prev) => ({ ...prev, [idx]: info }));
+        })
+        .catch((err) =>
+          console.warn(`Could not inspect variant ${idx + 1}`, err)
+        );
+    });
+    setImageInfo(infos);
+    setImageNames(names);
+  };
+
+  const restoreEditorState = (state: EditorState) => {
+    setImages(state.images);
+    restoreCreatives(state.images);
+    setActiveImageIndex((idx) =>
+      Math.max(0, Math.min(idx, state.images.length - 1))
+    );
+    setImageFocus(state.imageFocus);
+    setHeadline(state.headline);
+    setSubhead(state.subhead);
+    setCta(state.cta);
+    setActiveLocale(state.activeLocale);
+    setLocaleCopy(state.localeCopy);
+    setPrimaryColor(state.primaryColor);
+    setAutoCtaText(state.autoCtaText);
+    setDarkMode(state.darkMode);
+    setImageScale(state.imageScale);
+    setImageOffset(state.imageOffset);
+    setManualCrop(state.manualCrop);
+    setSizeOverrides(state.sizeOverrides);
+    setTextFit(state.textFit);
+    setLayoutTemplate(state.layoutTemplate);
+    setSizeTemplates(state.sizeTemplates);
+    setSizeCatalog(state.sizeCatalog);
+    setImageExport(state.imageExport);
+    setAdMode(state.adMode);
+    setRdaAssets(state.rdaAssets);
+    setRdaSamples(state.rdaSamples);
+    setSizeReviews(state.sizeReviews);
+    setAdsEditorTarget(state.adsEditorTarget);
+    pendingLabel.current = null;
+  };
+
+  const applyProject = (project: ProjectState) => {
+    restoreEditorState(project);
+    setActiveImageIndex(project.activeImageIndex);
+    labelNextStep("Open project");
+  };
+
+  // ---------- Undo history ----------
+
+  const [history, setHistory] = useState<History<EditorState>>(() =>
+    createHistory(editorState)
+  );
+  // Set by actions that change several fields at once, e.g. applying a preset.
+  const pendingLabel = useRef<string | null>(null);
+  const pointerHeld = useRef(false);
+
+  const labelNextStep = (label: string) => {
+    pendingLabel.current = label;
+  };
+
+  const takeLabel = (prev: EditorState) => {
+    const label =
+      pendingLabel.current ?? describeChange(prev, editorState, HISTORY_LABELS);
+    pendingLabel.current = null;
+    return label;
+  };
+
+  // Drags and slider moves hold the pointer down; they become one step
+  // once it is released.
+  useEffect(() => {
+    const down = () => {
+      pointerHeld.current = true;
+    };
+    const up = () => {
+      pointerHeld.current = false;
+    };
+    window.addEventListener("pointerdown", down, true);
+    window.addEventListener("pointerup", up, true);
+    window.addEventListener("pointercancel", up, true);
+    return () => {
+      window.removeEventListener("pointerdown", down, true);
+      window.removeEventListener("pointerup", up, true);
+      window.removeEventListener("pointercancel", up, true);
+    };
+  }, []);
+
+  // Records a step once edits have settled. Runs after every render so the
+  // timer always sees the latest state; any new edit restarts it.
+  useEffect(() => {
+    const present = currentStep(history).state;
+    if (!changedKeys(present, editorState).length) return;
+    return scheduleSettle(
+      () => setHistory(pushHistory(history, editorState, takeLabel(present))),
+      () => pointerHeld.current
+    );
+  });
+
+  // Unsettled edits are recorded first so undo never skips over them.
+  const moveHistory = (target: (h: History<EditorState>) => number) => {
+    const present = currentStep(history).state;
+    const settled = changedKeys(present, editorState).length
+      ? pushHistory(history, editorState, takeLabel(present))
+      : history;
+    const next = jumpHistory(settled, target(settled));
+    setHistory(next);
+    if (next !== settled) restoreEditorState(currentStep(next).state);
+  };
+
+  const undo = () => moveHistory((h) => h.index - 1);
+  const redo = () => moveHistory((h) => h.index + 1);
+  const jumpToStep = (index: number) => moveHistory(() => index);
+
+  // ---------- Review links ----------
+
+  const [review, setReview] = useState<{
+    images: SharedImage[];
+    preset: string | null;
+  } | null>(null);
+  const [reviewFiles, setReviewFiles] = useState<Record<string, string>>({});
+  const [embedImages, setEmbedImages] = useState(true);
+
+  const handleCopyLink = async () => {
+    const shared: SharedImage[] = images.map((data, idx) => {
+      const name = imageNames[idx] ?? `variant-${idx + 1}`;
+      const bytes = imageInfo[idx]?.bytes ?? Infinity;
+      return embedImages && bytes <= EMBED_MAX_BYTES
+        ? { name, data }
+        : { name };
+    });
+    const state: ShareState = {
+      images: shared,
+      activeImageIndex,
+      imageFocus,
+      headline,
+      subhead,
+      cta,
+      activeLocale,
+      primaryColor,
+      autoCtaText,
+      darkMode,
+      imageScale,
+      imageOffset,
+      manualCrop,
+      sizeOverrides,
+      textFit,
+      layoutTemplate,
+      sizeTemplates,
+      sizeCatalog,
+      preset: activePreset,
+    };
+    try {
+      const url = shareUrl(await encodeShareHash(state));
+      const byName = shared.filter((img) => !img.data).length;
+      const note = byName
+        ? ` The viewer will be asked to load ${byName} image${
+            byName > 1 ? "s" : ""
+          } by file name.`
+        : "";
+      try {
+        await navigator.clipboard.writeText(url);
+        alert(`Review link copied (${url.length} characters).${note}`);
+      } catch {
+        window.prompt(`Copy this review link.${note}`, url);
+      }
+    } catch (err) {
+      console.error("Could not create review link", err);
+      alert("Could not create a review link. Check console for details.");
+    }
+  };
+
+  // A `#review=` hash opens the shared state read-only. Missing files stay
+  // empty until loaded so variant indices and focal points line up.
+  useEffect(() => {
+    decodeShareHash(window.location.hash)
+      .then((state) => {
+        if (!state) return;
+        pendingLabel.current = "Open review link";
+        setReview({ images: state.images, preset: state.preset });
+        setImages(matchSharedImages(state.images, {}).map((img) => img ?? ""));
+        setActiveImageIndex(state.activeImageIndex);
+        setImageFocus(state.imageFocus);
+        setHeadline(state.headline);
+        setSubhead(state.subhead);
+        setCta(state.cta);
+        setActiveLocale(state.activeLocale);
+        setLocaleCopy({});
+        setPrimaryColor(state.primaryColor);
+        setAutoCtaText(state.autoCtaText);
+        setDarkMode(state.darkMode);
+        setImageScale(state.imageScale);
+        setImageOffset(state.imageOffset);
+        setManualCrop(state.manualCrop);
+        setSizeOverrides(state.sizeOverrides);
+        setTextFit(state.textFit);
+        setLayoutTemplate(state.layoutTemplate);
+        setSizeTemplates(state.sizeTemplates);
+        setSizeCatalog(state.sizeCatalog);
+        setAdMode("static");
+        setMainView("sizes");
+      })
+      .catch((err) => {
+        console.error("Could not open review link", err);
+        alert(
+          err instanceof ShareLinkError
+            ? `Could not open review link: ${err.message}`
+            : "Could not open review link. Check console for details."
+        );
+      });
+  }, []);
+
+  const handleReviewFiles = async (files: File[]) => {
+    if (!review) return;
+    const loaded: Record<string, string> = {};
+    for (const file of files) {
+      try {
+        loaded[file.name] = await readFileAsDataUrl(file);
+      } catch (err) {
+        console.warn(`Skipped ${file.name}`, err);
+      }
+    }
+    const merged = { ...reviewFiles, ...loaded };
+    const matched = matchSharedImages(review.images, merged);
+    setReviewFiles(merged);
+    setImages(matched.map((img) => img ?? ""));
+    if (matched.every((img, idx) => img === null || img === images[idx])) {
+      alert("None of those files match the image names in this link.");
+    }
+  };
+
+  const exitReview = () => {
+    setReview(null);
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + window.location.search
+    );
+  };
+
+  const openProjectFile = async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      if (
+        images.length > 0 &&
+        !window.confirm("Replace the current project with this file?")
+      ) {
+        return;
+      }
+      applyProject(project);
+    } catch (err) {
+      console.error("Could not open project", err);
+      alert(
+        err instanceof ProjectFileError
+          ? `Could not open project: ${err.message}`
+          : "Could not open project. Check console for details."
+      );
+    }
+  };
+
+  const handleOpenProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) openProjectFile(file);
+  };
+
+  const handleDragOver: React.DragEventHandler<HTMLDivElement> = (e) => {
+    if (e.dataTransfer.types.includes("Files")) e.preventDefault();
+  };
+
+  // File inputs handle their own drops; anywhere else, a dropped JSON file
+  // opens as a project.
+  const handleDrop: React.DragEventHandler<HTMLDivElement> = (e) => {
+    if (e.target instanceof HTMLInputElement && e.target.type === "file") {
+      return;
+    }
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    if (isProjectFileName(file.name)) {
+      openProjectFile(file);
+    } else {
+      alert(`Drop a ${PROJECT_EXTENSION} project file to open it.`);
+    }
+  };
+
+  // A focal point or a full-bleed layout crops automatically until the
+  // shared framing is moved by hand.
+  const backgroundLayouts = activeSizes
+    .map((spec) =>
+      resolveLayout(sizeTemplates[spec.id] ?? layoutTemplate, spec)
+    )
+    .filter((layout) => layout.image.mode === "background");
+  const autoCropApplies =
+    Boolean(activeImage) &&
+    (Boolean(imageFocus[activeImageIndex]) || backgroundLayouts.length > 0);
+
+  const sharedSettings: AdPreviewSettings = {
+    image: activeImage,
+    focus: imageFocus[activeImageIndex] ?? null,
+    headline,
+    subhead,
+    cta,
+    primaryColor,
+    ctaTextColor,
+    darkMode,
+    imageScale,
+    imageOffset,
+    manualCrop,
+    textFit,
+    logo: activeKit?.logoSquare ?? null,
+    logoWide: activeKit?.logoWide ?? null,
+    headlineFont: kitFonts.headline,
+    bodyFont: kitFonts.body,
+    locale: activeLocale,
+  };
+
+  // Only clipped cards are kept, so the summary is just this map.
+  const reportTextOverflow =
+    (key: string, entry: Omit<TextOverflowEntry, "overflow">) =>
+    (overflow: TextOverflow | null) =>
+      setTextOverflow((prev) => {
+        if (overflow && hasOverflow(overflow)) {
+          const current = prev[key];
+          if (current && sameOverflow(current.overflow, overflow)) return prev;
+          return { ...prev, [key]: { ...entry, overflow } };
+        }
+        if (!(key in prev)) return prev;
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+
+  // ---------- Keyboard shortcuts ----------
+
+  const exportAllRef = useRef<ExportAllHandle>(null);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const action = matchShortcut(e);
+      if (!action) return;
+      if (review && action !== "prev-variant" && action !== "next-variant") {
+        return;
+      }
+      e.preventDefault();
+      switch (action) {
+        case "undo":
+          undo();
+          break;
+        case "redo":
+          redo();
+          break;
+        case "prev-variant":
+        case "next-variant":
+          if (images.length > 1) {
+            const step = action === "next-variant" ? 1 : -1;
+            setActiveImageIndex(
+              (activeImageIndex + step + images.length) % images.length
+            );
+          }
+          break;
+        case "toggle-halo":
+          setDarkMode((prev) => !prev);
+          break;
+        case "export-all":
+          exportAllRef.current?.exportAll();
+          break;
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  // ---------- Locales ----------
+
+  const locales = localeCodes(activeLocale, localeCopy);
+  const currentCopy: LocaleCopy = { headline, subhead, cta };
+  const copyForLocale = (code: string): LocaleCopy =>
+    code === activeLocale ? currentCopy : localeCopy[code] ?? currentCopy;
+
+  const loadLocale = (code: string, copy: LocaleCopy) => {
+    setHeadline(copy.headline);
+    setSubhead(copy.subhead);
+    setCta(copy.cta);
+    setActiveLocale(code);
+  };
+
+  const switchLocale = (code: string) => {
+    if (code === activeLocale) return;
+    labelNextStep(`Switch to ${localeName(code)}`);
+    setLocaleCopy(storeLocaleCopy(activeLocale, localeCopy, currentCopy));
+    loadLocale(code, copyForLocale(code));
+  };
+
+  const addLocale = (code: string) => {
+    labelNextStep(`Add ${localeName(code)}`);
+    setLocaleCopy({
+      ...storeLocaleCopy(activeLocale, localeCopy, currentCopy),
+      [code]: currentCopy,
+    });
+    setActiveLocale(code);
+  };
+
+  const removeLocale = (code: string) => {
+    if (!window.confirm(`Remove ${localeName(code)} and its copy?`)) return;
+    labelNextStep(`Remove ${localeName(code)}`);
+    const next = storeLocaleCopy(activeLocale, localeCopy, currentCopy);
+    delete next[code];
+    setLocaleCopy(next);
+    if (code === activeLocale) {
+      const [fallback] = Object.keys(next);
+      loadLocale(fallback, next[fallback]);
+    }
+  };
+
+  // ---------- Editorial policy ----------
+
+  const [policySettings, setPolicySettings] = useState(loadPolicySettings);
+  const policyConfig = policySettings.accounts[policySettings.active];
+  const policyIssues = lintCopy(currentCopy, policyConfig);
+
+  useEffect(() => {
+    savePolicySettings(policySettings);
+  }, [policySettings]);
+
+  const exportPolicyReport = () =>
+    downloadBlob(
+      new Blob(
+        [
+          lintReportCsv(
+            policySettings.active,
+            locales.map((code) => ({
+              locale: code,
+              copy: copyForLocale(code),
+            })),
+            policyConfig
+          ),
+        ],
+        { type: "text/csv" }
+      ),
+      `policy-report-${slugify(policySettings.active)}.csv`
+    );
+
+  const settingsFor = (sizeId: string) =>
+    applyOverride(
+      {
+        ...sharedSettings,
+        layoutTemplate: sizeTemplates[sizeId] ?? layoutTemplate,
+      },
+      sizeOverrides[sizeId]
+    );
+
+  const handleSizeOffsetChange = (
+    sizeId: string,
+    offset: { x: number; y: number },
+    scale?: number
+  ) => {
+    if (dragScope === "shared") {
+      setImageOffset(offset);
+      if (scale !== undefined) setImageScale(scale);
+      setManualCrop(true);
+      return;
+    }
+    // Dragging an auto-cropped frame pins its computed scale too.
+    setSizeOverrides((prev) =>
+      updateOverride(prev, sizeId, {
+        imageOffset: offset,
+        ...(scale !== undefined && { imageScale: scale }),
+      })
+    );
+  };
+
+  const overrideHandlers = (sizeId: string) => ({
+    overridden: sizeId in sizeOverrides,
+    showCropDebug,
+    onImageOffsetChange: (offset: { x: number; y: number }, scale?: number) =>
+      handleSizeOffsetChange(sizeId, offset, scale),
+    onImageScaleChange: (scale: number) =>
+      setSizeOverrides((prev) =>
+        updateOverride(prev, sizeId, { imageScale: scale })
+      ),
+    onResetOverride: () =>
+      setSizeOverrides((prev) => clearOverride(prev, sizeId)),
+    sizeTemplate: sizeTemplates[sizeId] ?? "",
+    onSizeTemplateChange: (id: string) =>
+      setSizeTemplates((prev) => {
+        const next = { ...prev };
+        if (id) next[sizeId] = id;
+        else delete next[sizeId];
+        return next;
+      }),
+  });
+
+  // One job per size for every uploaded variant (or the placeholder if none).
+  const jobsForCopy = (copy: LocaleCopy, locale?: string): BatchExportJob[] =>
+    (images.length ? images : [null]).flatMap((image, idx) =>
+      activeSizes.map((spec) => ({
+        spec,
+        variant: idx + 1,
+        locale,
+        settings: {
+          ...settingsFor(spec.id),
+          ...copy,
+          locale: locale ?? activeLocale,
+          image,
+          focus: imageFocus[idx] ?? null,
+        },
+      }))
+    );
+  const exportJobs = jobsForCopy(currentCopy);
+  // Every locale, each under its own folder; only offered with several.
+  const localeExportJobs =
+    locales.length > 1
+      ? locales.flatMap((code) => jobsForCopy(copyForLocale(code), code))
+      : [];
+
+  // ---------- QA review ----------
+
+  const reviewHandlers = (sizeId: string) => ({
+    review: reviewFor(sizeReviews, sizeId),
+    commentMode,
+    onReviewStatusChange: (status: ReviewStatus) =>
+      setSizeReviews((prev) => setReviewStatus(prev, sizeId, status)),
+    onAddComment: (x: number, y: number, text: string) =>
+      setSizeReviews((prev) =>
+        addReviewComment(prev, sizeId, { x, y, text, author: reviewer })
+      ),
+    onRemoveComment: (id: string) =>
+      setSizeReviews((prev) => removeReviewComment(prev, sizeId, id)),
+  });
+
+  // Each size at exactly 1x so pin coordinates line up in the report.
+  const buildQaReport = async (generatedAt: Date) => {
+    const sizes: ReportSize[] = [];
+    for (const spec of activeSizes) {
+      let image: string | null = null;
+      try {
+        const result = await renderOffscreen(
+          <AdCanvas size={spec} {...settingsFor(spec.id)} />,
+          (node) =>
+            exportImage(node, spec, {
+              format: "png",
+              maxKB: 0,
+              exactSize: true,
+            })
+        );
+        image = await readFileAsDataUrl(
+          new File([result.blob], `${spec.id}.png`)
+        );
+      } catch (err) {
+        console.warn(`Could not render ${spec.label} for the report`, err);
+      }
+      sizes.push({ spec, image, review: reviewFor(sizeReviews, spec.id) });
+    }
+    const title = headline ? `QA review: ${headline}` : "QA review";
+    return buildReviewReport(title, sizes, generatedAt);
+  };
+
+  const renderExportJob = (job: BatchExportJob, settings = imageExport) =>
+    renderOffscreen(<AdCanvas size={job.spec} {...job.settings} />, (node) =>
+      exportImage(node, job.spec, settings)
+    );
+
+  const rdaFileCount = RDA_IMAGE_SLOTS.reduce(
+    (sum, { id }) => sum + rdaAssets[id].length,
+    0
+  );
+  const buildAdsEditorPackage = (
+    onProgress: (progress: BatchExportProgress) => void
+  ) =>
+    adMode === "responsive"
+      ? buildRdaPackage(adsEditorTarget, rdaAssets)
+      : buildImageAdPackage(
+          adsEditorTarget,
+          exportJobs,
+          renderExportJob,
+          imageExport,
+          onProgress
+        );
+
+  // One job per size for every valid feed row.
+  const feedJobs = (rows: FeedRow[]): BatchExportJob[] =>
+    rows.flatMap((row) =>
+      activeSizes.map((spec) => {
+        const color = row.color ?? primaryColor;
+        return {
+          spec,
+          variant: row.row,
+          row: row.row,
+          settings: {
+            ...settingsFor(spec.id),
+            headline: row.headline,
+            subhead: row.subhead,
+            cta: row.cta,
+            primaryColor: color,
+            ctaTextColor: autoCtaText ? readableTextColor(color) : LIGHT_TEXT,
+            // Rows without an image file keep the current upload.
+            image: row.imageName ? row.image : activeImage,
+            focus: row.imageName ? null : imageFocus[activeImageIndex] ?? null,
+          },
+        };
+      })
+    );
+
+  // ---------- Variant matrix ----------
+
+  const matrixCells = buildMatrix(images.length, matrixCopy, {
+    headline,
+    subhead,
+    cta,
+  });
+
+  const cellSettings = (cell: MatrixCell, sizeId: string) => ({
+    ...settingsFor(sizeId),
+    image: cell.imageIndex >= 0 ? images[cell.imageIndex] : null,
+    focus: cell.imageIndex >= 0 ? imageFocus[cell.imageIndex] ?? null : null,
+    headline: cell.headline,
+    subhead: cell.subhead,
+    cta: cell.cta,
+  });
+
+  // Approved cells are numbered 1…n as "variants" so the manifest maps each
+  // folder back to its copy.
+  const exportMatrixCells = (
+    cells: MatrixCell[],
+    onProgress: (progress: BatchExportProgress) => void
+  ) => {
+    const jobs: BatchExportJob[] = cells.flatMap((cell, i) =>
+      activeSizes.map((spec) => ({
+        spec,
+        variant: i + 1,
+        settings: cellSettings(cell, spec.id),
+      }))
+    );
+    return runBatchExport(
+      jobs,
+      (job) =>
+        renderOffscreen(
+          <AdCanvas size={job.spec} {...job.settings} />,
+          (node) =>
+            exportImage(node, job.spec, { ...imageExport, format: "png" })
+        ),
+      {
+        folderLayout: "by-variant",
+        fileNamePattern: "{label}-{size}-combo{variant}",
+        manifestFormat: "both",
+      },
+      onProgress
+    );
+  };
+
+  const renderHtml5Bundle = (spec: CatalogSize, options: Html5Options) =>
+    renderOffscreen(
+      <AdCanvas size={spec} {...settingsFor(spec.id)} />,
+      (node) => buildHtml5Bundle(node, spec, options, kitFontFaceCss(activeKit))
+    );
+
+  return (
+    <div
+      className="min-h-screen bg-slate-50 text-slate-800 font-sans pb-20"
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
       {/* Header */}
       <div className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between sticky top-0 z-50 shadow-sm">
         <div className="flex items-center gap-3">
@@ -436,6 +2181,50 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-3 text-xs">
+          <button
+            onClick={handleSaveProject}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 active:scale-95"
+            title="Save images, copy and settings to a project file"
+          >
+            <FileDown size={12} /> Save project
+          </button>
+          <label
+            className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 cursor-pointer"
+            title="Open a project file (or drop one anywhere on the page)"
+          >
+            <FolderOpen size={12} /> Open project
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleOpenProject}
+              className="hidden"
+            />
+          </label>
+          {!review && (
+            <span className="flex items-center gap-1 rounded border border-slate-200">
+              <button
+                onClick={handleCopyLink}
+                className="flex items-center gap-1 px-2 py-1 text-slate-600 hover:bg-slate-50 active:scale-95"
+                title="Copy a read-only review link with this state"
+              >
+                <Link2 size={12} /> Copy link
+              </button>
+              <label
+                className="flex items-center gap-1 pr-2 text-[10px] text-slate-500"
+                title={`Embed images up to ${
+                  EMBED_MAX_BYTES / 1024
+                } KB in the link`}
+              >
+                <input
+                  type="checkbox"
+                  checked={embedImages}
+                  onChange={(e) => setEmbedImages(e.target.checked)}
+                  className="accent-blue-600"
+                />
+                Embed small images
+              </label>
+            </span>
+          )}
           <span className="flex items-center gap-1 text-slate-500">
             <Eye size={12} /> Preview only
           </span>
@@ -446,85 +2235,145 @@ const App: React.FC = () => {
       </div>
 
       <div className="max-w-[1600px] mx-auto p-4 md:p-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
-        {/* Sidebar */}
-        <div className="lg:col-span-3 space-y-4 h-fit lg:sticky lg:top-24">
+        {/* Sidebar (hidden, not unmounted, in review mode) */}
+        <div
+          className={`${
+            review ? "hidden" : ""
+          } lg:col-span-3 space-y-4 h-fit lg:sticky lg:top-24`}
+        >
+          {/* Mode */}
+          <div className="bg-white p-1 rounded-lg shadow-sm border border-slate-200 grid grid-cols-2 gap-1">
+            {(
+              [
+                ["static", "Static banner"],
+                ["responsive", "Responsive display"],
+              ] as [AdMode, string][]
+            ).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setAdMode(mode)}
+                className={`px-2 py-1.5 rounded text-xs font-semibold ${
+                  adMode === mode
+                    ? "bg-slate-900 text-white"
+                    : "text-slate-500 hover:bg-slate-50"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           {/* Assets */}
           <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
             <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
               <Upload size={14} /> Creative assets
             </h2>
 
-            {/* Upload */}
-            <div className="mb-4">
-              <label className="block text-xs font-semibold text-slate-600 mb-2">
-                Upload final banner (PNG/JPG)
-              </label>
-              <div className="relative">
-                <input
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageUpload}
-                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
-                />
-                <div
-                  className={`border rounded-md p-3 text-center transition-colors ${
-                    images.length
-                      ? "border-green-400 bg-green-50"
-                      : "border-slate-200 hover:bg-slate-50"
-                  }`}
-                >
-                  {images.length ? (
-                    <span className="text-green-700 text-xs font-medium">
-                      {images.length} creative
-                      {images.length > 1 ? "s" : ""} uploaded
-                    </span>
-                  ) : (
-                    <span className="text-slate-400 text-xs">
-                      Click to upload creative
-                    </span>
-                  )}
-                </div>
-              </div>
-            </div>
-
-            {/* Thumbnails */}
-            {images.length > 0 && (
-              <div className="mb-4">
-                <div className="flex items-center justify-between mb-1">
-                  <span className="text-[10px] font-bold text-slate-500 uppercase">
-                    Variants
-                  </span>
-                  <span className="text-[10px] text-slate-400">
-                    Click to switch
-                  </span>
-                </div>
-                <div className="flex gap-2 overflow-x-auto pb-1">
-                  {images.map((img, idx) => (
-                    <button
-                      key={idx}
-                      onClick={() => setActiveImageIndex(idx)}
-                      className={`border rounded-md p-1 shrink-0 ${
-                        activeImageIndex === idx
-                          ? "border-blue-500 ring-1 ring-blue-300"
-                          : "border-slate-200"
+            {adMode === "static" && (
+              <>
+                {/* Upload */}
+                <div className="mb-4">
+                  <label className="block text-xs font-semibold text-slate-600 mb-2">
+                    Upload final banner (PNG/JPG/GIF)
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={handleImageUpload}
+                      className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                    />
+                    <div
+                      className={`border rounded-md p-3 text-center transition-colors ${
+                        images.length
+                          ? "border-green-400 bg-green-50"
+                          : "border-slate-200 hover:bg-slate-50"
                       }`}
                     >
-                      <img
-                        src={img}
-                        alt={`variant-${idx + 1}`}
-                        className="w-12 h-12 object-contain bg-slate-50"
-                      />
-                    </button>
-                  ))}
+                      {images.length ? (
+                        <span className="text-green-700 text-xs font-medium">
+                          {images.length} creative
+                          {images.length > 1 ? "s" : ""} uploaded
+                        </span>
+                      ) : (
+                        <span className="text-slate-400 text-xs">
+                          Click to upload creative
+                        </span>
+                      )}
+                    </div>
+                  </div>
                 </div>
-              </div>
+
+                {/* Thumbnails */}
+                {images.length > 0 && (
+                  <div className="mb-4">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-[10px] font-bold text-slate-500 uppercase">
+                        Variants
+                      </span>
+                      <span className="text-[10px] text-slate-400">
+                        Click to switch
+                      </span>
+                    </div>
+                    <div className="flex gap-2 overflow-x-auto pb-1">
+                      {images.map((img, idx) => (
+                        <button
+                          key={idx}
+                          onClick={() => setActiveImageIndex(idx)}
+                          className={`relative border rounded-md p-1 shrink-0 ${
+                            activeImageIndex === idx
+                              ? "border-blue-500 ring-1 ring-blue-300"
+                              : "border-slate-200"
+                          }`}
+                        >
+                          <img
+                            src={img}
+                            alt={`variant-${idx + 1}`}
+                            className="w-12 h-12 object-contain bg-slate-50"
+                          />
+                          {creativeReports[idx] && (
+                            <span className="absolute top-0.5 right-0.5 bg-white rounded-full">
+                              <CheckStatusIcon
+                                status={creativeReports[idx].status}
+                                title={creativeReports[idx].checks
+                                  .map((c) => c.message)
+                                  .join("\n")}
+                              />
+                            </span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Focal point */}
+                {activeImage && (
+                  <FocalPointEditor
+                    image={activeImage}
+                    value={imageFocus[activeImageIndex] ?? null}
+                    onChange={(focus) => {
+                      // A new focal point hands framing back to auto-crop.
+                      if (focus) setManualCrop(false);
+                      setImageFocus((prev) => {
+                        const next = { ...prev };
+                        if (focus) next[activeImageIndex] = focus;
+                        else delete next[activeImageIndex];
+                        return next;
+                      });
+                    }}
+                    showDebug={showCropDebug}
+                    onShowDebugChange={setShowCropDebug}
+                  />
+                )}
+              </>
             )}
 
             {/* Scale */}
             <div className="mb-4">
               <div className="flex justify-between mb-1">
                 <label className="text-xs font-semibold text-slate-600 flex items-center gap-1">
-                  <ZoomIn size={12} /> Image scale
+                  <ZoomIn size={12} /> Image scale (shared)
                 </label>
                 <span className="text-[10px] text-slate-400">
                   {Math.round(imageScale * 100)}%
@@ -532,13 +2381,98 @@ const App: React.FC = () => {
               </div>
               <input
                 type="range"
-                min="0.5"
-                max="1.5"
-                step="0.05"
+                min={IMAGE_SCALE_RANGE.min}
+                max={IMAGE_SCALE_RANGE.max}
+                step={IMAGE_SCALE_RANGE.step}
                 value={imageScale}
-                onChange={(e) => setImageScale(parseFloat(e.target.value))}
+                onChange={(e) => {
+                  setImageScale(parseFloat(e.target.value));
+                  setManualCrop(true);
+                }}
                 className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
               />
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {(["x", "y"] as const).map((axis) => (
+                  <label
+                    key={axis}
+                    className="flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase"
+                  >
+                    {axis}
+                    <input
+                      type="number"
+                      step={1}
+                      value={Math.round(imageOffset[axis])}
+                      onChange={(e) => {
+                        setImageOffset((prev) => ({
+                          ...prev,
+                          [axis]: parseFloat(e.target.value) || 0,
+                        }));
+                        setManualCrop(true);
+                      }}
+                      className="w-full min-w-0 px-2 py-1 bg-white border border-slate-200 rounded text-xs font-mono font-normal outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    px
+                  </label>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-400 mt-1">
+                Focus a preview and use the arrow keys to nudge (Shift ×10).
+                Hold Alt while dragging to skip snapping.
+              </p>
+              {autoCropApplies && (
+                <div className="mt-2 text-[10px] bg-amber-50 border border-amber-200 rounded p-2 text-amber-800">
+                  {manualCrop ? (
+                    <>
+                      Manual crop: the values above replace the auto-crop.{" "}
+                      <button
+                        onClick={() => setManualCrop(false)}
+                        className="underline hover:text-amber-900"
+                      >
+                        Back to auto-crop
+                      </button>
+                    </>
+                  ) : (
+                    "Auto-crop is framing the image, so the values above are ignored. Moving them switches to manual crop."
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Drag scope */}
+            <div className="mb-4">
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+                Dragging a preview moves
+              </label>
+              <div className="grid grid-cols-2 gap-1">
+                {(
+                  [
+                    ["size", "That size only"],
+                    ["shared", "All sizes"],
+                  ] as ["size" | "shared", string][]
+                ).map(([scope, label]) => (
+                  <button
+                    key={scope}
+                    onClick={() => setDragScope(scope)}
+                    className={`px-2 py-1 rounded text-[10px] border ${
+                      dragScope === scope
+                        ? "border-blue-500 bg-blue-50 text-blue-700"
+                        : "border-slate-200 text-slate-600 hover:bg-slate-50"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {Object.keys(sizeOverrides).length > 0 && (
+                <button
+                  onClick={() => setSizeOverrides({})}
+                  className="mt-2 flex items-center gap-1 text-[10px] text-slate-500 hover:text-blue-600"
+                >
+                  <RotateCcw size={10} /> Reset{" "}
+                  {Object.keys(sizeOverrides).length} size override
+                  {Object.keys(sizeOverrides).length > 1 ? "s" : ""}
+                </button>
+              )}
             </div>
 
             {/* Halo checker */}
@@ -568,51 +2502,111 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {/* Responsive assets */}
+          {adMode === "responsive" && (
+            <RdaAssetsPanel
+              value={rdaAssets}
+              onChange={setRdaAssets}
+              samplesPerSize={rdaSamples}
+              onSamplesPerSizeChange={setRdaSamples}
+            />
+          )}
+
+          {/* Upload readiness */}
+          {adMode === "static" && images.length > 0 && (
+            <CreativeValidationPanel
+              reports={creativeReports}
+              activeIndex={activeImageIndex}
+              onSelect={setActiveImageIndex}
+            />
+          )}
+
+          {/* Layout */}
+          <LayoutTemplatePanel
+            value={layoutTemplate}
+            onChange={setLayoutTemplate}
+            sizeOverrideCount={Object.keys(sizeTemplates).length}
+            onResetSizeOverrides={() => setSizeTemplates({})}
+          />
+
+          {/* Brand kit */}
+          <BrandKitPanel
+            kits={brandKits}
+            activeKit={activeKit}
+            onSelect={selectKit}
+            onCreate={handleCreateKit}
+            onChange={storeKit}
+            onDelete={handleDeleteKit}
+            onImport={handleImportKit}
+            onExport={handleExportKit}
+          />
+
+          {/* Locales */}
+          <LocalePanel
+            locales={locales}
+            active={activeLocale}
+            onSwitch={switchLocale}
+            onAdd={addLocale}
+            onRemove={removeLocale}
+          />
+
           {/* Copy */}
           <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
             <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
               <Type size={14} /> Copy compliance
             </h2>
             <div className="space-y-4">
-              {/* Headline */}
-              <div>
-                <div className="flex justify-between mb-1">
-                  <label className="text-[10px] font-bold text-slate-500 uppercase">
-                    Headline
-                  </label>
-                  <CharCounter current={headline.length} max={30} />
-                </div>
-                <input
-                  type="text"
-                  value={headline}
-                  onChange={(e) => setHeadline(e.target.value)}
-                  className={`w-full px-3 py-2 bg-white border rounded text-sm outline-none focus:ring-1 ${
-                    headline.length > 30
-                      ? "border-red-300 focus:ring-red-200 bg-red-50"
-                      : "border-slate-200 focus:ring-blue-500"
-                  }`}
-                />
-              </div>
+              {adMode === "static" && (
+                <>
+                  {/* Headline */}
+                  <div>
+                    <div className="flex justify-between mb-1">
+                      <label className="text-[10px] font-bold text-slate-500 uppercase">
+                        Headline
+                      </label>
+                      <CharCounter
+                        current={googleLength(headline)}
+                        max={COPY_LIMITS.headline}
+                      />
+                    </div>
+                    <input
+                      type="text"
+                      dir={textDirection(activeLocale)}
+                      value={headline}
+                      onChange={(e) => setHeadline(e.target.value)}
+                      className={`w-full px-3 py-2 bg-white border rounded text-sm outline-none focus:ring-1 ${
+                        isOverLimit(headline, COPY_LIMITS.headline)
+                          ? "border-red-300 focus:ring-red-200 bg-red-50"
+                          : "border-slate-200 focus:ring-blue-500"
+                      }`}
+                    />
+                  </div>
 
-              {/* Subhead */}
-              <div>
-                <div className="flex justify-between mb-1">
-                  <label className="text-[10px] font-bold text-slate-500 uppercase">
-                    Subhead
-                  </label>
-                  <CharCounter current={subhead.length} max={90} />
-                </div>
-                <input
-                  type="text"
-                  value={subhead}
-                  onChange={(e) => setSubhead(e.target.value)}
-                  className={`w-full px-3 py-2 bg-white border rounded text-sm outline-none focus:ring-1 ${
-                    subhead.length > 90
-                      ? "border-red-300 focus:ring-red-200 bg-red-50"
-                      : "border-slate-200 focus:ring-blue-500"
-                  }`}
-                />
-              </div>
+                  {/* Subhead */}
+                  <div>
+                    <div className="flex justify-between mb-1">
+                      <label className="text-[10px] font-bold text-slate-500 uppercase">
+                        Subhead
+                      </label>
+                      <CharCounter
+                        current={googleLength(subhead)}
+                        max={COPY_LIMITS.subhead}
+                      />
+                    </div>
+                    <input
+                      type="text"
+                      dir={textDirection(activeLocale)}
+                      value={subhead}
+                      onChange={(e) => setSubhead(e.target.value)}
+                      className={`w-full px-3 py-2 bg-white border rounded text-sm outline-none focus:ring-1 ${
+                        isOverLimit(subhead, COPY_LIMITS.subhead)
+                          ? "border-red-300 focus:ring-red-200 bg-red-50"
+                          : "border-slate-200 focus:ring-blue-500"
+                      }`}
+                    />
+                  </div>
+                </>
+              )}
 
               {/* CTA */}
               <div>
@@ -620,14 +2614,18 @@ const App: React.FC = () => {
                   <label className="text-[10px] font-bold text-slate-500 uppercase">
                     Button label
                   </label>
-                  <CharCounter current={cta.length} max={15} />
+                  <CharCounter
+                    current={googleLength(cta)}
+                    max={COPY_LIMITS.cta}
+                  />
                 </div>
                 <input
                   type="text"
+                  dir={textDirection(activeLocale)}
                   value={cta}
                   onChange={(e) => setCta(e.target.value)}
                   className={`w-full px-3 py-2 bg-white border rounded text-sm outline-none focus:ring-1 ${
-                    cta.length > 15
+                    isOverLimit(cta, COPY_LIMITS.cta)
                       ? "border-red-300 focus:ring-red-200 bg-red-50"
                       : "border-slate-200 focus:ring-blue-500"
                   }`}
@@ -640,16 +2638,9 @@ const App: React.FC = () => {
                   Button color
                 </label>
                 <div className="flex gap-2 flex-wrap">
-                  {[
-                    "#EF4444",
-                    "#EA4335",
-                    "#FBBC04",
-                    "#34A853",
-                    "#4285F4",
-                    "#111827",
-                  ].map((color) => (
+                  {swatches.map((color, i) => (
                     <button
-                      key={color}
+                      key={`${color}-${i}`}
                       onClick={() => setPrimaryColor(color)}
                       className={`w-6 h-6 rounded-full border ${
                         primaryColor === color
@@ -667,136 +2658,262 @@ const App: React.FC = () => {
                   />
                 </div>
               </div>
+
+              <ContrastChecker
+                primaryColor={primaryColor}
+                ctaTextColor={ctaTextColor}
+                darkMode={darkMode}
+                imageColor={
+                  adMode === "static" && backgroundLayouts.length
+                    ? imageColor
+                    : null
+                }
+                scrim={backgroundLayouts.every((layout) => layout.scrim)}
+                autoCtaText={autoCtaText}
+                onAutoCtaTextChange={setAutoCtaText}
+                onPrimaryColorChange={setPrimaryColor}
+                onDarkModeChange={setDarkMode}
+              />
             </div>
           </div>
 
+          {/* Editorial policy */}
+          <PolicyLintPanel
+            issues={policyIssues}
+            settings={policySettings}
+            onSettingsChange={setPolicySettings}
+            onExportReport={exportPolicyReport}
+          />
+
+          {/* Text fit */}
+          <TextFitPanel
+            value={textFit}
+            onChange={setTextFit}
+            issues={textOverflow}
+          />
+
+          {/* Sizes */}
+          <SizeCatalogPanel value={sizeCatalog} onChange={setSizeCatalog} />
+
+          <ImageExportPanel value={imageExport} onChange={setImageExport} />
+
+          {/* Export all */}
+          <ExportAllPanel
+            ref={exportAllRef}
+            jobs={exportJobs}
+            render={renderExportJob}
+            extension={FORMAT_EXTENSIONS[imageExport.format]}
+            localeJobs={localeExportJobs}
+            localeCount={locales.length}
+          />
+
+          <FeedImportPanel
+            sizeCount={activeSizes.length}
+            buildJobs={feedJobs}
+            render={renderExportJob}
+            extension={FORMAT_EXTENSIONS[imageExport.format]}
+          />
+
+          {/* HTML5 bundles */}
+          <Html5ExportPanel sizes={activeSizes} build={renderHtml5Bundle} />
+
+          {/* Ads Editor bulk upload */}
+          <AdsEditorExportPanel
+            mode={adMode}
+            value={adsEditorTarget}
+            onChange={setAdsEditorTarget}
+            copyErrors={
+              adMode === "responsive"
+                ? validateRdaAssets(rdaAssets)
+                : validateStaticCopy(currentCopy)
+            }
+            fileCount={
+              adMode === "responsive" ? rdaFileCount : exportJobs.length
+            }
+            build={buildAdsEditorPackage}
+          />
+
           {/* Presets */}
-          <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
-            <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
-              <List size={14} /> Layout presets
-            </h2>
-            <div className="flex gap-2 mb-3">
-              <button
-                onClick={handleSavePreset}
-                className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 active:scale-95"
-              >
-                <Save size={12} /> Save current
-              </button>
-            </div>
-            {presets.length === 0 ? (
-              <p className="text-[11px] text-slate-400">
-                Save common layouts here per brand or campaign.
-              </p>
-            ) : (
-              <div className="space-y-1 max-h-40 overflow-y-auto">
-                {presets.map((p) => (
-                  <div
-                    key={p.id}
-                    className="flex items-center justify-between text-[11px] bg-slate-50 border border-slate-100 rounded px-2 py-1"
-                  >
-                    <button
-                      onClick={() => applyPreset(p)}
-                      className="text-left flex-1 hover:text-blue-600"
-                    >
-                      {p.name}
-                    </button>
-                    <button
-                      onClick={() => deletePreset(p.id)}
-                      className="text-slate-400 hover:text-red-500 ml-2"
-                    >
-                      ✕
-                    </button>
-                  </div>
-                ))}
-              </div>
-            )}
-          </div>
+          <PresetLibraryPanel
+            presets={presets}
+            skipped={skippedPresets}
+            onSave={handleSavePreset}
+            onApply={applyPreset}
+            onOverwrite={overwritePreset}
+            onUpdate={updatePreset}
+            onDuplicate={duplicatePreset}
+            onDelete={deletePreset}
+            onImport={importPresets}
+            onExport={exportPresets}
+          />
+
+          {/* QA review */}
+          <QaReviewPanel
+            sizes={activeSizes}
+            reviews={sizeReviews}
+            commentMode={commentMode}
+            onCommentModeChange={setCommentMode}
+            reviewer={reviewer}
+            onReviewerChange={setReviewer}
+            buildReport={buildQaReport}
+          />
+
+          {/* History */}
+          <HistoryPanel
+            history={history}
+            onUndo={undo}
+            onRedo={redo}
+            onJump={jumpToStep}
+          />
         </div>
 
         {/* Main preview */}
-        <div className="lg:col-span-9 space-y-8">
-          {/* High impact */}
-          <section>
-            <h3 className="text-xs font-bold text-slate-500 uppercase mb-4 flex items-center gap-2 border-b border-slate-200 pb-2">
-              <Star className="text-amber-500" size={16} /> Billboard high
-              impact
-            </h3>
-            <AdPreviewCard
-              label="Billboard"
-              size={{ w: 970, h: 250 }}
-              settings={sharedSettings}
-              highlightDrag
-              onImageOffsetChange={setImageOffset}
+        <div
+          className={`${review ? "lg:col-span-12" : "lg:col-span-9"} space-y-8`}
+        >
+          {review && (
+            <ReviewBanner
+              images={review.images}
+              loaded={review.images.map((_, idx) => Boolean(images[idx]))}
+              preset={review.preset}
+              onLoadFiles={handleReviewFiles}
+              onExit={exitReview}
             />
-          </section>
-
-          {/* Rectangles */}
-          <section>
-            <h3 className="text-xs font-bold text-slate-500 uppercase mb-4 flex items-center gap-2 border-b border-slate-200 pb-2">
-              <Box className="text-blue-500" size={16} /> Rectangles high volume
-            </h3>
-            <div className="flex flex-wrap gap-6">
-              {[
-                { w: 300, h: 250, label: "Medium rectangle" },
-                { w: 336, h: 280, label: "Large rectangle" },
-                { w: 250, h: 250, label: "Square" },
-              ].map((spec, i) => (
-                <AdPreviewCard
-                  key={i}
-                  label={spec.label}
-                  size={{ w: spec.w, h: spec.h }}
-                  settings={sharedSettings}
-                />
-              ))}
-            </div>
-          </section>
-
-          {/* Leaderboards */}
-          <section>
-            <h3 className="text-xs font-bold text-slate-500 uppercase mb-4 flex items-center gap-2 border-b border-slate-200 pb-2">
-              <Maximize className="text-green-500" size={16} /> Leaderboards
-            </h3>
-            <div className="space-y-6">
-              <AdPreviewCard
-                label="Leaderboard"
-                size={{ w: 728, h: 90 }}
-                settings={sharedSettings}
-              />
-              <div className="grid md:grid-cols-2 gap-6">
-                <AdPreviewCard
-                  label="Mobile leaderboard"
-                  size={{ w: 320, h: 50 }}
-                  settings={sharedSettings}
-                />
-                <AdPreviewCard
-                  label="Large mobile"
-                  size={{ w: 320, h: 100 }}
-                  settings={sharedSettings}
-                />
-              </div>
-            </div>
-          </section>
-
-          {/* Skyscrapers */}
-          <section>
-            <h3 className="text-xs font-bold text-slate-500 uppercase mb-4 flex items-center gap-2 border-b border-slate-200 pb-2">
-              <Layout className="text-purple-500" size={16} /> Skyscrapers
-            </h3>
-            <div className="flex flex-wrap gap-6 items-start">
-              {[
-                { w: 300, h: 600, label: "Half page" },
-                { w: 160, h: 600, label: "Wide skyscraper" },
-                { w: 240, h: 400, label: "Vertical rectangle" },
-              ].map((spec, i) => (
-                <AdPreviewCard
-                  key={i}
-                  label={spec.label}
-                  size={{ w: spec.w, h: spec.h }}
-                  settings={sharedSettings}
-                />
+          )}
+
+          {adMode === "static" && !review && (
+            <div className="inline-flex bg-white p-1 rounded-lg shadow-sm border border-slate-200 gap-1">
+              {(
+                [
+                  ["sizes", "All sizes"],
+                  ["matrix", "Variant matrix"],
+                  ["context", "In context"],
+                ] as ["sizes" | "matrix" | "context", string][]
+              ).map(([view, label]) => (
+                <button
+                  key={view}
+                  onClick={() => setMainView(view)}
+                  className={`px-3 py-1 rounded text-xs font-semibold ${
+                    mainView === view
+                      ? "bg-slate-900 text-white"
+                      : "text-slate-500 hover:bg-slate-50"
+                  }`}
+                >
+                  {label}
+                </button>
               ))}
             </div>
-          </section>
+          )}
+
+          {(adMode === "responsive" || mainView === "sizes") && (
+            <OverlayToolbar value={overlays} onChange={setOverlays} />
+          )}
+
+          {adMode === "static" && mainView === "matrix" ? (
+            <VariantMatrixView
+              copy={matrixCopy}
+              onCopyChange={setMatrixCopy}
+              cells={matrixCells}
+              sizes={activeSizes}
+              sizeId={matrixSizeId}
+              onSizeChange={setMatrixSizeId}
+              statuses={cellStatus}
+              onStatusChange={(key, status) =>
+                setCellStatus((prev) => {
+                  const next = { ...prev };
+                  if (status) next[key] = status;
+                  else delete next[key];
+                  return next;
+                })
+              }
+              renderPreview={(cell, spec) => (
+                <AdCanvas size={spec} {...cellSettings(cell, spec.id)} />
+              )}
+              onExport={exportMatrixCells}
+            />
+          ) : adMode === "static" && mainView === "context" ? (
+            <PlacementContextView
+              sizes={activeSizes}
+              renderAd={(spec) => (
+                <AdCanvas size={spec} {...settingsFor(spec.id)} />
+              )}
+            />
+          ) : (
+            <>
+              {SIZE_GROUPS.map((group) => {
+                const specs = activeSizes.filter((s) => s.group === group.id);
+                if (!specs.length) return null;
+                const section = SECTION_STYLES[group.id];
+                return (
+                  <section key={group.id}>
+                    <h3 className="text-xs font-bold text-slate-500 uppercase mb-4 flex items-center gap-2 border-b border-slate-200 pb-2">
+                      {section.icon} {section.title}
+                    </h3>
+                    <div className={section.layout}>
+                      {specs.map((spec) =>
+                        adMode === "responsive" ? (
+                          sampleCombinations(rdaAssets, spec, rdaSamples).map(
+                            (combo, i) => (
+                              <AdPreviewCard
+                                key={`${spec.id}-${i}`}
+                                label={spec.label}
+                                size={{ w: spec.w, h: spec.h }}
+                                settings={{
+                                  ...settingsFor(spec.id),
+                                  image: combo.image,
+                                  focus: null,
+                                  headline: combo.headline,
+                                  subhead: combo.description,
+                                  logo:
+                                    combo.logo ?? activeKit?.logoSquare ?? null,
+                                  // The sampled logo wins over the kit's wide one.
+                                  ...(combo.logo && { logoWide: null }),
+                                  businessName: rdaAssets.businessName,
+                                }}
+                                exportSettings={imageExport}
+                                overlays={overlays}
+                                caption={combo.label}
+                                onTextOverflow={reportTextOverflow(
+                                  `${spec.id}-${i}`,
+                                  {
+                                    label: spec.label,
+                                    size: spec,
+                                    caption: combo.label,
+                                  }
+                                )}
+                                {...(!review && overrideHandlers(spec.id))}
+                              />
+                            )
+                          )
+                        ) : (
+                          <AdPreviewCard
+                            key={spec.id}
+                            label={spec.label}
+                            size={{ w: spec.w, h: spec.h }}
+                            settings={settingsFor(spec.id)}
+                            exportSettings={imageExport}
+                            overlays={overlays}
+                            onTextOverflow={reportTextOverflow(spec.id, {
+                              label: spec.label,
+                              size: spec,
+                            })}
+                            {...(!review && overrideHandlers(spec.id))}
+                            {...(!review && reviewHandlers(spec.id))}
+                          />
+                        )
+                      )}
+                    </div>
+                  </section>
+                );
+              })}
+
+              {activeSizes.length === 0 && (
+                <p className="text-xs text-slate-400">
+                  No sizes selected. Turn some on under Ad sizes.
+                </p>
+              )}
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import { CheckCircle2, Sheet, XCircle } from "lucide-react";
+import { validateTarget } from "../lib/adsEditorExport";
+import type { AdsEditorTarget } from "../lib/adsEditorExport";
+import type { BatchExportProgress } from "../lib/batchExport";
+import { downloadBlob } from "../lib/download";
+import type { AdMode } from "../lib/responsiveAds";
+
+// ---------- Ads Editor Export Panel ----------
+
+interface AdsEditorExportPanelProps {
+  mode: AdMode;
+  value: AdsEditorTarget;
+  onChange: (value: AdsEditorTarget) => void;
+  /** Copy problems that would make Ads Editor reject the rows. */
+  copyErrors: string[];
+  /** Image files the package will contain. */
+  fileCount: number;
+  build: (onProgress: (progress: BatchExportProgress) => void) => Promise<Blob>;
+}
+
+const FIELDS: { key: keyof AdsEditorTarget; label: string; type: string }[] = [
+  { key: "campaign", label: "Campaign", type: "text" },
+  { key: "adGroup", label: "Ad group", type: "text" },
+  { key: "finalUrl", label: "Final URL", type: "url" },
+];
+
+const AdsEditorExportPanel: React.FC<AdsEditorExportPanelProps> = ({
+  mode,
+  value,
+  onChange,
+  copyErrors,
+  fileCount,
+  build,
+}) => {
+  const [progress, setProgress] = useState<BatchExportProgress | null>(null);
+  const busy = progress !== null;
+  const errors = [...validateTarget(value), ...copyErrors];
+
+  const handleExport = async () => {
+    if (errors.length) return;
+    setProgress({ done: 0, total: fileCount, current: "" });
+    try {
+      downloadBlob(await build(setProgress), `ads-editor-${Date.now()}.zip`);
+    } catch (err) {
+      console.error("Ads Editor export failed", err);
+      alert(
+        `Could not build the Ads Editor package. ${
+          err instanceof Error ? err.message : "Check console for details."
+        }`
+      );
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Sheet size={14} /> Google Ads Editor
+      </h2>
+
+      <div className="space-y-3">
+        {FIELDS.map((f) => (
+          <div key={f.key}>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+              {f.label}
+            </label>
+            <input
+              type={f.type}
+              value={value[f.key]}
+              disabled={busy}
+              onChange={(e) => onChange({ ...value, [f.key]: e.target.value })}
+              className={`w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500 ${
+                f.type === "url" ? "font-mono" : ""
+              }`}
+            />
+          </div>
+        ))}
+
+        <p className="text-[10px] text-slate-400">
+          {mode === "responsive"
+            ? "One responsive display ad row with its assets."
+            : "One image ad row per rendered size and variant."}{" "}
+          Import the CSV from the unzipped folder so the image names resolve.
+        </p>
+
+        {errors.length > 0 ? (
+          <ul className="space-y-0.5">
+            {errors.map((e) => (
+              <li
+                key={e}
+                className="flex items-center gap-1 text-[10px] text-red-600"
+              >
+                <XCircle size={10} className="shrink-0" /> {e}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="flex items-center gap-1 text-[10px] text-green-700">
+            <CheckCircle2 size={10} /> Ready for bulk upload
+          </p>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={busy || errors.length > 0 || !fileCount}
+          className="w-full flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 active:scale-95 disabled:opacity-50"
+        >
+          <Sheet size={12} />
+          {busy ? "Exporting…" : `Export CSV + ${fileCount} images`}
+        </button>
+
+        {progress && progress.total > 0 && (
+          <p className="text-[10px] text-slate-400">
+            {progress.done}/{progress.total} · {progress.current}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdsEditorExportPanel;
@@ -0,0 +1,271 @@
+import React, { useState } from "react";
+import { Download, Palette, Plus, Trash2, Upload } from "lucide-react";
+import { FONT_ACCEPT, fontDataUrl } from "../lib/brandKits";
+import type { BrandKit, FontRole } from "../lib/brandKits";
+import { readFileAsDataUrl } from "../lib/files";
+
+// ---------- Brand Kit Panel ----------
+
+interface BrandKitPanelProps {
+  kits: BrandKit[];
+  activeKit: BrandKit | null;
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+  onChange: (kit: BrandKit) => void;
+  onDelete: (kit: BrandKit) => void;
+  onImport: (file: File) => void;
+  onExport: (kit: BrandKit) => void;
+}
+
+const LOGO_SLOTS: { key: "logoSquare" | "logoWide"; label: string }[] = [
+  { key: "logoSquare", label: "Square logo" },
+  { key: "logoWide", label: "Wide logo" },
+];
+
+const FONT_SLOTS: { role: FontRole; label: string }[] = [
+  { role: "headline", label: "Headline font" },
+  { role: "body", label: "Body font" },
+];
+
+const fieldLabel = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+const BrandKitPanel: React.FC<BrandKitPanelProps> = ({
+  kits,
+  activeKit,
+  onSelect,
+  onCreate,
+  onChange,
+  onDelete,
+  onImport,
+  onExport,
+}) => {
+  const [newColor, setNewColor] = useState("#4285F4");
+
+  const update = (patch: Partial<BrandKit>) => {
+    if (activeKit) onChange({ ...activeKit, ...patch, updatedAt: Date.now() });
+  };
+
+  const readUpload = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+    apply: (dataUrl: string, fileName: string) => void
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      apply(await readFileAsDataUrl(file), file.name);
+    } catch (err) {
+      console.error("Could not read brand asset", err);
+      alert(`Could not read ${file.name}.`);
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Palette size={14} /> Brand kit
+      </h2>
+
+      <div className="flex gap-1 mb-3">
+        <select
+          value={activeKit?.id ?? ""}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className="flex-1 min-w-0 px-2 py-1.5 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+        >
+          <option value="">No kit</option>
+          {kits.map((kit) => (
+            <option key={kit.id} value={kit.id}>
+              {kit.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={onCreate}
+          className="px-2 py-1 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 active:scale-95"
+          title="New kit"
+        >
+          <Plus size={12} />
+        </button>
+        <label
+          className="flex items-center px-2 py-1 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50 cursor-pointer"
+          title="Import kit"
+        >
+          <Upload size={12} />
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {activeKit && (
+        <div className="space-y-3">
+          <div>
+            <label className={fieldLabel}>Name</label>
+            <input
+              type="text"
+              value={activeKit.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className="w-full px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {LOGO_SLOTS.map(({ key, label }) => (
+              <div key={key}>
+                <label className={fieldLabel}>{label}</label>
+                <div className="relative h-12 border border-dashed border-slate-300 rounded flex items-center justify-center bg-slate-50">
+                  {activeKit[key] ? (
+                    <>
+                      <img
+                        src={activeKit[key] ?? undefined}
+                        alt={label}
+                        className="max-h-10 max-w-full object-contain"
+                      />
+                      <button
+                        onClick={() => update({ [key]: null })}
+                        className="absolute top-0.5 right-1 text-[10px] text-slate-400 hover:text-red-500 z-20"
+                      >
+                        ✕
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-[10px] text-slate-400">Upload</span>
+                  )}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) =>
+                      readUpload(e, (dataUrl) => update({ [key]: dataUrl }))
+                    }
+                    className="absolute inset-0 opacity-0 cursor-pointer z-10"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className={fieldLabel}>Palette</label>
+            <div className="flex gap-1.5 flex-wrap items-center">
+              {activeKit.palette.map((color, i) => (
+                <button
+                  key={`${color}-${i}`}
+                  onClick={() =>
+                    update({
+                      palette: activeKit.palette.filter((_, j) => j !== i),
+                    })
+                  }
+                  className="w-5 h-5 rounded-full border border-slate-200 hover:ring-2 hover:ring-red-300"
+                  style={{ backgroundColor: color }}
+                  title={`${color} (click to remove)`}
+                />
+              ))}
+              <input
+                type="color"
+                value={newColor}
+                onChange={(e) => setNewColor(e.target.value)}
+                className="w-5 h-5 rounded-full overflow-hidden cursor-pointer border-0 p-0"
+              />
+              <button
+                onClick={() =>
+                  update({ palette: [...activeKit.palette, newColor] })
+                }
+                className="text-[10px] text-blue-600 hover:underline"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          {FONT_SLOTS.map(({ role, label }) => {
+            const key = role === "headline" ? "headlineFont" : "bodyFont";
+            const font = activeKit[key];
+            return (
+              <div key={role}>
+                <label className={fieldLabel}>{label}</label>
+                <div className="flex items-center gap-2 text-[11px] text-slate-600">
+                  <span className="flex-1 truncate font-mono">
+                    {font ? font.fileName : "System sans"}
+                  </span>
+                  {font && (
+                    <button
+                      onClick={() => update({ [key]: null })}
+                      className="text-slate-400 hover:text-red-500"
+                    >
+                      ✕
+                    </button>
+                  )}
+                  <label className="px-2 py-0.5 rounded border border-slate-300 text-[10px] hover:bg-slate-50 cursor-pointer">
+                    WOFF
+                    <input
+                      type="file"
+                      accept={FONT_ACCEPT}
+                      onChange={(e) =>
+                        readUpload(e, (dataUrl, fileName) =>
+                          update({
+                            [key]: {
+                              dataUrl: fontDataUrl(dataUrl, fileName),
+                              fileName,
+                            },
+                          })
+                        )
+                      }
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+
+          <div>
+            <label className={fieldLabel}>Default CTA</label>
+            <input
+              type="text"
+              value={activeKit.defaultCta}
+              onChange={(e) => update({ defaultCta: e.target.value })}
+              placeholder="e.g. Shop now"
+              className="w-full px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={activeKit.darkMode}
+              onChange={(e) => update({ darkMode: e.target.checked })}
+              className="accent-blue-600"
+            />
+            Prefers dark background
+          </label>
+
+          <div className="flex gap-2 pt-2 border-t border-slate-100">
+            <button
+              onClick={() => onExport(activeKit)}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-[10px] border border-slate-300 text-slate-600 hover:bg-slate-50"
+            >
+              <Download size={10} /> Export kit
+            </button>
+            <button
+              onClick={() => onDelete(activeKit)}
+              className="flex items-center justify-center gap-1 px-2 py-1 rounded text-[10px] border border-slate-300 text-slate-600 hover:text-red-600 hover:border-red-300"
+            >
+              <Trash2 size={10} /> Delete
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitPanel;
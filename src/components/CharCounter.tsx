@@ -0,0 +1,21 @@
+import React from "react";
+
+// ---------- Character Counter ----------
+
+const CharCounter: React.FC<{ current: number; max: number }> = ({
+  current,
+  max,
+}) => {
+  const isOver = current > max;
+  return (
+    <span
+      className={`text-[10px] font-mono ml-auto ${
+        isOver ? "text-red-500 font-bold" : "text-slate-400"
+      }`}
+    >
+      {current}/{max}
+    </span>
+  );
+};
+
+export default CharCounter;
@@ -0,0 +1,31 @@
+import React from "react";
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import type { CheckStatus } from "../lib/creativeValidation";
+
+// ---------- Check Status Icon ----------
+
+const CheckStatusIcon: React.FC<{
+  status: CheckStatus;
+  size?: number;
+  title?: string;
+}> = ({ status, size = 12, title }) => {
+  const Icon =
+    status === "pass"
+      ? CheckCircle2
+      : status === "warn"
+      ? AlertTriangle
+      : XCircle;
+  const color =
+    status === "pass"
+      ? "text-green-600"
+      : status === "warn"
+      ? "text-amber-500"
+      : "text-red-500";
+  return (
+    <span title={title} className="inline-flex">
+      <Icon size={size} className={`${color} shrink-0`} />
+    </span>
+  );
+};
+
+export default CheckStatusIcon;
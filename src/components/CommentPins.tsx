@@ -0,0 +1,54 @@
+import React from "react";
+import type { AdSize } from "../types";
+import type { ReviewComment } from "../lib/sizeReview";
+
+// ---------- Comment Pins ----------
+
+interface CommentPinsProps {
+  size: AdSize;
+  comments: ReviewComment[];
+  /** When set, clicks anywhere on the ad drop a pin instead of dragging. */
+  onPlace?: (x: number, y: number) => void;
+}
+
+/** Numbered review pins over an AdCanvas, in ad pixel coordinates. */
+const CommentPins: React.FC<CommentPinsProps> = ({
+  size,
+  comments,
+  onPlace,
+}) => {
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPlace) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPlace(
+      ((e.clientX - rect.left) / rect.width) * size.w,
+      ((e.clientY - rect.top) / rect.height) * size.h
+    );
+  };
+
+  return (
+    <div
+      data-export-ignore
+      onClick={handleClick}
+      className={`absolute inset-0 z-20 ${
+        onPlace ? "cursor-crosshair" : "pointer-events-none"
+      }`}
+    >
+      {comments.map((c, i) => (
+        <span
+          key={c.id}
+          title={`${c.author || "Anonymous"}: ${c.text}`}
+          className="absolute -translate-x-1/2 -translate-y-1/2 w-4 h-4 rounded-full bg-blue-600 text-white text-[9px] font-bold flex items-center justify-center ring-2 ring-white shadow pointer-events-auto"
+          style={{
+            left: `${(c.x / size.w) * 100}%`,
+            top: `${(c.y / size.h) * 100}%`,
+          }}
+        >
+          {i + 1}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default CommentPins;
@@ -0,0 +1,174 @@
+import React from "react";
+import { Contrast } from "lucide-react";
+import {
+  COPY_COLORS,
+  SCRIM,
+  blendColors,
+  checkContrast,
+  nearestPassingColor,
+} from "../lib/contrast";
+import type { ContrastCheck } from "../lib/contrast";
+
+// ---------- Contrast Checker ----------
+
+interface ContrastCheckerProps {
+  primaryColor: string;
+  ctaTextColor: string;
+  darkMode: boolean;
+  /**
+   * Average colour of the active image; only set when a layout in use puts
+   * copy over the image.
+   */
+  imageColor: string | null;
+  /** The copy over the image sits on the layout's dark scrim. */
+  scrim: boolean;
+  autoCtaText: boolean;
+  onAutoCtaTextChange: (value: boolean) => void;
+  onPrimaryColorChange: (color: string) => void;
+  onDarkModeChange: (value: boolean) => void;
+}
+
+const LevelBadge: React.FC<{ check: ContrastCheck }> = ({ check }) => (
+  <span
+    className={`px-1 rounded text-[9px] font-bold ${
+      check.level === "AAA"
+        ? "bg-green-100 text-green-700"
+        : check.level === "AA"
+        ? "bg-blue-100 text-blue-700"
+        : "bg-red-100 text-red-700"
+    }`}
+  >
+    {check.level === "fail" ? "Fail" : check.level}
+  </span>
+);
+
+const Swatch: React.FC<{ check: ContrastCheck }> = ({ check }) => (
+  <span
+    className="w-5 h-4 rounded border border-slate-200 text-[9px] font-bold flex items-center justify-center shrink-0"
+    style={{ backgroundColor: check.background, color: check.foreground }}
+  >
+    Aa
+  </span>
+);
+
+const ContrastChecker: React.FC<ContrastCheckerProps> = ({
+  primaryColor,
+  ctaTextColor,
+  darkMode,
+  imageColor,
+  scrim,
+  autoCtaText,
+  onAutoCtaTextChange,
+  onPrimaryColorChange,
+  onDarkModeChange,
+}) => {
+  const copy = darkMode ? COPY_COLORS.dark : COPY_COLORS.light;
+  const ctaCheck = checkContrast(
+    "cta",
+    "CTA text on button",
+    ctaTextColor,
+    primaryColor
+  );
+  const checks: ContrastCheck[] = [
+    ctaCheck,
+    checkContrast(
+      "headline",
+      "Headline on card",
+      copy.headline,
+      copy.background
+    ),
+    checkContrast("subhead", "Subhead on card", copy.subhead, copy.background),
+  ];
+  if (imageColor) {
+    const overImage = scrim ? SCRIM : copy;
+    const backdrop = scrim
+      ? blendColors(SCRIM.color, imageColor, SCRIM.alpha)
+      : imageColor;
+    const suffix = scrim ? "(avg., with scrim)" : "(avg.)";
+    checks.push(
+      checkContrast(
+        "image",
+        `Headline over image ${suffix}`,
+        overImage.headline,
+        backdrop
+      ),
+      checkContrast(
+        "image-subhead",
+        `Subhead over image ${suffix}`,
+        overImage.subhead,
+        backdrop
+      )
+    );
+  }
+
+  const suggestedButton =
+    ctaCheck.level === "fail"
+      ? nearestPassingColor(primaryColor, ctaTextColor)
+      : null;
+  const imageFails = checks.some(
+    (c) => c.id.startsWith("image") && c.level === "fail"
+  );
+  const otherCopy = darkMode ? COPY_COLORS.light : COPY_COLORS.dark;
+  // The scrim forces light copy, so dark mode can't help there.
+  const otherModeFixesImage =
+    !scrim &&
+    imageFails &&
+    imageColor !== null &&
+    checkContrast("", "", otherCopy.subhead, imageColor).level !== "fail";
+
+  return (
+    <div className="pt-2 mt-2 border-t border-slate-100">
+      <label className="text-[10px] font-bold text-slate-400 mb-2 uppercase flex items-center gap-1">
+        <Contrast size={12} /> Contrast (WCAG)
+      </label>
+      <div className="space-y-1">
+        {checks.map((check) => (
+          <div
+            key={check.id}
+            className="flex items-center gap-2 text-[11px] text-slate-600"
+          >
+            <Swatch check={check} />
+            <span className="flex-1">{check.label}</span>
+            <span className="font-mono text-[10px] text-slate-400">
+              {check.ratio.toFixed(2)}:1
+            </span>
+            <LevelBadge check={check} />
+          </div>
+        ))}
+      </div>
+
+      {suggestedButton && (
+        <button
+          onClick={() => onPrimaryColorChange(suggestedButton)}
+          className="mt-2 w-full flex items-center justify-center gap-1 px-2 py-1 rounded text-[10px] border border-slate-200 text-slate-600 hover:bg-slate-50"
+        >
+          <span
+            className="w-3 h-3 rounded-full border border-slate-200"
+            style={{ backgroundColor: suggestedButton }}
+          />
+          Use closest passing button colour {suggestedButton}
+        </button>
+      )}
+      {otherModeFixesImage && (
+        <button
+          onClick={() => onDarkModeChange(!darkMode)}
+          className="mt-2 w-full px-2 py-1 rounded text-[10px] border border-slate-200 text-slate-600 hover:bg-slate-50"
+        >
+          Switch to {darkMode ? "light" : "dark"} copy for text over the image
+        </button>
+      )}
+
+      <label className="mt-2 flex items-center gap-2 text-[11px] text-slate-600">
+        <input
+          type="checkbox"
+          checked={autoCtaText}
+          onChange={(e) => onAutoCtaTextChange(e.target.checked)}
+          className="accent-blue-600"
+        />
+        Pick dark or light CTA text automatically
+      </label>
+    </div>
+  );
+};
+
+export default ContrastChecker;
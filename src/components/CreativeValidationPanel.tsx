@@ -0,0 +1,81 @@
+import React from "react";
+import { ShieldCheck } from "lucide-react";
+import CheckStatusIcon from "./CheckStatusIcon";
+import type { CreativeReport } from "../lib/creativeValidation";
+
+// ---------- Creative Validation Panel ----------
+
+interface CreativeValidationPanelProps {
+  /** One entry per uploaded variant; null while it is still being read. */
+  reports: (CreativeReport | null)[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+}
+
+const CreativeValidationPanel: React.FC<CreativeValidationPanelProps> = ({
+  reports,
+  activeIndex,
+  onSelect,
+}) => (
+  <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+    <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+      <ShieldCheck size={14} /> Upload readiness
+    </h2>
+    <div className="space-y-2">
+      {reports.map((report, idx) => (
+        <button
+          key={idx}
+          onClick={() => onSelect(idx)}
+          className={`w-full text-left text-[11px] border rounded px-2 py-1.5 ${
+            idx === activeIndex
+              ? "border-blue-300 bg-blue-50"
+              : "border-slate-100 bg-slate-50 hover:border-slate-200"
+          }`}
+        >
+          <div className="flex items-center gap-1 font-semibold text-slate-700">
+            {report ? (
+              <CheckStatusIcon status={report.status} />
+            ) : (
+              <span className="w-3 h-3 rounded-full bg-slate-200" />
+            )}
+            Variant {idx + 1}
+          </div>
+          {report && (
+            <>
+              <p className="text-[10px] text-slate-500 mt-0.5">
+                {report.exactSizes.length
+                  ? `Upload to: ${report.exactSizes
+                      .map((s) => `${s.label} ${s.w}x${s.h}`)
+                      .join(", ")}`
+                  : "Not uploadable to any selected size as-is"}
+              </p>
+              {report.resizableSizes.length > 0 && (
+                <p className="text-[10px] text-amber-600 mt-0.5">
+                  Resize for:{" "}
+                  {report.resizableSizes
+                    .map((s) => `${s.label} ${s.w}x${s.h}`)
+                    .join(", ")}
+                </p>
+              )}
+              {idx === activeIndex && (
+                <ul className="mt-1 space-y-0.5">
+                  {report.checks.map((check) => (
+                    <li
+                      key={check.id}
+                      className="flex items-start gap-1 text-[10px] text-slate-600"
+                    >
+                      <CheckStatusIcon status={check.status} size={10} />
+                      {check.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default CreativeValidationPanel;
@@ -0,0 +1,215 @@
+import React, { useImperativeHandle, useState } from "react";
+import { AlertTriangle, FileArchive } from "lucide-react";
+import {
+  DEFAULT_BATCH_OPTIONS,
+  formatFileName,
+  runBatchExport,
+} from "../lib/batchExport";
+import type {
+  BatchExportJob,
+  BatchExportOptions,
+  BatchExportProgress,
+  FolderLayout,
+  JobRenderer,
+  ManifestEntry,
+  ManifestFormat,
+} from "../lib/batchExport";
+import { downloadBlob } from "../lib/download";
+
+// ---------- Export All Panel ----------
+
+/** Lets the keyboard shortcut start an export with the panel's options. */
+export interface ExportAllHandle {
+  exportAll: () => void;
+}
+
+interface ExportAllPanelProps {
+  ref?: React.Ref<ExportAllHandle>;
+  jobs: BatchExportJob[];
+  render: JobRenderer;
+  /** File extension of the current image format, for the name preview. */
+  extension: string;
+  /** The same jobs for every project locale; empty with a single locale. */
+  localeJobs?: BatchExportJob[];
+  localeCount?: number;
+}
+
+const ExportAllPanel: React.FC<ExportAllPanelProps> = ({
+  ref,
+  jobs,
+  render,
+  extension,
+  localeJobs = [],
+  localeCount = 1,
+}) => {
+  const [options, setOptions] = useState<BatchExportOptions>(
+    DEFAULT_BATCH_OPTIONS
+  );
+  const [progress, setProgress] = useState<BatchExportProgress | null>(null);
+  const [failures, setFailures] = useState<ManifestEntry[]>([]);
+  const [allLocales, setAllLocales] = useState(false);
+
+  const selected = allLocales && localeJobs.length ? localeJobs : jobs;
+
+  const busy = progress !== null;
+  const update = (patch: Partial<BatchExportOptions>) =>
+    setOptions((prev) => ({ ...prev, ...patch }));
+
+  const handleExport = async () => {
+    if (!selected.length) return;
+    setFailures([]);
+    setProgress({ done: 0, total: selected.length, current: "" });
+    try {
+      const result = await runBatchExport(
+        selected,
+        render,
+        options,
+        setProgress
+      );
+      downloadBlob(result.zip, `display-ads-${Date.now()}.zip`);
+      setFailures(result.failures);
+    } catch (err) {
+      console.error("Batch export failed", err);
+      alert("Could not build the ZIP. Check console for details.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    exportAll: () => {
+      if (!busy) handleExport();
+    },
+  }));
+
+  const example = selected[0]
+    ? `${formatFileName(options.fileNamePattern, selected[0], 0)}.${extension}`
+    : "";
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <FileArchive size={14} /> Export all
+      </h2>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+            Folder layout
+          </label>
+          <select
+            value={options.folderLayout}
+            disabled={busy}
+            onChange={(e) =>
+              update({ folderLayout: e.target.value as FolderLayout })
+            }
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="by-size">One folder per size</option>
+            <option value="by-variant">One folder per variant</option>
+            <option value="flat">Flat</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+            File name pattern
+          </label>
+          <input
+            type="text"
+            value={options.fileNamePattern}
+            disabled={busy}
+            onChange={(e) => update({ fileNamePattern: e.target.value })}
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs font-mono outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <p className="text-[10px] text-slate-400 mt-1">
+            {"{label} {w} {h} {size} {variant} {locale} {index}"}
+            {example && (
+              <>
+                {" "}
+                → <span className="font-mono">{example}</span>
+              </>
+            )}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+            Manifest
+          </label>
+          <select
+            value={options.manifestFormat}
+            disabled={busy}
+            onChange={(e) =>
+              update({ manifestFormat: e.target.value as ManifestFormat })
+            }
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="both">JSON + CSV</option>
+            <option value="json">JSON</option>
+            <option value="csv">CSV</option>
+          </select>
+        </div>
+
+        {localeJobs.length > 0 && (
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={allLocales}
+              disabled={busy}
+              onChange={(e) => setAllLocales(e.target.checked)}
+              className="accent-blue-600"
+            />
+            Every locale ({localeCount}), one folder each
+          </label>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={busy || !selected.length}
+          className="w-full flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs bg-blue-600 text-white hover:bg-blue-700 active:scale-95 disabled:opacity-50"
+        >
+          <FileArchive size={12} />
+          {busy ? "Exporting…" : `Export ${selected.length} files as ZIP`}
+        </button>
+
+        {progress && (
+          <div>
+            <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{
+                  width: `${
+                    (progress.done / Math.max(progress.total, 1)) * 100
+                  }%`,
+                }}
+              />
+            </div>
+            <p className="text-[10px] text-slate-400 mt-1">
+              {progress.done}/{progress.total} · {progress.current}
+            </p>
+          </div>
+        )}
+
+        {failures.length > 0 && (
+          <div className="text-[10px] bg-amber-50 border border-amber-200 rounded p-2 text-amber-800">
+            <div className="flex items-center gap-1 font-bold mb-1">
+              <AlertTriangle size={10} /> {failures.length} size
+              {failures.length > 1 ? "s" : ""} failed (listed in manifest)
+            </div>
+            <ul className="space-y-0.5">
+              {failures.map((f, i) => (
+                <li key={i}>
+                  {f.label} {f.size} · v{f.variant}
+                  {f.locale && ` · ${f.locale}`}: {f.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportAllPanel;
@@ -0,0 +1,268 @@
+import React, { useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  FileArchive,
+  FileSpreadsheet,
+  FolderOpen,
+} from "lucide-react";
+import {
+  DEFAULT_FEED_PATTERN,
+  FEED_FIELDS,
+  buildFeedRows,
+  guessMapping,
+  parseDelimited,
+  toFeedTable,
+} from "../lib/feedImport";
+import type { FeedMapping, FeedRow } from "../lib/feedImport";
+import { runBatchExport } from "../lib/batchExport";
+import type {
+  BatchExportJob,
+  BatchExportProgress,
+  JobRenderer,
+} from "../lib/batchExport";
+import { downloadBlob } from "../lib/download";
+import { readFileAsDataUrl } from "../lib/files";
+
+// ---------- Feed Import Panel ----------
+
+interface FeedImportPanelProps {
+  /** Number of sizes each row is rendered in. */
+  sizeCount: number;
+  buildJobs: (rows: FeedRow[]) => BatchExportJob[];
+  render: JobRenderer;
+  extension: string;
+}
+
+// Lets the picker select a whole folder; not in React's input typings.
+const folderProps = {
+  webkitdirectory: "",
+} as React.InputHTMLAttributes<HTMLInputElement>;
+
+const FeedImportPanel: React.FC<FeedImportPanelProps> = ({
+  sizeCount,
+  buildJobs,
+  render,
+  extension,
+}) => {
+  const [fileName, setFileName] = useState("");
+  const [cells, setCells] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<FeedMapping | null>(null);
+  const [images, setImages] = useState<Record<string, string>>({});
+  const [pattern, setPattern] = useState(DEFAULT_FEED_PATTERN);
+  const [progress, setProgress] = useState<BatchExportProgress | null>(null);
+
+  const table = toFeedTable(cells, hasHeader);
+  const rows = mapping ? buildFeedRows(table, mapping, images) : [];
+  const validRows = rows.filter((r) => r.errors.length === 0);
+
+  const handleFeed = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const parsed = parseDelimited(await file.text());
+      if (!parsed.length) throw new Error("File has no rows");
+      setFileName(file.name);
+      setCells(parsed);
+      setMapping(guessMapping(toFeedTable(parsed, hasHeader).headers));
+    } catch (err) {
+      console.error("Could not read feed", err);
+      alert(`Could not read ${file.name}.`);
+    }
+  };
+
+  const handleImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter((f) =>
+      f.type.startsWith("image/")
+    );
+    e.target.value = "";
+    const next: Record<string, string> = {};
+    for (const file of files) {
+      try {
+        next[file.name] = await readFileAsDataUrl(file);
+      } catch (err) {
+        console.warn(`Skipped ${file.name}`, err);
+      }
+    }
+    setImages((prev) => ({ ...prev, ...next }));
+  };
+
+  const handleExport = async () => {
+    const jobs = buildJobs(validRows);
+    if (!jobs.length) return;
+    setProgress({ done: 0, total: jobs.length, current: "" });
+    try {
+      const result = await runBatchExport(
+        jobs,
+        render,
+        {
+          folderLayout: "by-size",
+          fileNamePattern: pattern,
+          manifestFormat: "both",
+        },
+        setProgress
+      );
+      downloadBlob(result.zip, `feed-${Date.now()}.zip`);
+      if (result.failures.length) {
+        alert(
+          `${result.failures.length} render(s) failed; see the manifest in the ZIP.`
+        );
+      }
+    } catch (err) {
+      console.error("Feed export failed", err);
+      alert("Could not build the ZIP. Check console for details.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <FileSpreadsheet size={14} /> Feed import
+      </h2>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex items-center justify-center gap-1 px-2 py-1.5 rounded text-[10px] border border-slate-300 text-slate-600 hover:bg-slate-50 cursor-pointer">
+            <FileSpreadsheet size={12} /> CSV / TSV
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              onChange={handleFeed}
+              className="hidden"
+            />
+          </label>
+          <label className="flex items-center justify-center gap-1 px-2 py-1.5 rounded text-[10px] border border-slate-300 text-slate-600 hover:bg-slate-50 cursor-pointer">
+            <FolderOpen size={12} /> Image folder
+            <input
+              type="file"
+              multiple
+              {...folderProps}
+              onChange={handleImages}
+              className="hidden"
+            />
+          </label>
+        </div>
+        {(fileName || Object.keys(images).length > 0) && (
+          <p className="text-[10px] text-slate-500 font-mono">
+            {fileName || "No feed"} · {Object.keys(images).length} images
+          </p>
+        )}
+
+        {mapping && (
+          <>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(e) => setHasHeader(e.target.checked)}
+                className="accent-blue-600"
+              />
+              First row is a header
+            </label>
+
+            <div className="space-y-1">
+              {FEED_FIELDS.map(({ id, label }) => (
+                <div key={id} className="flex items-center gap-2">
+                  <span className="w-20 text-[10px] font-bold text-slate-500 uppercase">
+                    {label}
+                  </span>
+                  <select
+                    value={mapping[id]}
+                    onChange={(e) =>
+                      setMapping({
+                        ...mapping,
+                        [id]: parseInt(e.target.value, 10),
+                      })
+                    }
+                    className="flex-1 min-w-0 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value={-1}>Not mapped</option>
+                    {table.headers.map((h, i) => (
+                      <option key={i} value={i}>
+                        {h}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {rows.map((r) => (
+                <div
+                  key={r.row}
+                  className={`text-[11px] border rounded px-2 py-1 ${
+                    r.errors.length
+                      ? "bg-red-50 border-red-100"
+                      : "bg-slate-50 border-slate-100"
+                  }`}
+                >
+                  <div className="flex items-center gap-1">
+                    {r.errors.length ? (
+                      <AlertTriangle size={12} className="text-red-500" />
+                    ) : (
+                      <CheckCircle2 size={12} className="text-green-600" />
+                    )}
+                    <span className="font-mono text-slate-400">#{r.row}</span>
+                    <span className="flex-1 truncate">{r.headline}</span>
+                    {r.color && (
+                      <span
+                        className="w-3 h-3 rounded-full border border-slate-200"
+                        style={{ backgroundColor: r.color }}
+                      />
+                    )}
+                  </div>
+                  {r.errors.map((err) => (
+                    <p key={err} className="text-[10px] text-red-600 mt-0.5">
+                      {err}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+                File name pattern
+              </label>
+              <input
+                type="text"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs font-mono outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <p className="text-[10px] text-slate-400 mt-1">
+                Tokens: {"{row} {label} {w} {h} {size}"} · .{extension}
+              </p>
+            </div>
+
+            <button
+              onClick={handleExport}
+              disabled={!validRows.length || !sizeCount || progress !== null}
+              className="w-full flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 active:scale-95 disabled:opacity-50"
+            >
+              <FileArchive size={12} />
+              {progress
+                ? `Rendering ${progress.done}/${progress.total}…`
+                : `Export ${validRows.length} valid row${
+                    validRows.length === 1 ? "" : "s"
+                  } × ${sizeCount} sizes`}
+            </button>
+            {validRows.length < rows.length && (
+              <p className="text-[10px] text-amber-600">
+                {rows.length - validRows.length} row(s) with errors will be
+                skipped.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FeedImportPanel;
@@ -0,0 +1,169 @@
+import React, { useRef, useState } from "react";
+import { Crosshair } from "lucide-react";
+import type { ImageFocus } from "../types";
+import { DEFAULT_FOCUS } from "../lib/autoCrop";
+
+// ---------- Focal Point Editor ----------
+
+interface FocalPointEditorProps {
+  image: string;
+  value: ImageFocus | null;
+  onChange: (value: ImageFocus | null) => void;
+  showDebug: boolean;
+  onShowDebugChange: (value: boolean) => void;
+}
+
+type Point = { x: number; y: number };
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+const FocalPointEditor: React.FC<FocalPointEditorProps> = ({
+  image,
+  value,
+  onChange,
+  showDebug,
+  onShowDebugChange,
+}) => {
+  const imgRef = useRef<HTMLImageElement | null>(null);
+  const [boxStart, setBoxStart] = useState<Point | null>(null);
+  const [boxEnd, setBoxEnd] = useState<Point | null>(null);
+
+  const toImagePoint = (e: React.MouseEvent): Point | null => {
+    const rect = imgRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  // Click sets the focal point; Shift+drag draws the must-keep box.
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const p = toImagePoint(e);
+    if (!p) return;
+    e.preventDefault();
+    if (e.shiftKey) {
+      setBoxStart(p);
+      setBoxEnd(p);
+    } else {
+      onChange({ ...(value ?? DEFAULT_FOCUS), x: p.x, y: p.y });
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!boxStart) return;
+    const p = toImagePoint(e);
+    if (p) setBoxEnd(p);
+  };
+
+  const handleMouseUp = () => {
+    if (boxStart && boxEnd) {
+      const keep = {
+        x: Math.min(boxStart.x, boxEnd.x),
+        y: Math.min(boxStart.y, boxEnd.y),
+        w: Math.abs(boxEnd.x - boxStart.x),
+        h: Math.abs(boxEnd.y - boxStart.y),
+      };
+      if (keep.w > 0.01 && keep.h > 0.01) {
+        onChange({
+          ...(value ?? {
+            x: keep.x + keep.w / 2,
+            y: keep.y + keep.h / 2,
+          }),
+          keep,
+        });
+      }
+    }
+    setBoxStart(null);
+    setBoxEnd(null);
+  };
+
+  const box =
+    boxStart && boxEnd
+      ? {
+          x: Math.min(boxStart.x, boxEnd.x),
+          y: Math.min(boxStart.y, boxEnd.y),
+          w: Math.abs(boxEnd.x - boxStart.x),
+          h: Math.abs(boxEnd.y - boxStart.y),
+        }
+      : value?.keep ?? null;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] font-bold text-slate-500 uppercase flex items-center gap-1">
+          <Crosshair size={12} /> Focal point
+        </span>
+        <label className="flex items-center gap-1 text-[10px] text-slate-500">
+          <input
+            type="checkbox"
+            checked={value !== null}
+            onChange={(e) => onChange(e.target.checked ? DEFAULT_FOCUS : null)}
+            className="accent-blue-600"
+          />
+          Auto-crop
+        </label>
+      </div>
+
+      <div
+        className="relative inline-block cursor-crosshair select-none"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+      >
+        <img
+          ref={imgRef}
+          src={image}
+          alt="Focal point"
+          draggable={false}
+          className="block max-w-full max-h-40 bg-slate-50 border border-slate-200 rounded"
+        />
+        {box && (
+          <div
+            className="absolute border border-fuchsia-500 bg-fuchsia-500/10 pointer-events-none"
+            style={{
+              left: `${box.x * 100}%`,
+              top: `${box.y * 100}%`,
+              width: `${box.w * 100}%`,
+              height: `${box.h * 100}%`,
+            }}
+          />
+        )}
+        {value && (
+          <div
+            className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white bg-fuchsia-500 shadow pointer-events-none"
+            style={{ left: `${value.x * 100}%`, top: `${value.y * 100}%` }}
+          />
+        )}
+      </div>
+
+      <p className="text-[10px] text-slate-400 mt-1">
+        Click to set the subject. Shift+drag to mark an area that must stay
+        visible. Dragging a preview still overrides that size.
+      </p>
+
+      <div className="flex items-center justify-between mt-1">
+        <label className="flex items-center gap-1 text-[10px] text-slate-500">
+          <input
+            type="checkbox"
+            checked={showDebug}
+            onChange={(e) => onShowDebugChange(e.target.checked)}
+            className="accent-blue-600"
+          />
+          Show crop overlay
+        </label>
+        {value?.keep && (
+          <button
+            onClick={() => onChange({ ...value, keep: null })}
+            className="text-[10px] text-slate-400 hover:text-red-500"
+          >
+            Clear keep box
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FocalPointEditor;
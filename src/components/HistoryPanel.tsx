@@ -0,0 +1,84 @@
+import React from "react";
+import { History as HistoryIcon, Keyboard, Redo2, Undo2 } from "lucide-react";
+import { canRedo, canUndo } from "../lib/history";
+import type { History } from "../lib/history";
+import { SHORTCUT_HELP } from "../lib/shortcuts";
+
+// ---------- History Panel ----------
+
+interface HistoryPanelProps {
+  history: History<unknown>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  onUndo,
+  onRedo,
+  onJump,
+}) => (
+  <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+    <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+      <HistoryIcon size={14} /> History
+      <span className="ml-auto flex gap-1 normal-case tracking-normal">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo(history)}
+          className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+          title="Undo"
+        >
+          <Undo2 size={12} />
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo(history)}
+          className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+          title="Redo"
+        >
+          <Redo2 size={12} />
+        </button>
+      </span>
+    </h2>
+
+    {/* Newest first; undone steps stay listed until the next edit. */}
+    <div className="space-y-0.5 max-h-48 overflow-y-auto">
+      {history.steps
+        .map((step, idx) => ({ step, idx }))
+        .reverse()
+        .map(({ step, idx }) => (
+          <button
+            key={idx}
+            onClick={() => onJump(idx)}
+            className={`w-full text-left px-2 py-1 rounded text-[11px] ${
+              idx === history.index
+                ? "bg-blue-50 text-blue-700 font-semibold"
+                : idx > history.index
+                ? "text-slate-300 hover:bg-slate-50"
+                : "text-slate-600 hover:bg-slate-50"
+            }`}
+          >
+            {step.label}
+          </button>
+        ))}
+    </div>
+
+    <div className="pt-3 mt-3 border-t border-slate-100 space-y-0.5">
+      <div className="text-[10px] font-bold text-slate-400 uppercase mb-1 flex items-center gap-1">
+        <Keyboard size={10} /> Shortcuts
+      </div>
+      {SHORTCUT_HELP.map((s) => (
+        <div
+          key={s.description}
+          className="flex justify-between text-[10px] text-slate-500"
+        >
+          <span>{s.description}</span>
+          <span className="font-mono text-slate-400">{s.keys}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default HistoryPanel;
@@ -0,0 +1,201 @@
+import React, { useState } from "react";
+import JSZip from "jszip";
+import { CheckCircle2, Code2, Download, XCircle } from "lucide-react";
+import { DEFAULT_HTML5_OPTIONS } from "../lib/html5Bundle";
+import type {
+  ClickTarget,
+  Html5Bundle,
+  Html5Options,
+} from "../lib/html5Bundle";
+import { downloadBlob, slugify } from "../lib/download";
+import type { CatalogSize } from "../lib/sizeCatalog";
+
+// ---------- HTML5 Export Panel ----------
+
+interface Html5ExportPanelProps {
+  sizes: CatalogSize[];
+  build: (spec: CatalogSize, options: Html5Options) => Promise<Html5Bundle>;
+}
+
+interface BundleResult {
+  spec: CatalogSize;
+  bundle: Html5Bundle | null;
+  error?: string;
+}
+
+type BuiltResult = BundleResult & { bundle: Html5Bundle };
+
+const isBuilt = (result: BundleResult): result is BuiltResult =>
+  result.bundle !== null;
+
+const bundleName = (spec: CatalogSize) =>
+  `${slugify(spec.label)}-${spec.w}x${spec.h}-html5.zip`;
+
+const Html5ExportPanel: React.FC<Html5ExportPanelProps> = ({
+  sizes,
+  build,
+}) => {
+  const [options, setOptions] = useState<Html5Options>(DEFAULT_HTML5_OPTIONS);
+  const [results, setResults] = useState<BundleResult[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const handleCheck = async () => {
+    setBusy(true);
+    const next: BundleResult[] = [];
+    for (const spec of sizes) {
+      try {
+        next.push({ spec, bundle: await build(spec, options) });
+      } catch (err) {
+        console.error(`HTML5 build failed for ${spec.label}`, err);
+        next.push({
+          spec,
+          bundle: null,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      setResults([...next]);
+    }
+    setBusy(false);
+  };
+
+  const confirmViolations = (count: number) =>
+    count === 0 ||
+    window.confirm(
+      `${count} Google Ads rule violation${
+        count > 1 ? "s" : ""
+      } found. Download anyway?`
+    );
+
+  const handleDownloadOne = (result: BundleResult) => {
+    if (!result.bundle) return;
+    if (!confirmViolations(result.bundle.violations.length)) return;
+    downloadBlob(result.bundle.zip, bundleName(result.spec));
+  };
+
+  const handleDownloadAll = async () => {
+    const built = results.filter(isBuilt);
+    const violations = built.reduce(
+      (sum, r) => sum + r.bundle.violations.length,
+      0
+    );
+    if (!built.length || !confirmViolations(violations)) return;
+    const outer = new JSZip();
+    built.forEach((r) => outer.file(bundleName(r.spec), r.bundle.zip));
+    downloadBlob(
+      await outer.generateAsync({ type: "blob" }),
+      `html5-bundles-${Date.now()}.zip`
+    );
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Code2 size={14} /> HTML5 bundles
+      </h2>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+            clickTag URL
+          </label>
+          <input
+            type="url"
+            value={options.clickTagUrl}
+            onChange={(e) =>
+              setOptions((prev) => ({ ...prev, clickTagUrl: e.target.value }))
+            }
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs font-mono outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+            Click area
+          </label>
+          <select
+            value={options.clickTarget}
+            onChange={(e) =>
+              setOptions((prev) => ({
+                ...prev,
+                clickTarget: e.target.value as ClickTarget,
+              }))
+            }
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="ad">Whole ad</option>
+            <option value="cta">CTA button only</option>
+          </select>
+        </div>
+
+        <button
+          onClick={handleCheck}
+          disabled={busy}
+          className="w-full flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 active:scale-95 disabled:opacity-50"
+        >
+          <Code2 size={12} />
+          {busy ? "Building…" : "Build & validate all sizes"}
+        </button>
+
+        {results.length > 0 && (
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {results.map((r) => {
+              const violations = r.bundle?.violations ?? [];
+              const ok = r.bundle && violations.length === 0;
+              return (
+                <div
+                  key={r.spec.id}
+                  className="text-[11px] bg-slate-50 border border-slate-100 rounded px-2 py-1"
+                >
+                  <div className="flex items-center gap-1">
+                    {ok ? (
+                      <CheckCircle2 size={12} className="text-green-600" />
+                    ) : (
+                      <XCircle size={12} className="text-red-500" />
+                    )}
+                    <span className="flex-1">
+                      {r.spec.w}x{r.spec.h}
+                    </span>
+                    {r.bundle && (
+                      <>
+                        <span className="text-[10px] text-slate-400 font-mono">
+                          {r.bundle.files.length} files ·{" "}
+                          {(r.bundle.zipBytes / 1024).toFixed(1)} KB
+                        </span>
+                        <button
+                          onClick={() => handleDownloadOne(r)}
+                          className="text-slate-400 hover:text-blue-600 ml-1"
+                          title="Download ZIP"
+                        >
+                          <Download size={12} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  {r.error && (
+                    <p className="text-[10px] text-red-600 mt-0.5">{r.error}</p>
+                  )}
+                  {violations.map((v, i) => (
+                    <p key={i} className="text-[10px] text-red-600 mt-0.5">
+                      {v.message}
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {results.some((r) => r.bundle) && !busy && (
+          <button
+            onClick={handleDownloadAll}
+            className="w-full flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50 active:scale-95"
+          >
+            <Download size={12} /> Download all bundles
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Html5ExportPanel;
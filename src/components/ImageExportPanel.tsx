@@ -0,0 +1,88 @@
+import React from "react";
+import { Image as ImageIcon } from "lucide-react";
+import { IMAGE_FORMATS } from "../lib/imageExport";
+import type { ImageExportSettings } from "../lib/imageExport";
+
+// ---------- Image Export Panel ----------
+
+interface ImageExportPanelProps {
+  value: ImageExportSettings;
+  onChange: (value: ImageExportSettings) => void;
+}
+
+const ImageExportPanel: React.FC<ImageExportPanelProps> = ({
+  value,
+  onChange,
+}) => {
+  const update = (patch: Partial<ImageExportSettings>) =>
+    onChange({ ...value, ...patch });
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <ImageIcon size={14} /> Static image export
+      </h2>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+            Format
+          </label>
+          <div className="grid grid-cols-4 gap-1">
+            {IMAGE_FORMATS.map((f) => (
+              <button
+                key={f.value}
+                onClick={() => update({ format: f.value })}
+                className={`px-2 py-1 rounded text-[10px] border ${
+                  value.format === f.value
+                    ? "border-blue-500 bg-blue-50 text-blue-700"
+                    : "border-slate-200 text-slate-600 hover:bg-slate-50"
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between mb-1">
+            <label className="text-[10px] font-bold text-slate-500 uppercase">
+              Max file size
+            </label>
+            <span className="text-[10px] text-slate-400">
+              {value.maxKB ? `${value.maxKB} KB` : "No limit"}
+            </span>
+          </div>
+          <input
+            type="number"
+            min={0}
+            step={10}
+            value={value.maxKB}
+            onChange={(e) =>
+              update({ maxKB: Math.max(0, parseFloat(e.target.value) || 0) })
+            }
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          {value.format === "png" && value.maxKB > 0 && (
+            <p className="text-[10px] text-slate-400 mt-1">
+              PNG is lossless; only the pixel ratio can shrink it.
+            </p>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={value.exactSize}
+            onChange={(e) => update({ exactSize: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Exact 1x dimensions (for upload)
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ImageExportPanel;
@@ -0,0 +1,59 @@
+import React from "react";
+import { LayoutTemplate } from "lucide-react";
+import { LAYOUT_TEMPLATES } from "../lib/layoutTemplates";
+
+// ---------- Layout Template Panel ----------
+
+interface LayoutTemplatePanelProps {
+  value: string;
+  onChange: (id: string) => void;
+  /** Number of sizes using their own template instead of `value`. */
+  sizeOverrideCount: number;
+  onResetSizeOverrides: () => void;
+}
+
+const LayoutTemplatePanel: React.FC<LayoutTemplatePanelProps> = ({
+  value,
+  onChange,
+  sizeOverrideCount,
+  onResetSizeOverrides,
+}) => (
+  <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+    <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+      <LayoutTemplate size={14} /> Layout template
+    </h2>
+    <div className="space-y-1">
+      {LAYOUT_TEMPLATES.map((t) => (
+        <button
+          key={t.id}
+          onClick={() => onChange(t.id)}
+          className={`w-full text-left px-2 py-1.5 rounded border ${
+            value === t.id
+              ? "border-blue-500 bg-blue-50"
+              : "border-slate-100 hover:bg-slate-50"
+          }`}
+        >
+          <div
+            className={`text-xs font-semibold ${
+              value === t.id ? "text-blue-700" : "text-slate-700"
+            }`}
+          >
+            {t.name}
+          </div>
+          <div className="text-[10px] text-slate-500">{t.description}</div>
+        </button>
+      ))}
+    </div>
+    {sizeOverrideCount > 0 && (
+      <button
+        onClick={onResetSizeOverrides}
+        className="mt-2 text-[10px] text-blue-600 hover:underline"
+      >
+        Reset {sizeOverrideCount} size{sizeOverrideCount > 1 ? "s" : ""} to this
+        template
+      </button>
+    )}
+  </div>
+);
+
+export default LayoutTemplatePanel;
@@ -0,0 +1,84 @@
+import React from "react";
+import { Languages } from "lucide-react";
+import { LOCALE_OPTIONS, localeName, textDirection } from "../lib/locales";
+
+// ---------- Locale Panel ----------
+
+interface LocalePanelProps {
+  locales: string[];
+  active: string;
+  onSwitch: (code: string) => void;
+  /** New locales start from the current copy, ready to translate. */
+  onAdd: (code: string) => void;
+  onRemove: (code: string) => void;
+}
+
+const LocalePanel: React.FC<LocalePanelProps> = ({
+  locales,
+  active,
+  onSwitch,
+  onAdd,
+  onRemove,
+}) => {
+  const available = LOCALE_OPTIONS.filter((l) => !locales.includes(l.code));
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Languages size={14} /> Locales
+      </h2>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        {locales.map((code) => (
+          <span
+            key={code}
+            className={`flex items-center gap-1 rounded border text-[11px] ${
+              code === active
+                ? "border-blue-500 bg-blue-50 text-blue-700"
+                : "border-slate-200 text-slate-600"
+            }`}
+          >
+            <button
+              onClick={() => onSwitch(code)}
+              className="pl-2 py-0.5"
+              title={localeName(code)}
+            >
+              {code}
+              {textDirection(code) === "rtl" && (
+                <span className="ml-1 text-[9px] font-bold text-slate-400">
+                  RTL
+                </span>
+              )}
+            </button>
+            {locales.length > 1 ? (
+              <button
+                onClick={() => onRemove(code)}
+                className="pr-1.5 text-slate-400 hover:text-red-500"
+                title={`Remove ${localeName(code)}`}
+              >
+                ✕
+              </button>
+            ) : (
+              <span className="pr-1" />
+            )}
+          </span>
+        ))}
+      </div>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onAdd(e.target.value)}
+        className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+      >
+        <option value="">Add locale…</option>
+        {available.map((l) => (
+          <option key={l.code} value={l.code}>
+            {l.name} ({l.code})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LocalePanel;
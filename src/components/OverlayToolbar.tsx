@@ -0,0 +1,74 @@
+import React from "react";
+import { Frame, Grid3x3, Ruler, SquareDashed } from "lucide-react";
+import type { OverlaySettings } from "../lib/previewOverlays";
+
+// ---------- Overlay Toolbar ----------
+
+interface OverlayToolbarProps {
+  value: OverlaySettings;
+  onChange: (value: OverlaySettings) => void;
+}
+
+type OverlayToggle = "safeZone" | "grid" | "rulers" | "measure";
+
+const TOGGLES: { key: OverlayToggle; label: string; icon: React.ReactNode }[] =
+  [
+    { key: "safeZone", label: "Safe area", icon: <SquareDashed size={12} /> },
+    { key: "grid", label: "Grid", icon: <Grid3x3 size={12} /> },
+    { key: "rulers", label: "Rulers", icon: <Frame size={12} /> },
+    { key: "measure", label: "Measure", icon: <Ruler size={12} /> },
+  ];
+
+const OverlayToolbar: React.FC<OverlayToolbarProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<OverlaySettings>) =>
+    onChange({ ...value, ...patch });
+
+  const marginInput = (key: "safeMarginX" | "safeMarginY", label: string) => (
+    <label className="flex items-center gap-1 text-[10px] text-slate-500">
+      {label}
+      <input
+        type="number"
+        min={0}
+        value={value[key]}
+        onChange={(e) =>
+          update({ [key]: Math.max(0, parseInt(e.target.value, 10) || 0) })
+        }
+        className="w-12 px-1 py-0.5 bg-white border border-slate-200 rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-blue-500"
+      />
+      px
+    </label>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="inline-flex bg-white p-1 rounded-lg shadow-sm border border-slate-200 gap-1">
+        {TOGGLES.map((t) => (
+          <button
+            key={t.key}
+            onClick={() => update({ [t.key]: !value[t.key] })}
+            className={`px-2 py-1 rounded text-xs font-semibold flex items-center gap-1 ${
+              value[t.key]
+                ? "bg-slate-900 text-white"
+                : "text-slate-500 hover:bg-slate-50"
+            }`}
+          >
+            {t.icon} {t.label}
+          </button>
+        ))}
+      </div>
+      {value.safeZone && (
+        <>
+          {marginInput("safeMarginX", "Sides")}
+          {marginInput("safeMarginY", "Top/bottom")}
+        </>
+      )}
+      {value.measure && (
+        <span className="text-[10px] text-slate-400">
+          Drag across a preview; edges snap, Shift keeps it straight.
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default OverlayToolbar;
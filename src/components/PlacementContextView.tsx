@@ -0,0 +1,396 @@
+import React, { useState } from "react";
+import { Monitor, Smartphone } from "lucide-react";
+import {
+  PAGE_GUTTER,
+  PLACEMENT_CONTEXTS,
+  SIDEBAR_WIDTH,
+  VIEWPORTS,
+  describeSlot,
+  getPlacementContext,
+  slotFor,
+} from "../lib/placementContexts";
+import type {
+  DeviceId,
+  PlacementContextId,
+  SlotId,
+  Viewport,
+} from "../lib/placementContexts";
+import type { CatalogSize } from "../lib/sizeCatalog";
+
+// ---------- Placement Context View ----------
+
+interface PlacementContextViewProps {
+  sizes: CatalogSize[];
+  renderAd: (spec: CatalogSize) => React.ReactNode;
+}
+
+/** Mocks are drawn at real viewport size, then scaled down to this width. */
+const PREVIEW_WIDTH = 560;
+const BEZEL = 14;
+const BROWSER_BAR = 36;
+
+// ---------- Mock pieces ----------
+
+const Lines: React.FC<{ count: number; dark?: boolean; short?: boolean }> = ({
+  count,
+  dark = false,
+  short = false,
+}) => (
+  <div className="space-y-2">
+    {Array.from({ length: count }, (_, i) => (
+      <div
+        key={i}
+        className={`h-2.5 rounded ${dark ? "bg-slate-700" : "bg-slate-200"}`}
+        style={{ width: short || i === count - 1 ? "60%" : "100%" }}
+      />
+    ))}
+  </div>
+);
+
+const Frame: React.FC<{ viewport: Viewport; children: React.ReactNode }> = ({
+  viewport,
+  children,
+}) => {
+  const browser = viewport.frame === "browser";
+  const outerW = viewport.w + (browser ? 2 : BEZEL * 2);
+  const outerH = viewport.h + (browser ? BROWSER_BAR + 2 : BEZEL * 2);
+  const scale = Math.min(1, PREVIEW_WIDTH / outerW);
+
+  return (
+    <div
+      className="overflow-hidden"
+      style={{ width: outerW * scale, height: outerH * scale }}
+    >
+      <div
+        style={{
+          width: outerW,
+          height: outerH,
+          transform: `scale(${scale})`,
+          transformOrigin: "top left",
+        }}
+        className={
+          browser
+            ? "border border-slate-300 rounded-lg overflow-hidden bg-white shadow-lg"
+            : "bg-slate-900 rounded-[40px] shadow-lg"
+        }
+      >
+        {browser ? (
+          <div
+            className="flex items-center gap-2 px-3 bg-slate-100 border-b border-slate-200"
+            style={{ height: BROWSER_BAR }}
+          >
+            <span className="w-3 h-3 rounded-full bg-red-400" />
+            <span className="w-3 h-3 rounded-full bg-amber-400" />
+            <span className="w-3 h-3 rounded-full bg-green-400" />
+            <div className="ml-4 flex-1 h-5 rounded bg-white border border-slate-200" />
+          </div>
+        ) : null}
+        <div
+          className={`relative overflow-hidden ${
+            browser ? "" : "rounded-[28px]"
+          }`}
+          style={{
+            width: viewport.w,
+            height: viewport.h,
+            margin: browser ? 0 : BEZEL,
+          }}
+        >
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface PageProps {
+  viewport: Viewport;
+  slot: SlotId;
+  ad: React.ReactNode;
+}
+
+const NewsPage: React.FC<PageProps & { dark: boolean }> = ({
+  viewport,
+  slot,
+  ad,
+  dark,
+}) => {
+  const sidebar = viewport.w >= 1024;
+  return (
+    <div
+      className={`w-full h-full ${
+        dark ? "bg-slate-950 text-slate-100" : "bg-white text-slate-900"
+      }`}
+    >
+      <div
+        className={`flex items-center gap-6 border-b font-serif font-bold text-xl ${
+          dark ? "border-slate-800" : "border-slate-200"
+        }`}
+        style={{ padding: `14px ${PAGE_GUTTER}px` }}
+      >
+        The Daily Example
+        <div className="flex gap-4 text-xs font-sans font-normal opacity-60">
+          <span>World</span>
+          <span>Business</span>
+          <span>Tech</span>
+        </div>
+      </div>
+      {slot === "top" && <div className="flex justify-center py-3">{ad}</div>}
+      <div
+        className="flex"
+        style={{ padding: `16px ${PAGE_GUTTER}px`, gap: PAGE_GUTTER }}
+      >
+        <div className="flex-1 min-w-0 space-y-4">
+          <div className="font-serif text-3xl font-bold leading-tight">
+            City council approves new waterfront plan
+          </div>
+          <div
+            className={`h-48 rounded ${dark ? "bg-slate-800" : "bg-slate-200"}`}
+          />
+          <Lines count={5} dark={dark} />
+          {slot === "inline" && (
+            <div className="flex flex-col items-center gap-1 py-2">
+              <span className="text-[9px] uppercase opacity-50">
+                Advertisement
+              </span>
+              {ad}
+            </div>
+          )}
+          <Lines count={6} dark={dark} />
+        </div>
+        {sidebar && (
+          <div className="shrink-0 space-y-4" style={{ width: SIDEBAR_WIDTH }}>
+            {slot === "sidebar" && ad}
+            <div className="text-sm font-bold">Most read</div>
+            <Lines count={4} dark={dark} short />
+          </div>
+        )}
+      </div>
+      {slot === "anchor" && (
+        <div
+          className={`absolute bottom-0 inset-x-0 flex justify-center py-1 shadow-[0_-2px_8px_rgba(0,0,0,0.15)] ${
+            dark ? "bg-slate-900" : "bg-white"
+          }`}
+        >
+          {ad}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AppScreen: React.FC<PageProps> = ({ slot, ad }) => (
+  <div className="w-full h-full bg-slate-50 flex flex-col">
+    <div className="h-11 shrink-0" />
+    <div className="px-4 py-2 flex items-center justify-between bg-white border-b border-slate-200">
+      <span className="font-bold text-lg">Recipes</span>
+      <span className="w-7 h-7 rounded-full bg-slate-200" />
+    </div>
+    <div className="flex-1 overflow-hidden p-3 space-y-3">
+      {[0, 1, 2, 3].map((i) => (
+        <React.Fragment key={i}>
+          {slot === "inline" && i === 1 && (
+            <div className="flex justify-center">{ad}</div>
+          )}
+          <div className="bg-white rounded-xl p-3 flex gap-3 shadow-sm">
+            <div className="w-16 h-16 rounded-lg bg-slate-200 shrink-0" />
+            <div className="flex-1">
+              <Lines count={3} />
+            </div>
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+    {slot === "anchor" && (
+      <div className="flex justify-center bg-white border-t border-slate-200">
+        {ad}
+      </div>
+    )}
+    <div className="h-14 shrink-0 bg-white border-t border-slate-200 flex justify-around items-center">
+      {[0, 1, 2, 3].map((i) => (
+        <span key={i} className="w-6 h-6 rounded bg-slate-200" />
+      ))}
+    </div>
+  </div>
+);
+
+const GmailPage: React.FC<PageProps> = ({ slot, ad }) => (
+  <div className="w-full h-full bg-white flex text-slate-800">
+    <div className="w-56 shrink-0 p-4 space-y-3 bg-slate-50">
+      <div className="w-28 h-10 rounded-2xl bg-blue-100" />
+      {["Inbox", "Starred", "Sent", "Drafts"].map((f) => (
+        <div key={f} className="text-sm opacity-70">
+          {f}
+        </div>
+      ))}
+    </div>
+    <div className="flex-1 min-w-0 p-4">
+      <div className="flex gap-6 border-b border-slate-200 text-sm mb-2">
+        <span className="pb-2 opacity-60">Primary</span>
+        <span className="pb-2 border-b-2 border-green-600 text-green-700 font-semibold">
+          Promotions
+        </span>
+        <span className="pb-2 opacity-60">Social</span>
+      </div>
+      {slot === "top" && (
+        <div className="py-2 flex flex-col items-start gap-1">
+          <span className="text-[10px] font-bold text-slate-500">
+            Sponsored
+          </span>
+          {ad}
+        </div>
+      )}
+      {Array.from({ length: 12 }, (_, i) => (
+        <div
+          key={i}
+          className="flex items-center gap-4 py-2 border-b border-slate-100 text-sm"
+        >
+          <span className="w-36 font-semibold truncate">Store {i + 1}</span>
+          <div className="flex-1">
+            <Lines count={1} />
+          </div>
+        </div>
+      ))}
+    </div>
+    {slot === "sidebar" && <div className="shrink-0 p-4">{ad}</div>}
+  </div>
+);
+
+const YouTubePage: React.FC<PageProps> = ({ ad }) => (
+  <div className="w-full h-full bg-white flex gap-6 p-6">
+    <div className="flex-1 min-w-0 space-y-3">
+      <div className="aspect-video rounded-xl bg-slate-900 flex items-center justify-center">
+        <span className="w-16 h-11 rounded-xl bg-red-600" />
+      </div>
+      <div className="text-lg font-bold">
+        How we built a tiny cabin in 30 days
+      </div>
+      <Lines count={3} short />
+    </div>
+    <div className="w-[336px] shrink-0 space-y-3">
+      <div className="flex flex-col gap-1">
+        {ad}
+        <span className="text-[10px] text-slate-500">Ad · Companion</span>
+      </div>
+      {[0, 1, 2, 3, 4].map((i) => (
+        <div key={i} className="flex gap-2">
+          <div className="w-40 h-24 rounded-lg bg-slate-200 shrink-0" />
+          <div className="flex-1">
+            <Lines count={2} short />
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// ---------- View ----------
+
+const PlacementContextView: React.FC<PlacementContextViewProps> = ({
+  sizes,
+  renderAd,
+}) => {
+  const [contextId, setContextId] = useState<PlacementContextId>("news");
+  const [deviceId, setDeviceId] = useState<DeviceId>("desktop");
+
+  const context = getPlacementContext(contextId);
+  const device = context.devices.includes(deviceId)
+    ? deviceId
+    : context.devices[0];
+  const viewport = VIEWPORTS[device];
+
+  const renderPage = (slot: SlotId, ad: React.ReactNode) => {
+    const props = { viewport, slot, ad };
+    switch (contextId) {
+      case "news":
+        return <NewsPage {...props} dark={false} />;
+      case "dark-site":
+        return <NewsPage {...props} dark />;
+      case "mobile-app":
+        return <AppScreen {...props} />;
+      case "gmail":
+        return <GmailPage {...props} />;
+      case "youtube":
+        return <YouTubePage {...props} />;
+    }
+  };
+
+  const placed = sizes.map((spec) => ({
+    spec,
+    slot: slotFor(contextId, spec, viewport),
+  }));
+  const unplaced = placed.filter((p) => !p.slot);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-3 rounded-lg shadow-sm border border-slate-200 space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {PLACEMENT_CONTEXTS.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => setContextId(c.id)}
+              className={`px-2 py-1 rounded text-xs border ${
+                c.id === contextId
+                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  : "border-slate-200 text-slate-600 hover:bg-slate-50"
+              }`}
+              title={c.description}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          {context.devices.map((id) => (
+            <button
+              key={id}
+              onClick={() => setDeviceId(id)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] border ${
+                id === device
+                  ? "border-slate-900 bg-slate-900 text-white"
+                  : "border-slate-200 text-slate-500 hover:bg-slate-50"
+              }`}
+            >
+              {VIEWPORTS[id].frame === "browser" ? (
+                <Monitor size={10} />
+              ) : (
+                <Smartphone size={10} />
+              )}
+              {VIEWPORTS[id].label}
+              <span className="font-mono opacity-60">
+                {VIEWPORTS[id].w}x{VIEWPORTS[id].h}
+              </span>
+            </button>
+          ))}
+          <span className="ml-2 text-[10px] text-slate-400">
+            {context.description}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        {placed.map(({ spec, slot }) =>
+          slot ? (
+            <div key={spec.id} className="space-y-1">
+              <div className="text-[10px] text-slate-400 font-mono uppercase">
+                {spec.label} ({spec.w}x{spec.h}) · {describeSlot(slot)}
+              </div>
+              <Frame viewport={viewport}>
+                {renderPage(slot, renderAd(spec))}
+              </Frame>
+            </div>
+          ) : null
+        )}
+      </div>
+
+      {unplaced.length > 0 && (
+        <p className="text-xs text-slate-400">
+          No {context.label.toLowerCase()} slot for{" "}
+          {unplaced.map((p) => `${p.spec.w}x${p.spec.h}`).join(", ")} at{" "}
+          {viewport.w}px.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PlacementContextView;
@@ -0,0 +1,231 @@
+import React from "react";
+import { Download, Plus, ShieldCheck } from "lucide-react";
+import CheckStatusIcon from "./CheckStatusIcon";
+import {
+  DEFAULT_POLICY_CONFIG,
+  LINT_FIELDS,
+  POLICY_RULES,
+  SEVERITIES,
+  countBySeverity,
+  ruleSetting,
+} from "../lib/policyLint";
+import type {
+  LintIssue,
+  LintSeverity,
+  PolicyConfig,
+  PolicySettings,
+} from "../lib/policyLint";
+import type { CheckStatus } from "../lib/creativeValidation";
+
+// ---------- Policy Lint Panel ----------
+
+interface PolicyLintPanelProps {
+  issues: LintIssue[];
+  settings: PolicySettings;
+  onSettingsChange: (settings: PolicySettings) => void;
+  /** Downloads the issues for every locale as CSV. */
+  onExportReport: () => void;
+}
+
+const SEVERITY_STATUS: Record<LintSeverity, CheckStatus> = {
+  error: "fail",
+  warning: "warn",
+  info: "warn",
+};
+
+const listToText = (list: string[]) => list.join(", ");
+const textToList = (text: string) =>
+  text
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+const PolicyLintPanel: React.FC<PolicyLintPanelProps> = ({
+  issues,
+  settings,
+  onSettingsChange,
+  onExportReport,
+}) => {
+  const config = settings.accounts[settings.active];
+  const counts = countBySeverity(issues);
+
+  const updateConfig = (patch: Partial<PolicyConfig>) =>
+    onSettingsChange({
+      ...settings,
+      accounts: {
+        ...settings.accounts,
+        [settings.active]: { ...config, ...patch },
+      },
+    });
+
+  const handleNewAccount = () => {
+    const name = window.prompt("Account name?")?.trim();
+    if (!name) return;
+    if (settings.accounts[name]) {
+      alert(`An account called "${name}" already exists.`);
+      return;
+    }
+    onSettingsChange({
+      accounts: { ...settings.accounts, [name]: DEFAULT_POLICY_CONFIG },
+      active: name,
+    });
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <ShieldCheck size={14} /> Editorial policy
+        <span className="ml-auto font-mono normal-case tracking-normal">
+          <span className={counts.error ? "text-red-500" : ""}>
+            {counts.error}
+          </span>
+          {" / "}
+          <span className={counts.warning ? "text-amber-500" : ""}>
+            {counts.warning}
+          </span>
+        </span>
+      </h2>
+
+      <div className="space-y-3">
+        {issues.length === 0 ? (
+          <p className="text-[11px] text-green-700 flex items-center gap-1">
+            <CheckStatusIcon status="pass" /> No editorial issues found.
+          </p>
+        ) : (
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {issues.map((issue) => (
+              <div
+                key={`${issue.ruleId}-${issue.field}`}
+                className="text-[11px] bg-slate-50 border border-slate-100 rounded px-2 py-1"
+              >
+                <div className="flex items-center gap-1">
+                  <CheckStatusIcon
+                    status={SEVERITY_STATUS[issue.severity]}
+                    title={issue.severity}
+                  />
+                  <span className="font-semibold text-slate-700">
+                    {issue.label}
+                  </span>
+                  <span className="ml-auto text-[10px] text-slate-400 uppercase">
+                    {LINT_FIELDS.find((f) => f.id === issue.field)?.label}
+                  </span>
+                </div>
+                <div className="font-mono text-[10px] text-slate-600 mt-0.5">
+                  {issue.matches.map((m) => `“${m}”`).join(" ")}
+                </div>
+                <p className="text-[10px] text-slate-500 mt-0.5">
+                  {issue.explanation}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-1">
+          <select
+            value={settings.active}
+            onChange={(e) =>
+              onSettingsChange({ ...settings, active: e.target.value })
+            }
+            className="flex-1 min-w-0 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+            title="Rule setup for this account"
+          >
+            {Object.keys(settings.accounts).map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleNewAccount}
+            className="px-2 py-1 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50"
+            title="New account"
+          >
+            <Plus size={12} />
+          </button>
+          <button
+            onClick={onExportReport}
+            className="px-2 py-1 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50"
+            title="Export report (CSV, every locale)"
+          >
+            <Download size={12} />
+          </button>
+        </div>
+
+        <details className="text-xs">
+          <summary className="cursor-pointer text-[10px] font-bold text-slate-500 uppercase">
+            Rules
+          </summary>
+          <div className="space-y-1 mt-2">
+            {POLICY_RULES.map((rule) => {
+              const setting = ruleSetting(config, rule);
+              const setRule = (patch: Partial<typeof setting>) =>
+                updateConfig({
+                  rules: {
+                    ...config.rules,
+                    [rule.id]: { ...setting, ...patch },
+                  },
+                });
+              return (
+                <div key={rule.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={setting.enabled}
+                    onChange={(e) => setRule({ enabled: e.target.checked })}
+                    className="accent-blue-600"
+                  />
+                  <span
+                    className="flex-1 text-[11px] text-slate-600"
+                    title={rule.explanation}
+                  >
+                    {rule.label}
+                  </span>
+                  <select
+                    value={setting.severity}
+                    disabled={!setting.enabled}
+                    onChange={(e) =>
+                      setRule({ severity: e.target.value as LintSeverity })
+                    }
+                    className="px-1 py-0.5 border border-slate-200 rounded text-[10px] bg-white outline-none"
+                  >
+                    {SEVERITIES.map((s) => (
+                      <option key={s} value={s}>
+                        {s}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mt-3 mb-1">
+            Allowed all-caps words
+          </label>
+          <input
+            type="text"
+            defaultValue={listToText(config.allowedCaps)}
+            key={`caps-${settings.active}`}
+            onBlur={(e) =>
+              updateConfig({ allowedCaps: textToList(e.target.value) })
+            }
+            className="w-full px-2 py-1 bg-white border border-slate-200 rounded text-xs font-mono outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mt-2 mb-1">
+            Vague CTAs
+          </label>
+          <input
+            type="text"
+            defaultValue={listToText(config.vagueCtas)}
+            key={`ctas-${settings.active}`}
+            onBlur={(e) =>
+              updateConfig({ vagueCtas: textToList(e.target.value) })
+            }
+            className="w-full px-2 py-1 bg-white border border-slate-200 rounded text-xs font-mono outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </details>
+      </div>
+    </div>
+  );
+};
+
+export default PolicyLintPanel;
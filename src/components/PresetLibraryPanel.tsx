@@ -0,0 +1,288 @@
+import React, { useState } from "react";
+import {
+  Copy,
+  Download,
+  Folder,
+  List,
+  Pencil,
+  RefreshCw,
+  Save,
+  Search,
+  Tag,
+  Upload,
+} from "lucide-react";
+import type { Preset } from "../types";
+
+// ---------- Preset Library Panel ----------
+
+interface PresetLibraryPanelProps {
+  presets: Preset[];
+  /** Records that failed validation on load and were hidden. */
+  skipped: number;
+  onSave: (name: string, folder: string) => void;
+  onApply: (preset: Preset) => void;
+  onOverwrite: (preset: Preset) => void;
+  onUpdate: (preset: Preset) => void;
+  onDuplicate: (preset: Preset) => void;
+  onDelete: (preset: Preset) => void;
+  onImport: (file: File) => void;
+  onExport: (presets: Preset[]) => void;
+}
+
+const matches = (preset: Preset, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [preset.name, preset.folder ?? "", ...(preset.tags ?? [])].some(
+    (field) => field.toLowerCase().includes(q)
+  );
+};
+
+const parseTags = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean)
+    )
+  );
+
+const PresetLibraryPanel: React.FC<PresetLibraryPanelProps> = ({
+  presets,
+  skipped,
+  onSave,
+  onApply,
+  onOverwrite,
+  onUpdate,
+  onDuplicate,
+  onDelete,
+  onImport,
+  onExport,
+}) => {
+  const [query, setQuery] = useState("");
+  const [folder, setFolder] = useState("");
+
+  const visible = presets.filter((p) => matches(p, query));
+  const folders = Array.from(new Set(visible.map((p) => p.folder ?? ""))).sort(
+    (a, b) => (a === "" ? 1 : b === "" ? -1 : a.localeCompare(b))
+  );
+  const knownFolders = Array.from(
+    new Set(presets.map((p) => p.folder ?? "").filter(Boolean))
+  ).sort();
+
+  const handleSave = () => {
+    const name = window.prompt("Preset name?", "Default layout");
+    if (!name) return;
+    onSave(name, folder.trim());
+  };
+
+  const handleRename = (preset: Preset) => {
+    const name = window.prompt("Rename preset", preset.name);
+    if (!name || name === preset.name) return;
+    onUpdate({ ...preset, name });
+  };
+
+  const handleMove = (preset: Preset) => {
+    const next = window.prompt(
+      "Folder (brand or campaign); leave empty for unfiled",
+      preset.folder ?? ""
+    );
+    if (next === null) return;
+    onUpdate({ ...preset, folder: next.trim() });
+  };
+
+  const handleTags = (preset: Preset) => {
+    const next = window.prompt(
+      "Tags, comma separated",
+      (preset.tags ?? []).join(", ")
+    );
+    if (next === null) return;
+    onUpdate({ ...preset, tags: parseTags(next) });
+  };
+
+  const handleOverwrite = (preset: Preset) => {
+    if (
+      window.confirm(`Overwrite "${preset.name}" with the current settings?`)
+    ) {
+      onOverwrite(preset);
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) onImport(file);
+  };
+
+  const iconButton =
+    "text-slate-400 hover:text-blue-600 disabled:opacity-40 shrink-0";
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <List size={14} /> Layout presets
+        <span className="ml-auto font-mono normal-case tracking-normal">
+          {presets.length}
+        </span>
+      </h2>
+
+      <div className="flex gap-1 mb-2">
+        <input
+          type="text"
+          list="preset-folders"
+          placeholder="Folder (optional)"
+          value={folder}
+          onChange={(e) => setFolder(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <datalist id="preset-folders">
+          {knownFolders.map((f) => (
+            <option key={f} value={f} />
+          ))}
+        </datalist>
+        <button
+          onClick={handleSave}
+          className="flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 active:scale-95"
+        >
+          <Save size={12} /> Save current
+        </button>
+      </div>
+
+      <div className="relative mb-2">
+        <Search
+          size={12}
+          className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400"
+        />
+        <input
+          type="search"
+          placeholder="Search name, folder or tag"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="w-full pl-6 pr-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      {skipped > 0 && (
+        <p className="text-[10px] text-amber-600 mb-2">
+          {skipped} damaged preset{skipped > 1 ? "s" : ""} could not be read and{" "}
+          {skipped > 1 ? "were" : "was"} hidden.
+        </p>
+      )}
+
+      {presets.length === 0 ? (
+        <p className="text-[11px] text-slate-400">
+          Save common layouts here per brand or campaign.
+        </p>
+      ) : visible.length === 0 ? (
+        <p className="text-[11px] text-slate-400">No presets match.</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {folders.map((f) => (
+            <div key={f || "(unfiled)"}>
+              <div className="text-[10px] font-bold text-slate-500 uppercase mb-1 flex items-center gap-1">
+                <Folder size={10} /> {f || "Unfiled"}
+              </div>
+              <div className="space-y-1">
+                {visible
+                  .filter((p) => (p.folder ?? "") === f)
+                  .map((p) => (
+                    <div
+                      key={p.id}
+                      className="text-[11px] bg-slate-50 border border-slate-100 rounded px-2 py-1"
+                    >
+                      <div className="flex items-center gap-1.5">
+                        <button
+                          onClick={() => onApply(p)}
+                          className="text-left flex-1 truncate hover:text-blue-600"
+                          title="Apply preset"
+                        >
+                          {p.name}
+                        </button>
+                        <button
+                          onClick={() => handleOverwrite(p)}
+                          className={iconButton}
+                          title="Overwrite with current settings"
+                        >
+                          <RefreshCw size={11} />
+                        </button>
+                        <button
+                          onClick={() => handleRename(p)}
+                          className={iconButton}
+                          title="Rename"
+                        >
+                          <Pencil size={11} />
+                        </button>
+                        <button
+                          onClick={() => onDuplicate(p)}
+                          className={iconButton}
+                          title="Duplicate"
+                        >
+                          <Copy size={11} />
+                        </button>
+                        <button
+                          onClick={() => handleMove(p)}
+                          className={iconButton}
+                          title="Move to folder"
+                        >
+                          <Folder size={11} />
+                        </button>
+                        <button
+                          onClick={() => handleTags(p)}
+                          className={iconButton}
+                          title="Edit tags"
+                        >
+                          <Tag size={11} />
+                        </button>
+                        <button
+                          onClick={() => onDelete(p)}
+                          className="text-slate-400 hover:text-red-500 shrink-0"
+                          title="Delete"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      {(p.tags ?? []).length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {(p.tags ?? []).map((t) => (
+                            <button
+                              key={t}
+                              onClick={() => setQuery(t)}
+                              className="px-1 rounded bg-slate-200 text-[9px] text-slate-600 hover:bg-slate-300"
+                            >
+                              {t}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 pt-3 mt-3 border-t border-slate-100">
+        <label className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-[10px] border border-slate-300 text-slate-600 hover:bg-slate-50 cursor-pointer">
+          <Upload size={10} /> Import JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </label>
+        <button
+          onClick={() => onExport(visible)}
+          disabled={visible.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-[10px] border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+          title={query ? "Exports the presets matching the search" : undefined}
+        >
+          <Download size={10} /> Export {query ? "matches" : "all"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PresetLibraryPanel;
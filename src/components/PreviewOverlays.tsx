@@ -0,0 +1,230 @@
+import React, { useState } from "react";
+import type { AdSize } from "../types";
+import {
+  constrainToAxis,
+  describeDistance,
+  rulerTicks,
+  snapPoint,
+} from "../lib/previewOverlays";
+import type { OverlaySettings, Point, SnapEdges } from "../lib/previewOverlays";
+
+// ---------- Preview Overlays ----------
+
+interface PreviewOverlaysProps {
+  size: AdSize;
+  settings: OverlaySettings;
+}
+
+const RULER = 12;
+const MEASURED = "img, h3, p, button";
+
+/** Edges of the ad's copy, image and CTA, relative to the overlay. */
+function collectEdges(overlay: HTMLElement, size: AdSize): SnapEdges {
+  const box = overlay.getBoundingClientRect();
+  const sx = size.w / box.width;
+  const sy = size.h / box.height;
+  const edges: SnapEdges = { x: [0, size.w], y: [0, size.h] };
+  overlay.parentElement?.querySelectorAll(MEASURED).forEach((el) => {
+    if (el.closest("[data-export-ignore]")) return;
+    const r = el.getBoundingClientRect();
+    edges.x.push((r.left - box.left) * sx, (r.right - box.left) * sx);
+    edges.y.push((r.top - box.top) * sy, (r.bottom - box.top) * sy);
+  });
+  return edges;
+}
+
+/** Safe area, grid, rulers and the measure tool over one AdCanvas. */
+const PreviewOverlays: React.FC<PreviewOverlaysProps> = ({
+  size,
+  settings,
+}) => {
+  const { w, h } = size;
+  const [line, setLine] = useState<{ from: Point; to: Point } | null>(null);
+  const [edges, setEdges] = useState<SnapEdges | null>(null);
+
+  const toAd = (e: React.PointerEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * w,
+      y: ((e.clientY - rect.top) / rect.height) * h,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const next = collectEdges(e.currentTarget, size);
+    const from = snapPoint(toAd(e), next);
+    setEdges(next);
+    setLine({ from, to: from });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!edges || !line) return;
+    const to = snapPoint(toAd(e), edges);
+    setLine({
+      from: line.from,
+      to: e.shiftKey ? constrainToAxis(line.from, to) : to,
+    });
+  };
+
+  const stopMeasuring = () => setEdges(null);
+
+  const { safeMarginX: mx, safeMarginY: my } = settings;
+  const showLine = settings.measure && line;
+
+  return (
+    <div
+      data-export-ignore
+      className={`absolute inset-0 z-30 ${
+        settings.measure ? "cursor-crosshair" : "pointer-events-none"
+      }`}
+      style={{ touchAction: settings.measure ? "none" : undefined }}
+      {...(settings.measure && {
+        onPointerDown: handlePointerDown,
+        onPointerMove: handlePointerMove,
+        onPointerUp: stopMeasuring,
+        onPointerCancel: stopMeasuring,
+      })}
+    >
+      <svg
+        width={w}
+        height={h}
+        viewBox={`0 0 ${w} ${h}`}
+        className="absolute inset-0 overflow-visible"
+        shapeRendering="crispEdges"
+      >
+        {settings.safeZone && (
+          <>
+            <path
+              d={`M0 0H${w}V${h}H0Z M${mx} ${my}V${h - my}H${w - mx}V${my}Z`}
+              fill="rgba(239,68,68,0.15)"
+              fillRule="evenodd"
+            />
+            <rect
+              x={mx}
+              y={my}
+              width={Math.max(0, w - mx * 2)}
+              height={Math.max(0, h - my * 2)}
+              fill="none"
+              stroke="#ef4444"
+              strokeDasharray="4 2"
+            />
+          </>
+        )}
+
+        {settings.grid && (
+          <g strokeWidth={1}>
+            {[1 / 3, 2 / 3].map((f) => (
+              <React.Fragment key={f}>
+                <line
+                  x1={w * f}
+                  x2={w * f}
+                  y1={0}
+                  y2={h}
+                  stroke="rgba(14,165,233,0.7)"
+                  strokeDasharray="3 3"
+                />
+                <line
+                  x1={0}
+                  x2={w}
+                  y1={h * f}
+                  y2={h * f}
+                  stroke="rgba(14,165,233,0.7)"
+                  strokeDasharray="3 3"
+                />
+              </React.Fragment>
+            ))}
+            <line
+              x1={w / 2}
+              x2={w / 2}
+              y1={0}
+              y2={h}
+              stroke="rgba(217,70,239,0.7)"
+            />
+            <line
+              x1={0}
+              x2={w}
+              y1={h / 2}
+              y2={h / 2}
+              stroke="rgba(217,70,239,0.7)"
+            />
+          </g>
+        )}
+
+        {settings.rulers && (
+          <g fontSize={7} fontFamily="monospace" fill="#334155">
+            <rect width={w} height={RULER} fill="rgba(255,255,255,0.85)" />
+            <rect width={RULER} height={h} fill="rgba(255,255,255,0.85)" />
+            {rulerTicks(w).map((t) => (
+              <React.Fragment key={`x${t.at}`}>
+                <line
+                  x1={t.at}
+                  x2={t.at}
+                  y1={0}
+                  y2={t.major ? RULER : 4}
+                  stroke="#64748b"
+                />
+                {t.major && (
+                  <text x={t.at + 2} y={RULER - 3}>
+                    {t.at}
+                  </text>
+                )}
+              </React.Fragment>
+            ))}
+            {rulerTicks(h).map((t) => (
+              <React.Fragment key={`y${t.at}`}>
+                <line
+                  x1={0}
+                  x2={t.major ? RULER : 4}
+                  y1={t.at}
+                  y2={t.at}
+                  stroke="#64748b"
+                />
+                {t.major && (
+                  <text
+                    x={RULER - 3}
+                    y={t.at + 2}
+                    transform={`rotate(-90 ${RULER - 3} ${t.at + 2})`}
+                  >
+                    {t.at}
+                  </text>
+                )}
+              </React.Fragment>
+            ))}
+          </g>
+        )}
+
+        {showLine && (
+          <g stroke="#f59e0b" fill="#f59e0b">
+            <line
+              x1={line.from.x}
+              y1={line.from.y}
+              x2={line.to.x}
+              y2={line.to.y}
+              strokeWidth={1}
+              shapeRendering="auto"
+            />
+            <circle cx={line.from.x} cy={line.from.y} r={2} />
+            <circle cx={line.to.x} cy={line.to.y} r={2} />
+          </g>
+        )}
+      </svg>
+
+      {showLine && (line.from.x !== line.to.x || line.from.y !== line.to.y) && (
+        <span
+          className="absolute -translate-x-1/2 -translate-y-full -mt-1 px-1 rounded bg-amber-500 text-white text-[9px] font-mono whitespace-nowrap pointer-events-none"
+          style={{
+            left: (line.from.x + line.to.x) / 2,
+            top: (line.from.y + line.to.y) / 2,
+          }}
+        >
+          {describeDistance(line.from, line.to)}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default PreviewOverlays;
@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import {
+  ClipboardCheck,
+  FileText,
+  MessageSquarePlus,
+  Printer,
+} from "lucide-react";
+import { REVIEW_STATUSES, countStatuses, reviewFor } from "../lib/sizeReview";
+import type { SizeReviews } from "../lib/sizeReview";
+import { downloadBlob } from "../lib/download";
+import type { CatalogSize } from "../lib/sizeCatalog";
+
+// ---------- QA Review Panel ----------
+
+interface QaReviewPanelProps {
+  sizes: CatalogSize[];
+  reviews: SizeReviews;
+  commentMode: boolean;
+  onCommentModeChange: (value: boolean) => void;
+  reviewer: string;
+  onReviewerChange: (value: string) => void;
+  /** Renders every size and returns the report HTML. */
+  buildReport: (generatedAt: Date) => Promise<string>;
+}
+
+const QaReviewPanel: React.FC<QaReviewPanelProps> = ({
+  sizes,
+  reviews,
+  commentMode,
+  onCommentModeChange,
+  reviewer,
+  onReviewerChange,
+  buildReport,
+}) => {
+  const [busy, setBusy] = useState(false);
+  const counts = countStatuses(
+    reviews,
+    sizes.map((s) => s.id)
+  );
+
+  const handleReport = async (format: "html" | "pdf") => {
+    // Popups opened after an await are blocked, so open it first.
+    const printWindow = format === "pdf" ? window.open("", "_blank") : null;
+    if (format === "pdf" && !printWindow) {
+      alert("Allow pop-ups for this page to print the report as PDF.");
+      return;
+    }
+    setBusy(true);
+    try {
+      const html = await buildReport(new Date());
+      if (printWindow) {
+        printWindow.document.write(html);
+        printWindow.document.close();
+        // Wait for the data-URL previews, or the PDF gets blank frames.
+        const print = () => {
+          printWindow.focus();
+          printWindow.print();
+        };
+        if (printWindow.document.readyState === "complete") print();
+        else printWindow.addEventListener("load", print, { once: true });
+      } else {
+        downloadBlob(
+          new Blob([html], { type: "text/html" }),
+          `qa-report-${Date.now()}.html`
+        );
+      }
+    } catch (err) {
+      console.error("Could not build QA report", err);
+      printWindow?.close();
+      alert("Could not build the report. Check console for details.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <ClipboardCheck size={14} /> QA review
+      </h2>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+            Reviewer
+          </label>
+          <input
+            type="text"
+            value={reviewer}
+            placeholder="Your name"
+            onChange={(e) => onReviewerChange(e.target.value)}
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+
+        <button
+          onClick={() => onCommentModeChange(!commentMode)}
+          className={`w-full flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs border active:scale-95 ${
+            commentMode
+              ? "border-blue-500 bg-blue-50 text-blue-700"
+              : "border-slate-300 text-slate-600 hover:bg-slate-50"
+          }`}
+        >
+          <MessageSquarePlus size={12} />
+          {commentMode ? "Click an ad to comment · done" : "Add comments"}
+        </button>
+
+        <div className="grid grid-cols-3 gap-1 text-center">
+          {REVIEW_STATUSES.map((s) => (
+            <div
+              key={s.value}
+              className="bg-slate-50 border border-slate-100 rounded px-1 py-1"
+            >
+              <div className="text-sm font-bold" style={{ color: s.color }}>
+                {counts[s.value]}
+              </div>
+              <div className="text-[9px] text-slate-500 uppercase">
+                {s.label}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-0.5 max-h-40 overflow-y-auto">
+          {sizes.map((spec) => {
+            const review = reviewFor(reviews, spec.id);
+            const status = REVIEW_STATUSES.find(
+              (s) => s.value === review.status
+            );
+            return (
+              <div
+                key={spec.id}
+                className="flex items-center gap-2 text-[11px] text-slate-600"
+              >
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: status?.color }}
+                  title={status?.label}
+                />
+                <span className="flex-1">{spec.label}</span>
+                {review.comments.length > 0 && (
+                  <span className="text-[10px] text-slate-400">
+                    {review.comments.length} comment
+                    {review.comments.length > 1 ? "s" : ""}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => handleReport("html")}
+            disabled={busy || !sizes.length}
+            className="flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 active:scale-95 disabled:opacity-50"
+          >
+            <FileText size={12} /> HTML report
+          </button>
+          <button
+            onClick={() => handleReport("pdf")}
+            disabled={busy || !sizes.length}
+            className="flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50 active:scale-95 disabled:opacity-50"
+            title="Opens the report and the print dialog; choose Save as PDF"
+          >
+            <Printer size={12} /> PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QaReviewPanel;
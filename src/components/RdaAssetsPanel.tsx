@@ -0,0 +1,262 @@
+import React, { useState } from "react";
+import { AlertTriangle, LayoutGrid, Plus } from "lucide-react";
+import CharCounter from "./CharCounter";
+import { googleLength, isOverLimit } from "../lib/copyLimits";
+import {
+  RDA_IMAGE_SLOTS,
+  RDA_LIMITS,
+  RDA_MAX_DESCRIPTIONS,
+  RDA_MAX_HEADLINES,
+  RDA_RATIO_TOLERANCE,
+} from "../lib/responsiveAds";
+import type { RdaAssets, RdaImageSlot } from "../lib/responsiveAds";
+import { loadImageSize, readFileAsDataUrl } from "../lib/files";
+
+// ---------- Responsive Display Ads Panel ----------
+
+interface RdaAssetsPanelProps {
+  value: RdaAssets;
+  onChange: (value: RdaAssets) => void;
+  samplesPerSize: number;
+  onSamplesPerSizeChange: (value: number) => void;
+}
+
+const inputClass = (isOver: boolean) =>
+  `w-full px-3 py-2 bg-white border rounded text-sm outline-none focus:ring-1 ${
+    isOver
+      ? "border-red-300 focus:ring-red-200 bg-red-50"
+      : "border-slate-200 focus:ring-blue-500"
+  }`;
+
+const TextList: React.FC<{
+  label: string;
+  items: string[];
+  max: number;
+  limit: number;
+  onChange: (items: string[]) => void;
+}> = ({ label, items, max, limit, onChange }) => (
+  <div>
+    <div className="flex items-center justify-between mb-1">
+      <label className="text-[10px] font-bold text-slate-500 uppercase">
+        {label} ({items.length}/{max})
+      </label>
+      {items.length < max && (
+        <button
+          onClick={() => onChange([...items, ""])}
+          className="text-slate-400 hover:text-blue-600"
+          title={`Add ${label.toLowerCase()}`}
+        >
+          <Plus size={12} />
+        </button>
+      )}
+    </div>
+    <div className="space-y-1">
+      {items.map((text, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) =>
+              onChange(items.map((t, j) => (j === i ? e.target.value : t)))
+            }
+            className={inputClass(isOverLimit(text, limit))}
+          />
+          <CharCounter current={googleLength(text)} max={limit} />
+          {items.length > 1 && (
+            <button
+              onClick={() => onChange(items.filter((_, j) => j !== i))}
+              className="text-slate-400 hover:text-red-500 text-[11px]"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const RdaAssetsPanel: React.FC<RdaAssetsPanelProps> = ({
+  value,
+  onChange,
+  samplesPerSize,
+  onSamplesPerSizeChange,
+}) => {
+  // Ratio warnings keyed by the image's data URL.
+  const [ratioWarnings, setRatioWarnings] = useState<Record<string, string>>(
+    {}
+  );
+
+  const update = (patch: Partial<RdaAssets>) =>
+    onChange({ ...value, ...patch });
+
+  const handleUpload = async (
+    slot: (typeof RDA_IMAGE_SLOTS)[number],
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const data = await readFileAsDataUrl(file);
+      const { width, height } = await loadImageSize(data);
+      const ratio = width / height;
+      if (Math.abs(ratio - slot.ratio) / slot.ratio > RDA_RATIO_TOLERANCE) {
+        setRatioWarnings((prev) => ({
+          ...prev,
+          [data]: `${width}x${height} is ${ratio.toFixed(2)}:1, expected ${
+            slot.ratio
+          }:1`,
+        }));
+      }
+      update({ [slot.id]: [...value[slot.id], data] });
+    } catch (err) {
+      console.error("Upload failed", err);
+      alert("Could not read that image.");
+    }
+  };
+
+  const removeImage = (slot: RdaImageSlot, index: number) =>
+    update({ [slot]: value[slot].filter((_, i) => i !== index) });
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <LayoutGrid size={14} /> Responsive display assets
+      </h2>
+
+      <div className="space-y-4">
+        <TextList
+          label="Headlines"
+          items={value.headlines}
+          max={RDA_MAX_HEADLINES}
+          limit={RDA_LIMITS.headline}
+          onChange={(headlines) => update({ headlines })}
+        />
+
+        <div>
+          <div className="flex justify-between mb-1">
+            <label className="text-[10px] font-bold text-slate-500 uppercase">
+              Long headline
+            </label>
+            <CharCounter
+              current={googleLength(value.longHeadline)}
+              max={RDA_LIMITS.longHeadline}
+            />
+          </div>
+          <input
+            type="text"
+            value={value.longHeadline}
+            onChange={(e) => update({ longHeadline: e.target.value })}
+            className={inputClass(
+              isOverLimit(value.longHeadline, RDA_LIMITS.longHeadline)
+            )}
+          />
+        </div>
+
+        <TextList
+          label="Descriptions"
+          items={value.descriptions}
+          max={RDA_MAX_DESCRIPTIONS}
+          limit={RDA_LIMITS.description}
+          onChange={(descriptions) => update({ descriptions })}
+        />
+
+        <div>
+          <div className="flex justify-between mb-1">
+            <label className="text-[10px] font-bold text-slate-500 uppercase">
+              Business name
+            </label>
+            <CharCounter
+              current={googleLength(value.businessName)}
+              max={RDA_LIMITS.businessName}
+            />
+          </div>
+          <input
+            type="text"
+            value={value.businessName}
+            onChange={(e) => update({ businessName: e.target.value })}
+            className={inputClass(
+              isOverLimit(value.businessName, RDA_LIMITS.businessName)
+            )}
+          />
+        </div>
+
+        <div className="pt-2 mt-2 border-t border-slate-100 space-y-3">
+          {RDA_IMAGE_SLOTS.map((slot) => (
+            <div key={slot.id}>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-[10px] font-bold text-slate-500 uppercase">
+                  {slot.label}
+                </span>
+                <span className="text-[10px] text-slate-400">
+                  {value[slot.id].length}/{slot.max}
+                </span>
+              </div>
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {value[slot.id].map((img, i) => (
+                  <div key={i} className="relative shrink-0">
+                    <img
+                      src={img}
+                      alt={`${slot.label} ${i + 1}`}
+                      title={ratioWarnings[img]}
+                      className={`h-10 object-contain bg-slate-50 border rounded ${
+                        ratioWarnings[img]
+                          ? "border-amber-400"
+                          : "border-slate-200"
+                      }`}
+                      style={{ width: Math.min(40 * slot.ratio, 120) }}
+                    />
+                    {ratioWarnings[img] && (
+                      <AlertTriangle
+                        size={10}
+                        className="absolute bottom-0.5 left-0.5 text-amber-500"
+                      />
+                    )}
+                    <button
+                      onClick={() => removeImage(slot.id, i)}
+                      className="absolute -top-1 -right-1 bg-white rounded-full text-[9px] text-slate-400 hover:text-red-500 border border-slate-200 w-4 h-4 leading-none"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                {value[slot.id].length < slot.max && (
+                  <label className="h-10 w-10 shrink-0 border border-dashed border-slate-300 rounded flex items-center justify-center text-slate-400 hover:bg-slate-50 cursor-pointer">
+                    <Plus size={12} />
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg,image/gif"
+                      onChange={(e) => handleUpload(slot, e)}
+                      className="hidden"
+                    />
+                  </label>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between pt-2 mt-2 border-t border-slate-100">
+          <label className="text-[10px] font-bold text-slate-500 uppercase">
+            Sample combinations per size
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={6}
+            value={samplesPerSize}
+            onChange={(e) =>
+              onSamplesPerSizeChange(
+                Math.min(6, Math.max(1, parseInt(e.target.value, 10) || 1))
+              )
+            }
+            className="w-14 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RdaAssetsPanel;
@@ -0,0 +1,94 @@
+import React from "react";
+import { CheckCircle2, Eye, ImagePlus, Pencil, XCircle } from "lucide-react";
+import type { SharedImage } from "../lib/shareLink";
+
+// ---------- Review Banner ----------
+
+interface ReviewBannerProps {
+  images: SharedImage[];
+  /** Whether each shared image has been embedded or loaded. */
+  loaded: boolean[];
+  preset: string | null;
+  onLoadFiles: (files: File[]) => void;
+  onExit: () => void;
+}
+
+const ReviewBanner: React.FC<ReviewBannerProps> = ({
+  images,
+  loaded,
+  preset,
+  onLoadFiles,
+  onExit,
+}) => {
+  const missing = loaded.filter((ok) => !ok).length;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-blue-200 space-y-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Eye size={14} className="text-blue-600" />
+        <span className="text-sm font-semibold text-slate-800">
+          Review mode
+        </span>
+        <span className="text-xs text-slate-500">
+          Read-only preview shared by link
+          {preset && (
+            <>
+              {" "}
+              · preset <span className="font-semibold">{preset}</span>
+            </>
+          )}
+        </span>
+        <button
+          onClick={onExit}
+          className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50 active:scale-95"
+          title="Leave review mode and edit this state"
+        >
+          <Pencil size={12} /> Edit a copy
+        </button>
+      </div>
+
+      {images.length > 0 && (
+        <div className="flex items-start gap-3 flex-wrap">
+          <div className="flex flex-wrap gap-1 flex-1">
+            {images.map((img, idx) => (
+              <span
+                key={idx}
+                className={`flex items-center gap-1 text-[11px] font-mono rounded px-1.5 py-0.5 border ${
+                  loaded[idx]
+                    ? "bg-green-50 border-green-200 text-green-700"
+                    : "bg-amber-50 border-amber-200 text-amber-700"
+                }`}
+              >
+                {loaded[idx] ? (
+                  <CheckCircle2 size={10} />
+                ) : (
+                  <XCircle size={10} />
+                )}
+                {img.name}
+                {img.data && " (embedded)"}
+              </span>
+            ))}
+          </div>
+          {missing > 0 && (
+            <label className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 cursor-pointer">
+              <ImagePlus size={12} /> Load {missing} image
+              {missing > 1 ? "s" : ""}
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => {
+                  onLoadFiles(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+                className="hidden"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewBanner;
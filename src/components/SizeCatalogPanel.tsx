@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import { Plus, Ruler } from "lucide-react";
+import {
+  SIZE_GROUPS,
+  addCustomSize,
+  allSizes,
+  removeCustomSize,
+  toggleSize,
+} from "../lib/sizeCatalog";
+import type { SizeCatalogState } from "../lib/sizeCatalog";
+
+// ---------- Size Catalog Panel ----------
+
+interface SizeCatalogPanelProps {
+  value: SizeCatalogState;
+  onChange: (value: SizeCatalogState) => void;
+}
+
+const SizeCatalogPanel: React.FC<SizeCatalogPanelProps> = ({
+  value,
+  onChange,
+}) => {
+  const [label, setLabel] = useState("");
+  const [w, setW] = useState("");
+  const [h, setH] = useState("");
+
+  const sizes = allSizes(value);
+  const width = parseInt(w, 10);
+  const height = parseInt(h, 10);
+  const canAdd = label.trim() !== "" && width > 0 && height > 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onChange(
+      addCustomSize(value, { label: label.trim(), w: width, h: height })
+    );
+    setLabel("");
+    setW("");
+    setH("");
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Ruler size={14} /> Ad sizes
+        <span className="ml-auto font-mono normal-case tracking-normal">
+          {value.enabled.length}/{sizes.length}
+        </span>
+      </h2>
+
+      <div className="space-y-3 max-h-72 overflow-y-auto">
+        {SIZE_GROUPS.map((group) => {
+          const inGroup = sizes.filter((s) => s.group === group.id);
+          if (!inGroup.length) return null;
+          return (
+            <div key={group.id}>
+              <div className="text-[10px] font-bold text-slate-500 uppercase mb-1">
+                {group.label}
+              </div>
+              <div className="space-y-0.5">
+                {inGroup.map((s) => (
+                  <label
+                    key={s.id}
+                    className="flex items-center gap-2 text-[11px] text-slate-600"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={value.enabled.includes(s.id)}
+                      onChange={() => onChange(toggleSize(value, s.id))}
+                      className="accent-blue-600"
+                    />
+                    <span className="flex-1">{s.label}</span>
+                    <span className="font-mono text-slate-400">
+                      {s.w}x{s.h}
+                    </span>
+                    {s.group === "custom" && (
+                      <button
+                        onClick={() => onChange(removeCustomSize(value, s.id))}
+                        className="text-slate-400 hover:text-red-500"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </label>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="pt-3 mt-3 border-t border-slate-100">
+        <label className="block text-[10px] font-bold text-slate-400 mb-2 uppercase">
+          Add custom size
+        </label>
+        <div className="flex gap-1">
+          <input
+            type="text"
+            placeholder="Label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <input
+            type="number"
+            placeholder="W"
+            min={1}
+            value={w}
+            onChange={(e) => setW(e.target.value)}
+            className="w-14 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <input
+            type="number"
+            placeholder="H"
+            min={1}
+            value={h}
+            onChange={(e) => setH(e.target.value)}
+            className="w-14 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="px-2 py-1 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 active:scale-95 disabled:opacity-50"
+          >
+            <Plus size={12} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SizeCatalogPanel;
@@ -0,0 +1,124 @@
+import React from "react";
+import { AlertTriangle, CheckCircle2, WrapText } from "lucide-react";
+import { describeOverflow } from "../lib/textFit";
+import type { TextFitSettings, TextOverflowEntry } from "../lib/textFit";
+
+// ---------- Text Fit Panel ----------
+
+interface TextFitPanelProps {
+  value: TextFitSettings;
+  onChange: (value: TextFitSettings) => void;
+  /** Cards whose copy is currently clipped, keyed by card. */
+  issues: Record<string, TextOverflowEntry>;
+}
+
+const TextFitPanel: React.FC<TextFitPanelProps> = ({
+  value,
+  onChange,
+  issues,
+}) => {
+  const update = (patch: Partial<TextFitSettings>) =>
+    onChange({ ...value, ...patch });
+  const entries = Object.entries(issues);
+
+  return (
+    <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <WrapText size={14} /> Text fit
+      </h2>
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={value.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Auto-fit copy to each size
+        </label>
+
+        {value.enabled && (
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+                Min headline px
+              </label>
+              <input
+                type="number"
+                min={6}
+                max={value.maxPx}
+                value={value.minPx}
+                onChange={(e) =>
+                  update({
+                    minPx: Math.min(
+                      value.maxPx,
+                      Math.max(6, parseInt(e.target.value, 10) || 6)
+                    ),
+                  })
+                }
+                className="w-full px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+                Max headline px
+              </label>
+              <input
+                type="number"
+                min={value.minPx}
+                max={48}
+                value={value.maxPx}
+                onChange={(e) =>
+                  update({
+                    maxPx: Math.max(
+                      value.minPx,
+                      Math.min(48, parseInt(e.target.value, 10) || value.minPx)
+                    ),
+                  })
+                }
+                className="w-full px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="flex items-center gap-1 text-[11px] text-green-700">
+            <CheckCircle2 size={12} /> All copy fits in every size
+          </p>
+        ) : (
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {entries.map(([key, entry]) => (
+              <div
+                key={key}
+                className="flex items-start gap-1 text-[11px] text-slate-600 bg-amber-50 border border-amber-100 rounded px-2 py-1"
+              >
+                <AlertTriangle
+                  size={12}
+                  className="text-amber-500 shrink-0 mt-0.5"
+                />
+                <span className="flex-1">
+                  {entry.label}{" "}
+                  <span className="font-mono text-slate-400">
+                    {entry.size.w}x{entry.size.h}
+                  </span>
+                  {entry.caption && (
+                    <span className="block text-[10px] text-slate-400">
+                      {entry.caption}
+                    </span>
+                  )}
+                </span>
+                <span className="text-[10px] text-amber-700">
+                  {describeOverflow(entry.overflow)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TextFitPanel;
@@ -0,0 +1,237 @@
+import React, { useState } from "react";
+import { Ban, FileArchive, Grid3x3, Pin } from "lucide-react";
+import {
+  MATRIX_MAX_CELLS,
+  describeCell,
+  parseLines,
+} from "../lib/variantMatrix";
+import type { CellStatus, MatrixCell, MatrixCopy } from "../lib/variantMatrix";
+import type {
+  BatchExportProgress,
+  BatchExportResult,
+} from "../lib/batchExport";
+import { downloadBlob } from "../lib/download";
+import type { CatalogSize } from "../lib/sizeCatalog";
+
+// ---------- Variant Matrix View ----------
+
+interface VariantMatrixViewProps {
+  copy: MatrixCopy;
+  onCopyChange: (copy: MatrixCopy) => void;
+  cells: MatrixCell[];
+  sizes: CatalogSize[];
+  sizeId: string;
+  onSizeChange: (id: string) => void;
+  statuses: Record<string, CellStatus>;
+  onStatusChange: (key: string, status: CellStatus | null) => void;
+  renderPreview: (cell: MatrixCell, spec: CatalogSize) => React.ReactNode;
+  /** Renders the given cells across every selected size into a ZIP. */
+  onExport: (
+    cells: MatrixCell[],
+    onProgress: (progress: BatchExportProgress) => void
+  ) => Promise<BatchExportResult>;
+}
+
+// Cells are scaled down to fit this width.
+const CELL_WIDTH = 280;
+
+const COPY_FIELDS: { key: keyof MatrixCopy; label: string }[] = [
+  { key: "headlines", label: "Headlines" },
+  { key: "subheads", label: "Subheads" },
+  { key: "ctas", label: "CTAs" },
+];
+
+const VariantMatrixView: React.FC<VariantMatrixViewProps> = ({
+  copy,
+  onCopyChange,
+  cells,
+  sizes,
+  sizeId,
+  onSizeChange,
+  statuses,
+  onStatusChange,
+  renderPreview,
+  onExport,
+}) => {
+  // Raw text keeps blank lines while typing; the parsed lists drop them.
+  const [drafts, setDrafts] = useState<Record<keyof MatrixCopy, string>>({
+    headlines: copy.headlines.join("\n"),
+    subheads: copy.subheads.join("\n"),
+    ctas: copy.ctas.join("\n"),
+  });
+  const [hideRejected, setHideRejected] = useState(false);
+  const [progress, setProgress] = useState<BatchExportProgress | null>(null);
+
+  const spec = sizes.find((s) => s.id === sizeId) ?? sizes[0];
+  const pinned = cells.filter((c) => statuses[c.key] === "pinned");
+  const rejected = cells.filter((c) => statuses[c.key] === "rejected");
+  const shown = cells
+    .filter((c) => !hideRejected || statuses[c.key] !== "rejected")
+    .slice(0, MATRIX_MAX_CELLS);
+
+  const handleDraft = (key: keyof MatrixCopy, text: string) => {
+    setDrafts((prev) => ({ ...prev, [key]: text }));
+    onCopyChange({ ...copy, [key]: parseLines(text) });
+  };
+
+  const toggle = (cell: MatrixCell, status: CellStatus) =>
+    onStatusChange(cell.key, statuses[cell.key] === status ? null : status);
+
+  const handleExport = async () => {
+    if (!pinned.length) return;
+    setProgress({ done: 0, total: pinned.length * sizes.length, current: "" });
+    try {
+      const result = await onExport(pinned, setProgress);
+      downloadBlob(result.zip, `approved-combinations-${Date.now()}.zip`);
+      if (result.failures.length) {
+        alert(
+          `${result.failures.length} render(s) failed; see the manifest in the ZIP.`
+        );
+      }
+    } catch (err) {
+      console.error("Matrix export failed", err);
+      alert("Could not build the ZIP. Check console for details.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+          <Grid3x3 size={14} /> Variant matrix
+          <span className="ml-auto font-mono normal-case tracking-normal">
+            {cells.length} combinations · {pinned.length} pinned ·{" "}
+            {rejected.length} rejected
+          </span>
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {COPY_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">
+                {label}{" "}
+                <span className="normal-case font-normal text-slate-400">
+                  (one per line)
+                </span>
+              </label>
+              <textarea
+                rows={4}
+                value={drafts[key]}
+                onChange={(e) => handleDraft(key, e.target.value)}
+                placeholder="Empty uses the Copy panel"
+                className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500 resize-y"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-3 mt-3">
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            Preview size
+            <select
+              value={spec?.id ?? ""}
+              onChange={(e) => onSizeChange(e.target.value)}
+              className="px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {sizes.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label} ({s.w}x{s.h})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={hideRejected}
+              onChange={(e) => setHideRejected(e.target.checked)}
+              className="accent-blue-600"
+            />
+            Hide rejected
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={!pinned.length || !sizes.length || progress !== null}
+            className="ml-auto flex items-center gap-1 px-3 py-1.5 rounded text-xs bg-slate-900 text-white hover:bg-slate-800 active:scale-95 disabled:opacity-50"
+          >
+            <FileArchive size={12} />
+            {progress
+              ? `Exporting ${progress.done}/${progress.total}…`
+              : `Export ${pinned.length} pinned as PNG (all sizes)`}
+          </button>
+        </div>
+        {cells.length > MATRIX_MAX_CELLS && (
+          <p className="text-[10px] text-amber-600 mt-2">
+            Showing the first {MATRIX_MAX_CELLS} of {cells.length} combinations.
+          </p>
+        )}
+      </div>
+
+      {!spec ? (
+        <p className="text-xs text-slate-400">
+          No sizes selected. Turn some on under Ad sizes.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-4">
+          {shown.map((cell) => {
+            const status = statuses[cell.key];
+            const scale = Math.min(1, CELL_WIDTH / spec.w);
+            return (
+              <div
+                key={cell.key}
+                className={`bg-slate-100 p-3 rounded-lg border flex flex-col gap-2 ${
+                  status === "pinned"
+                    ? "border-blue-400 ring-1 ring-blue-300"
+                    : "border-slate-200"
+                } ${status === "rejected" ? "opacity-40" : ""}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-[10px] text-slate-500 font-mono">
+                    {describeCell(cell, copy)}
+                  </span>
+                  <button
+                    onClick={() => toggle(cell, "pinned")}
+                    className={
+                      status === "pinned"
+                        ? "text-blue-600"
+                        : "text-slate-400 hover:text-blue-600"
+                    }
+                    title="Pin (approve)"
+                  >
+                    <Pin size={12} />
+                  </button>
+                  <button
+                    onClick={() => toggle(cell, "rejected")}
+                    className={
+                      status === "rejected"
+                        ? "text-red-600"
+                        : "text-slate-400 hover:text-red-600"
+                    }
+                    title="Reject"
+                  >
+                    <Ban size={12} />
+                  </button>
+                </div>
+                <div
+                  className="overflow-hidden"
+                  style={{ width: spec.w * scale, height: spec.h * scale }}
+                >
+                  <div
+                    style={{
+                      transform: `scale(${scale})`,
+                      transformOrigin: "top left",
+                    }}
+                  >
+                    {renderPreview(cell, spec)}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantMatrixView;
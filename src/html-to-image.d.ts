@@ -1,11 +1,18 @@
 // src/html-to-image.d.ts
 declare module "html-to-image" {
-  export function toPng(
+  interface Options {
+    cacheBust?: boolean;
+    pixelRatio?: number;
+    canvasWidth?: number;
+    canvasHeight?: number;
+    filter?: (node: Node) => boolean;
+    [key: string]: unknown;
+  }
+
+  export function toPng(node: HTMLElement, options?: Options): Promise<string>;
+
+  export function toCanvas(
     node: HTMLElement,
-    options?: {
-      cacheBust?: boolean;
-      pixelRatio?: number;
-      [key: string]: unknown;
-    }
-  ): Promise<string>;
+    options?: Options
+  ): Promise<HTMLCanvasElement>;
 }
@@ -0,0 +1,51 @@
+// ---------- GIF byte fixtures ----------
+
+export const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+const u16 = (n: number) => [n & 0xff, n >> 8];
+
+/** Header and logical screen with a 2-colour global colour table. */
+export const HEAD = [
+  ...ascii("GIF89a"),
+  ...u16(1),
+  ...u16(1),
+  0x80,
+  0,
+  0,
+  ...[0, 0, 0, 255, 255, 255],
+];
+export const loop = (count: number) => [
+  0x21,
+  0xff,
+  0x0b,
+  ...ascii("NETSCAPE2.0"),
+  0x03,
+  0x01,
+  ...u16(count),
+  0x00,
+];
+export const frame = (delayCs: number) => [
+  // Graphic Control Extension
+  0x21,
+  0xf9,
+  0x04,
+  0x00,
+  ...u16(delayCs),
+  0x00,
+  0x00,
+  // Image descriptor, no local colour table, one LZW sub-block
+  0x2c,
+  ...u16(0),
+  ...u16(0),
+  ...u16(1),
+  ...u16(1),
+  0x00,
+  0x02,
+  0x02,
+  0x4c,
+  0x01,
+  0x00,
+];
+export const TRAILER = [0x3b];
+
+/** Concatenates GIF blocks into a file. */
+export const gif = (...parts: number[][]) => new Uint8Array(parts.flat());
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  ADS_EDITOR_COLUMNS,
+  IMAGE_AD_MAX_KB,
+  imageAdExportSettings,
+  rowsToCsv,
+  validateRdaAssets,
+} from "./adsEditorExport";
+import { EMPTY_RDA_ASSETS } from "./responsiveAds";
+import type { RdaAssets } from "./responsiveAds";
+
+const assets = (patch: Partial<RdaAssets> = {}): RdaAssets => ({
+  ...EMPTY_RDA_ASSETS,
+  headlines: ["Fresh coffee"],
+  longHeadline: "Fresh coffee delivered to your door every week",
+  descriptions: ["Roasted to order and shipped the same day."],
+  businessName: "Bean Co",
+  landscapeImages: ["data:image/png;base64,AAAA"],
+  squareImages: ["data:image/png;base64,AAAA"],
+  ...patch,
+});
+
+describe("rowsToCsv", () => {
+  it("writes the Ads Editor header and one line per row", () => {
+    const lines = rowsToCsv([
+      { Campaign: "Spring", "Ad type": "Image ad", Image: "a.png" },
+    ]).split("\r\n");
+    expect(lines[0]).toBe(ADS_EDITOR_COLUMNS.join(","));
+    const cells = lines[1].split(",");
+    expect(cells).toHaveLength(ADS_EDITOR_COLUMNS.length);
+    expect(cells[ADS_EDITOR_COLUMNS.indexOf("Campaign")]).toBe("Spring");
+    expect(cells[ADS_EDITOR_COLUMNS.indexOf("Image")]).toBe("a.png");
+    expect(cells[ADS_EDITOR_COLUMNS.indexOf("Ad group")]).toBe("");
+  });
+
+  it("quotes cells with commas", () => {
+    const [, line] = rowsToCsv([{ "Headline 1": "Fast, fresh" }]).split("\r\n");
+    expect(line).toContain('"Fast, fresh"');
+  });
+});
+
+describe("validateRdaAssets", () => {
+  it("accepts a complete set", () => {
+    expect(validateRdaAssets(assets())).toEqual([]);
+  });
+
+  it("needs a landscape and a square image", () => {
+    expect(
+      validateRdaAssets(assets({ landscapeImages: [], squareImages: [] }))
+    ).toEqual([
+      "Add at least one landscape image",
+      "Add at least one square image",
+    ]);
+  });
+
+  it("counts wide characters twice against the limits", () => {
+    expect(
+      validateRdaAssets(assets({ headlines: ["コーヒー".repeat(4)] }))
+    ).toEqual(["Headline 1 is 32/30 characters"]);
+    expect(validateRdaAssets(assets({ businessName: "b".repeat(26) }))).toEqual(
+      ["Business name is 26/25 characters"]
+    );
+  });
+});
+
+describe("imageAdExportSettings", () => {
+  it("forces exact size and caps the budget", () => {
+    expect(
+      imageAdExportSettings({ format: "jpeg", maxKB: 0, exactSize: false })
+    ).toEqual({ format: "jpeg", maxKB: IMAGE_AD_MAX_KB, exactSize: true });
+    expect(
+      imageAdExportSettings({ format: "png", maxKB: 80, exactSize: false })
+        .maxKB
+    ).toBe(80);
+  });
+
+  it("replaces WebP with PNG", () => {
+    expect(
+      imageAdExportSettings({ format: "webp", maxKB: 150, exactSize: true })
+        .format
+    ).toBe("png");
+  });
+});
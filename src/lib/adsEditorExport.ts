@@ -0,0 +1,276 @@
+import JSZip from "jszip";
+import { csvCell, runBatchExport } from "./batchExport";
+import type {
+  BatchExportJob,
+  BatchExportProgress,
+  JobRenderer,
+  ManifestEntry,
+} from "./batchExport";
+import { COPY_LIMITS, googleLength } from "./copyLimits";
+import type {
+  ImageExportResult,
+  ImageExportSettings,
+  ImageFormat,
+} from "./imageExport";
+import type { LocaleCopy } from "./locales";
+import { RDA_LIMITS } from "./responsiveAds";
+import type { RdaAssets, RdaImageSlot } from "./responsiveAds";
+
+// ---------- Types ----------
+
+/** Where the ads go in Google Ads Editor. */
+export interface AdsEditorTarget {
+  campaign: string;
+  adGroup: string;
+  finalUrl: string;
+}
+
+export const EMPTY_ADS_EDITOR_TARGET: AdsEditorTarget = {
+  campaign: "",
+  adGroup: "",
+  finalUrl: "",
+};
+
+const numbered = (name: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `${name} ${i + 1}`);
+
+/** Column headers Google Ads Editor maps on import. */
+export const ADS_EDITOR_COLUMNS = [
+  "Campaign",
+  "Ad group",
+  "Ad type",
+  "Ad name",
+  ...numbered("Headline", 5),
+  "Long headline",
+  ...numbered("Description", 5),
+  "Business name",
+  "Final URL",
+  "Image",
+  "Marketing images",
+  "Square marketing images",
+  "Logos",
+  "Landscape logos",
+] as const;
+
+export type AdsEditorColumn = (typeof ADS_EDITOR_COLUMNS)[number];
+export type AdsEditorRow = Partial<Record<AdsEditorColumn, string>>;
+
+const CSV_NAME = "ads-editor.csv";
+
+/** Google Ads rejects uploaded image ads over this size. */
+export const IMAGE_AD_MAX_KB = 150;
+const IMAGE_AD_FORMATS: ImageFormat[] = ["png", "jpeg", "gif"];
+
+/**
+ * The user's export settings, narrowed to what Google Ads accepts: exact
+ * pixel size, PNG/JPEG/GIF (WebP falls back to PNG) and at most 150 KB.
+ */
+export function imageAdExportSettings(
+  settings: ImageExportSettings
+): ImageExportSettings {
+  return {
+    format: IMAGE_AD_FORMATS.includes(settings.format)
+      ? settings.format
+      : "png",
+    maxKB:
+      settings.maxKB > 0
+        ? Math.min(settings.maxKB, IMAGE_AD_MAX_KB)
+        : IMAGE_AD_MAX_KB,
+    exactSize: true,
+  };
+}
+
+// ---------- Validation ----------
+
+function checkLength(
+  errors: string[],
+  label: string,
+  text: string,
+  max: number
+) {
+  const length = googleLength(text);
+  if (length > max) errors.push(`${label} is ${length}/${max} characters`);
+}
+
+export function validateTarget(target: AdsEditorTarget): string[] {
+  const errors: string[] = [];
+  if (!target.campaign.trim()) errors.push("Campaign is empty");
+  if (!target.adGroup.trim()) errors.push("Ad group is empty");
+  try {
+    const url = new URL(target.finalUrl);
+    if (!/^https?:$/.test(url.protocol)) throw new Error(url.protocol);
+  } catch {
+    errors.push("Final URL must be a full http(s) address");
+  }
+  return errors;
+}
+
+/** Static copy is baked into the images; CharCounter's limits still apply. */
+export function validateStaticCopy(copy: LocaleCopy): string[] {
+  const errors: string[] = [];
+  if (!copy.headline.trim()) errors.push("Headline is empty");
+  checkLength(errors, "Headline", copy.headline, COPY_LIMITS.headline);
+  checkLength(errors, "Subhead", copy.subhead, COPY_LIMITS.subhead);
+  checkLength(errors, "CTA", copy.cta, COPY_LIMITS.cta);
+  return errors;
+}
+
+const filled = (list: string[]) => list.map((t) => t.trim()).filter(Boolean);
+
+export function validateRdaAssets(assets: RdaAssets): string[] {
+  const errors: string[] = [];
+  const headlines = filled(assets.headlines);
+  const descriptions = filled(assets.descriptions);
+  if (!headlines.length) errors.push("Add at least one headline");
+  if (!assets.longHeadline.trim()) errors.push("Long headline is empty");
+  if (!descriptions.length) errors.push("Add at least one description");
+  if (!assets.businessName.trim()) errors.push("Business name is empty");
+  if (!assets.landscapeImages.length) {
+    errors.push("Add at least one landscape image");
+  }
+  if (!assets.squareImages.length) {
+    errors.push("Add at least one square image");
+  }
+  headlines.forEach((h, i) =>
+    checkLength(errors, `Headline ${i + 1}`, h, RDA_LIMITS.headline)
+  );
+  checkLength(
+    errors,
+    "Long headline",
+    assets.longHeadline,
+    RDA_LIMITS.longHeadline
+  );
+  descriptions.forEach((d, i) =>
+    checkLength(errors, `Description ${i + 1}`, d, RDA_LIMITS.description)
+  );
+  checkLength(
+    errors,
+    "Business name",
+    assets.businessName,
+    RDA_LIMITS.businessName
+  );
+  return errors;
+}
+
+// ---------- CSV ----------
+
+export function rowsToCsv(rows: AdsEditorRow[]): string {
+  const lines = rows.map((row) =>
+    ADS_EDITOR_COLUMNS.map((col) => csvCell(row[col])).join(",")
+  );
+  return [ADS_EDITOR_COLUMNS.join(","), ...lines].join("\r\n");
+}
+
+const targetColumns = (target: AdsEditorTarget): AdsEditorRow => ({
+  Campaign: target.campaign.trim(),
+  "Ad group": target.adGroup.trim(),
+  "Final URL": target.finalUrl.trim(),
+});
+
+// ---------- Packages ----------
+
+/**
+ * Renders every job as an uploaded image ad and writes one CSV row per file
+ * that rendered. The file names in the CSV are the paths in the ZIP. Throws
+ * when any file is still over IMAGE_AD_MAX_KB, since Ads Editor would reject
+ * the whole upload.
+ */
+export async function buildImageAdPackage(
+  target: AdsEditorTarget,
+  jobs: BatchExportJob[],
+  render: (
+    job: BatchExportJob,
+    settings: ImageExportSettings
+  ) => Promise<ImageExportResult>,
+  settings: ImageExportSettings,
+  onProgress?: (progress: BatchExportProgress) => void
+): Promise<Blob> {
+  const adSettings = imageAdExportSettings(settings);
+  const renderAd: JobRenderer = (job) => render(job, adSettings);
+  const result = await runBatchExport(
+    jobs,
+    renderAd,
+    {
+      folderLayout: "flat",
+      fileNamePattern: "{label}-{size}-v{variant}",
+      manifestFormat: "json",
+    },
+    onProgress
+  );
+  const rendered = result.entries.filter(
+    (e): e is ManifestEntry & { file: string } => e.file !== null
+  );
+  const oversized = rendered.filter(
+    (e) => (e.bytes ?? 0) > IMAGE_AD_MAX_KB * 1024
+  );
+  if (oversized.length) {
+    throw new Error(
+      `Over ${IMAGE_AD_MAX_KB} KB: ${oversized.map((e) => e.file).join(", ")}`
+    );
+  }
+  const rows: AdsEditorRow[] = rendered.map((e) => ({
+    ...targetColumns(target),
+    "Ad type": "Image ad",
+    "Ad name": `${e.label} ${e.size} v${e.variant}`,
+    Image: e.file,
+  }));
+  const zip = await JSZip.loadAsync(result.zip);
+  zip.file(CSV_NAME, rowsToCsv(rows));
+  return zip.generateAsync({ type: "blob" });
+}
+
+const SLOT_FILES: {
+  slot: RdaImageSlot;
+  prefix: string;
+  column: AdsEditorColumn;
+}[] = [
+  { slot: "landscapeImages", prefix: "landscape", column: "Marketing images" },
+  {
+    slot: "squareImages",
+    prefix: "square",
+    column: "Square marketing images",
+  },
+  { slot: "squareLogos", prefix: "logo", column: "Logos" },
+  { slot: "wideLogos", prefix: "logo-wide", column: "Landscape logos" },
+];
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/** One responsive display ad row plus the asset files it names. */
+export async function buildRdaPackage(
+  target: AdsEditorTarget,
+  assets: RdaAssets
+): Promise<Blob> {
+  const zip = new JSZip();
+  const row: AdsEditorRow = {
+    ...targetColumns(target),
+    "Ad type": "Responsive display ad",
+    "Long headline": assets.longHeadline.trim(),
+    "Business name": assets.businessName.trim(),
+  };
+  filled(assets.headlines).forEach((h, i) => {
+    row[`Headline ${i + 1}` as AdsEditorColumn] = h;
+  });
+  filled(assets.descriptions).forEach((d, i) => {
+    row[`Description ${i + 1}` as AdsEditorColumn] = d;
+  });
+
+  for (const { slot, prefix, column } of SLOT_FILES) {
+    const names: string[] = [];
+    for (let i = 0; i < assets[slot].length; i++) {
+      const blob = await (await fetch(assets[slot][i])).blob();
+      const name = `${prefix}-${i + 1}.${MIME_EXTENSIONS[blob.type] ?? "png"}`;
+      zip.file(name, blob);
+      names.push(name);
+    }
+    if (names.length) row[column] = names.join(";");
+  }
+
+  zip.file(CSV_NAME, rowsToCsv([row]));
+  return zip.generateAsync({ type: "blob" });
+}
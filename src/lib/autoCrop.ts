@@ -0,0 +1,108 @@
+import type { ImageFocus } from "../types";
+
+// ---------- Types ----------
+
+interface Dimensions {
+  w: number;
+  h: number;
+}
+
+export interface AutoCropResult {
+  scale: number;
+  offset: { x: number; y: number };
+  /** Rendered (pre-scale) image size inside the slot. */
+  display: Dimensions;
+}
+
+export const DEFAULT_FOCUS: ImageFocus = { x: 0.5, y: 0.5, keep: null };
+
+// ---------- Geometry ----------
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Places the image's centre point `pos` (0–1) inside a slot of `slotLength`
+ * while keeping the slot covered and, if possible, the keep range visible.
+ */
+function solveAxis(
+  displayLength: number,
+  slotLength: number,
+  scale: number,
+  focus: number,
+  keep: [number, number] | null
+): number {
+  const scaled = displayLength * scale;
+  let offset = -(focus - 0.5) * scaled;
+
+  // Don't reveal the slot background past either image edge.
+  const slack = Math.max(0, (scaled - slotLength) / 2);
+  offset = clamp(offset, -slack, slack);
+
+  if (keep) {
+    const start = (keep[0] - 0.5) * scaled;
+    const end = (keep[1] - 0.5) * scaled;
+    // Shift just enough for [start, end] to sit inside the slot.
+    const min = -slotLength / 2 - start;
+    const max = slotLength / 2 - end;
+    if (min <= max) offset = clamp(offset, min, max);
+  }
+  return offset;
+}
+
+/**
+ * Works out the scale and offset (for `translate() scale()` around the
+ * image centre) that fill the slot while keeping the focal point centred and
+ * the keep box fully visible. Mirrors the `object-contain` + `max-*-full`
+ * sizing AdCanvas applies before the transform.
+ */
+export function computeAutoCrop(
+  slot: Dimensions,
+  natural: Dimensions,
+  focus: ImageFocus
+): AutoCropResult {
+  const contain = Math.min(1, slot.w / natural.w, slot.h / natural.h);
+  const display = { w: natural.w * contain, h: natural.h * contain };
+
+  let scale = Math.max(slot.w / display.w, slot.h / display.h);
+  if (focus.keep) {
+    const fit = Math.min(
+      slot.w / (focus.keep.w * display.w),
+      slot.h / (focus.keep.h * display.h)
+    );
+    scale = Math.min(scale, fit);
+  }
+
+  const keepX: [number, number] | null = focus.keep
+    ? [focus.keep.x, focus.keep.x + focus.keep.w]
+    : null;
+  const keepY: [number, number] | null = focus.keep
+    ? [focus.keep.y, focus.keep.y + focus.keep.h]
+    : null;
+
+  return {
+    scale,
+    offset: {
+      x: solveAxis(display.w, slot.w, scale, focus.x, keepX),
+      y: solveAxis(display.h, slot.h, scale, focus.y, keepY),
+    },
+    display,
+  };
+}
+
+/**
+ * Maps a point in image space (0–1) to slot pixels, relative to the slot's
+ * top-left corner, for a given transform.
+ */
+export function projectToSlot(
+  point: { x: number; y: number },
+  slot: Dimensions,
+  display: Dimensions,
+  scale: number,
+  offset: { x: number; y: number }
+): { x: number; y: number } {
+  return {
+    x: slot.w / 2 + (point.x - 0.5) * display.w * scale + offset.x,
+    y: slot.h / 2 + (point.y - 0.5) * display.h * scale + offset.y,
+  };
+}
@@ -0,0 +1,132 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import type { AdPreviewSettings } from "../types";
+import { formatFileName, manifestToCsv, runBatchExport } from "./batchExport";
+import type { BatchExportJob, JobRenderer } from "./batchExport";
+
+const SETTINGS: AdPreviewSettings = {
+  image: null,
+  headline: "Fresh, fast",
+  subhead: "",
+  cta: "Shop",
+  primaryColor: "#EF4444",
+  darkMode: false,
+  imageScale: 1,
+  imageOffset: { x: 0, y: 0 },
+};
+
+const job = (
+  w: number,
+  h: number,
+  patch: Partial<BatchExportJob> = {}
+): BatchExportJob => ({
+  spec: { w, h, label: "Medium Rectangle" },
+  variant: 1,
+  settings: SETTINGS,
+  ...patch,
+});
+
+const render: JobRenderer = async ({ spec }) => ({
+  blob: new Blob(["x".repeat(spec.w)], { type: "image/png" }),
+  format: "png",
+  width: spec.w,
+  height: spec.h,
+  pixelRatio: 1,
+  quality: null,
+  withinBudget: true,
+});
+
+describe("formatFileName", () => {
+  it("fills every token", () => {
+    expect(
+      formatFileName(
+        "{label}_{w}_{h}_{size}_v{variant}_r{row}_{locale}_{index}",
+        job(300, 250, { variant: 2, row: 7, locale: "de" }),
+        4
+      )
+    ).toBe("medium-rectangle_300_250_300x250_v2_r7_de_005");
+  });
+
+  it("leaves unknown tokens and strips slashes", () => {
+    expect(formatFileName("../{size}/{nope}", job(300, 250), 0)).toBe(
+      "..-300x250-{nope}"
+    );
+  });
+
+  it("falls back to label and size for an empty pattern", () => {
+    expect(formatFileName("", job(728, 90), 0)).toBe("medium-rectangle-728x90");
+  });
+});
+
+describe("runBatchExport", () => {
+  it("numbers files whose names collide", async () => {
+    const { entries } = await runBatchExport(
+      [job(300, 250), job(300, 250), job(300, 250)],
+      render,
+      {
+        folderLayout: "by-size",
+        fileNamePattern: "{size}",
+        manifestFormat: "json",
+      }
+    );
+    expect(entries.map((e) => e.file)).toEqual([
+      "300x250/300x250.png",
+      "300x250/300x250-2.png",
+      "300x250/300x250-3.png",
+    ]);
+  });
+
+  it("records failed jobs in the manifest and carries on", async () => {
+    const failing: JobRenderer = (j) =>
+      j.spec.w === 160 ? Promise.reject(new Error("boom")) : render(j);
+    const result = await runBatchExport(
+      [job(160, 600), job(300, 250)],
+      failing,
+      {
+        folderLayout: "flat",
+        fileNamePattern: "{size}",
+        manifestFormat: "both",
+      }
+    );
+    expect(result.failures).toEqual([
+      expect.objectContaining({
+        size: "160x600",
+        status: "failed",
+        error: "boom",
+      }),
+    ]);
+    expect(result.entries[1]).toMatchObject({
+      file: "300x250.png",
+      format: "png",
+      pixels: "300x250",
+      bytes: 300,
+      status: "ok",
+    });
+
+    const zip = await JSZip.loadAsync(await result.zip.arrayBuffer());
+    expect(Object.keys(zip.files).sort()).toEqual([
+      "300x250.png",
+      "manifest.csv",
+      "manifest.json",
+    ]);
+    const manifest = JSON.parse(
+      await zip.file("manifest.json")!.async("string")
+    );
+    expect(manifest).toEqual(result.entries);
+  });
+});
+
+describe("manifestToCsv", () => {
+  it("writes one line per entry and quotes commas", async () => {
+    const { entries } = await runBatchExport([job(300, 250)], render, {
+      folderLayout: "flat",
+      fileNamePattern: "{size}",
+      manifestFormat: "csv",
+    });
+    const [header, line] = manifestToCsv(entries).split("\r\n");
+    expect(header.split(",")[0]).toBe("file");
+    expect(line).toMatch(
+      /^300x250\.png,300x250,Medium Rectangle,1,,,"Fresh, fast",/
+    );
+  });
+});
@@ -0,0 +1,239 @@
+import JSZip from "jszip";
+import type { AdPreviewSettings, AdSizeSpec } from "../types";
+import { slugify } from "./download";
+import { FORMAT_EXTENSIONS } from "./imageExport";
+import type { ImageExportResult } from "./imageExport";
+
+// ---------- Types ----------
+
+export type FolderLayout = "flat" | "by-size" | "by-variant";
+export type ManifestFormat = "json" | "csv" | "both";
+
+export interface BatchExportOptions {
+  folderLayout: FolderLayout;
+  /** Tokens: {label} {w} {h} {size} {variant} {row} {locale} {index} */
+  fileNamePattern: string;
+  manifestFormat: ManifestFormat;
+}
+
+export interface BatchExportJob {
+  spec: AdSizeSpec;
+  /** 1-based variant number, matches the Variants strip. */
+  variant: number;
+  /** 1-based feed row, for jobs generated from an imported spreadsheet. */
+  row?: number;
+  /** Set when exporting every locale; files then go under a locale folder. */
+  locale?: string;
+  settings: AdPreviewSettings;
+}
+
+export interface ManifestEntry {
+  file: string | null;
+  size: string;
+  label: string;
+  variant: number;
+  row?: number;
+  locale?: string;
+  headline: string;
+  subhead: string;
+  cta: string;
+  primaryColor: string;
+  darkMode: boolean;
+  format?: string;
+  pixels?: string;
+  bytes?: number;
+  withinBudget?: boolean;
+  status: "ok" | "failed";
+  error?: string;
+}
+
+export interface BatchExportProgress {
+  done: number;
+  total: number;
+  current: string;
+}
+
+export interface BatchExportResult {
+  zip: Blob;
+  entries: ManifestEntry[];
+  failures: ManifestEntry[];
+}
+
+/** Renders and encodes one job. */
+export type JobRenderer = (job: BatchExportJob) => Promise<ImageExportResult>;
+
+export const DEFAULT_BATCH_OPTIONS: BatchExportOptions = {
+  folderLayout: "by-size",
+  fileNamePattern: "{label}-{size}-v{variant}",
+  manifestFormat: "both",
+};
+
+// ---------- Naming ----------
+
+export function formatFileName(
+  pattern: string,
+  job: BatchExportJob,
+  index: number
+): string {
+  const tokens: Record<string, string> = {
+    label: slugify(job.spec.label),
+    w: String(job.spec.w),
+    h: String(job.spec.h),
+    size: `${job.spec.w}x${job.spec.h}`,
+    variant: String(job.variant),
+    row: String(job.row ?? job.variant),
+    locale: job.locale ?? job.settings.locale ?? "",
+    index: String(index + 1).padStart(3, "0"),
+  };
+  const name = pattern.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in tokens ? tokens[key] : match
+  );
+  // Never allow the pattern to escape its folder.
+  return name.replace(/[\\/]/g, "-") || `${tokens.label}-${tokens.size}`;
+}
+
+function folderFor(layout: FolderLayout, job: BatchExportJob): string {
+  const root = job.locale ? `${job.locale}/` : "";
+  switch (layout) {
+    case "by-size":
+      return `${root}${job.spec.w}x${job.spec.h}/`;
+    case "by-variant":
+      return `${root}variant-${job.variant}/`;
+    default:
+      return root;
+  }
+}
+
+/** Appends -2, -3… when a pattern produces the same path twice. */
+function uniquePath(path: string, used: Set<string>): string {
+  if (!used.has(path)) return path;
+  const dot = path.lastIndexOf(".");
+  const stem = path.slice(0, dot);
+  const ext = path.slice(dot);
+  let n = 2;
+  while (used.has(`${stem}-${n}${ext}`)) n++;
+  return `${stem}-${n}${ext}`;
+}
+
+// ---------- Manifest ----------
+
+const CSV_COLUMNS: (keyof ManifestEntry)[] = [
+  "file",
+  "size",
+  "label",
+  "variant",
+  "row",
+  "locale",
+  "headline",
+  "subhead",
+  "cta",
+  "primaryColor",
+  "darkMode",
+  "format",
+  "pixels",
+  "bytes",
+  "withinBudget",
+  "status",
+  "error",
+];
+
+export function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function manifestToCsv(entries: ManifestEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((col) => csvCell(entry[col])).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+// ---------- Runner ----------
+
+/**
+ * Renders every job into a single ZIP. A job that throws is recorded in the
+ * manifest as failed and the batch carries on with the next one.
+ */
+export async function runBatchExport(
+  jobs: BatchExportJob[],
+  render: JobRenderer,
+  options: BatchExportOptions,
+  onProgress?: (progress: BatchExportProgress) => void
+): Promise<BatchExportResult> {
+  const zip = new JSZip();
+  const entries: ManifestEntry[] = [];
+  const usedPaths = new Set<string>();
+
+  for (let i = 0; i < jobs.length; i++) {
+    const job = jobs[i];
+    const { spec, settings } = job;
+    onProgress?.({
+      done: i,
+      total: jobs.length,
+      current: `${spec.label} ${spec.w}x${spec.h} · v${job.variant}${
+        job.locale ? ` · ${job.locale}` : ""
+      }`,
+    });
+
+    const base: Omit<ManifestEntry, "file" | "status"> = {
+      size: `${spec.w}x${spec.h}`,
+      label: spec.label,
+      variant: job.variant,
+      row: job.row,
+      locale: job.locale,
+      headline: settings.headline,
+      subhead: settings.subhead,
+      cta: settings.cta,
+      primaryColor: settings.primaryColor,
+      darkMode: settings.darkMode,
+    };
+
+    try {
+      const result = await render(job);
+      const path = uniquePath(
+        `${folderFor(options.folderLayout, job)}${formatFileName(
+          options.fileNamePattern,
+          job,
+          i
+        )}.${FORMAT_EXTENSIONS[result.format]}`,
+        usedPaths
+      );
+      usedPaths.add(path);
+      zip.file(path, result.blob);
+      entries.push({
+        ...base,
+        file: path,
+        format: result.format,
+        pixels: `${result.width}x${result.height}`,
+        bytes: result.blob.size,
+        withinBudget: result.withinBudget,
+        status: "ok",
+      });
+    } catch (err) {
+      console.error(`Export failed for ${base.label} ${base.size}`, err);
+      entries.push({
+        ...base,
+        file: null,
+        status: "failed",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  if (options.manifestFormat !== "csv") {
+    zip.file("manifest.json", JSON.stringify(entries, null, 2));
+  }
+  if (options.manifestFormat !== "json") {
+    zip.file("manifest.csv", manifestToCsv(entries));
+  }
+
+  onProgress?.({ done: jobs.length, total: jobs.length, current: "Zipping" });
+  const blob = await zip.generateAsync({ type: "blob" });
+
+  return {
+    zip: blob,
+    entries,
+    failures: entries.filter((e) => e.status === "failed"),
+  };
+}
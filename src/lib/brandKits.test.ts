@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createBrandKit, parseBrandKitImport } from "./brandKits";
+
+const FONT = {
+  fileName: "Brand.woff2",
+  dataUrl: "data:font/woff2;base64,AAAA",
+};
+
+const importText = (kit: unknown) =>
+  JSON.stringify({ format: "google-ads-visualizer-brand-kit", kit });
+
+describe("parseBrandKitImport", () => {
+  it("keeps valid fields and assigns a new id", () => {
+    const kit = {
+      ...createBrandKit("Acme"),
+      id: "kit-original",
+      palette: ["#112233"],
+      headlineFont: FONT,
+    };
+    const parsed = parseBrandKitImport(importText(kit));
+    expect(parsed.id).not.toBe("kit-original");
+    expect(parsed.palette).toEqual(["#112233"]);
+    expect(parsed.headlineFont).toEqual(FONT);
+  });
+
+  it("drops fields that aren't part of a kit", () => {
+    const kit = { ...createBrandKit("Acme"), extra: "<script>" };
+    expect(parseBrandKitImport(importText(kit))).not.toHaveProperty("extra");
+  });
+
+  it.each([
+    ["a non-hex palette entry", { palette: ["red;}"] }],
+    ["a non-font data URL", { bodyFont: { ...FONT, dataUrl: "x) ; }" } }],
+    ["a font without a file name", { bodyFont: { dataUrl: FONT.dataUrl } }],
+    ["a logo that isn't an image", { logoWide: "javascript:alert(1)" }],
+    ["a non-string CTA", { defaultCta: 42 }],
+  ])("rejects %s", (_, patch) => {
+    const kit = { ...createBrandKit("Acme"), ...patch };
+    expect(() => parseBrandKitImport(importText(kit))).toThrow();
+  });
+});
@@ -0,0 +1,238 @@
+import { withStore } from "./db";
+import { isNumber, isRecord, isStringArray } from "./guards";
+
+// ---------- Types ----------
+
+export interface BrandFont {
+  /** Original file name, shown in the editor. */
+  fileName: string;
+  dataUrl: string;
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  logoSquare: string | null;
+  logoWide: string | null;
+  palette: string[];
+  headlineFont: BrandFont | null;
+  bodyFont: BrandFont | null;
+  defaultCta: string;
+  darkMode: boolean;
+  updatedAt: number;
+}
+
+/** The swatches offered when no kit is picked. */
+export const DEFAULT_SWATCHES = [
+  "#EF4444",
+  "#EA4335",
+  "#FBBC04",
+  "#34A853",
+  "#4285F4",
+  "#111827",
+];
+
+export function createBrandKit(name: string): BrandKit {
+  return {
+    id: `kit-${Date.now().toString(36)}`,
+    name,
+    logoSquare: null,
+    logoWide: null,
+    palette: [...DEFAULT_SWATCHES],
+    headlineFont: null,
+    bodyFont: null,
+    defaultCta: "",
+    darkMode: false,
+    updatedAt: Date.now(),
+  };
+}
+
+// ---------- Fonts ----------
+
+export type FontRole = "headline" | "body";
+
+export const FONT_ACCEPT = ".woff,.woff2,font/woff,font/woff2";
+
+export const brandFontFamily = (kit: BrandKit, role: FontRole) =>
+  `brand-${kit.id}-${role}`;
+
+/** CSS font-family stacks for AdCanvas, falling back to the system sans. */
+export function kitFontStacks(kit: BrandKit | null): {
+  headline?: string;
+  body?: string;
+} {
+  if (!kit) return {};
+  const stack = (role: FontRole) =>
+    `"${brandFontFamily(kit, role)}", ui-sans-serif, system-ui, sans-serif`;
+  return {
+    headline: kit.headlineFont ? stack("headline") : undefined,
+    body: kit.bodyFont ? stack("body") : undefined,
+  };
+}
+
+/** Base64 font data URLs only; anything else could break out of the CSS. */
+const FONT_DATA_URL =
+  /^data:(?:font\/[\w.+-]+|application\/(?:x-)?font-[\w.+-]+);base64,[A-Za-z0-9+/]*={0,2}$/;
+
+export const isFontDataUrl = (value: unknown): value is string =>
+  typeof value === "string" && FONT_DATA_URL.test(value);
+
+/**
+ * Gives an uploaded font a font/* MIME type; browsers that don't know WOFF
+ * read it as application/octet-stream.
+ */
+export function fontDataUrl(dataUrl: string, fileName: string): string {
+  const format = /\.woff2$/i.test(fileName) ? "woff2" : "woff";
+  return dataUrl.replace(/^data:[^;,]*/, `data:font/${format}`);
+}
+
+const STYLE_ID = "brand-kit-fonts";
+
+/** @font-face rules for the kit's fonts, with the font data inline. */
+export function kitFontFaceCss(kit: BrandKit | null): string {
+  if (!kit) return "";
+  const rules: string[] = [];
+  (["headline", "body"] as FontRole[]).forEach((role) => {
+    const font = role === "headline" ? kit.headlineFont : kit.bodyFont;
+    if (!font || !isFontDataUrl(font.dataUrl)) return;
+    const format = /\.woff2$/i.test(font.fileName) ? "woff2" : "woff";
+    rules.push(
+      `@font-face { font-family: "${brandFontFamily(kit, role)}"; src: url("${
+        font.dataUrl
+      }") format("${format}"); font-display: block; }`
+    );
+  });
+  return rules.join("\n");
+}
+
+/**
+ * Writes @font-face rules for the kit into a <style> tag. A stylesheet (not
+ * the FontFace API) so html-to-image embeds the fonts in exported images.
+ */
+export function installKitFonts(kit: BrandKit | null): void {
+  let style = document.getElementById(STYLE_ID) as HTMLStyleElement | null;
+  if (!style) {
+    style = document.createElement("style");
+    style.id = STYLE_ID;
+    document.head.appendChild(style);
+  }
+  style.textContent = kitFontFaceCss(kit);
+}
+
+// ---------- Persistence ----------
+
+const STORE = "brandKits";
+const ACTIVE_KEY = "ga-visualizer-brand-kit";
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isLogo = (value: unknown): value is string | null =>
+  value === null ||
+  (typeof value === "string" && value.startsWith("data:image/"));
+
+const isBrandFont = (value: unknown): value is BrandFont | null =>
+  value === null ||
+  (isRecord(value) &&
+    typeof value.fileName === "string" &&
+    isFontDataUrl(value.dataUrl));
+
+/**
+ * Rebuilds a kit from stored or imported JSON, or returns null when any
+ * field is missing or mistyped.
+ */
+export function validateBrandKit(raw: unknown): BrandKit | null {
+  if (!isRecord(raw)) return null;
+  const { id, name, palette, defaultCta, darkMode } = raw;
+  const logoSquare = raw.logoSquare ?? null;
+  const logoWide = raw.logoWide ?? null;
+  const headlineFont = raw.headlineFont ?? null;
+  const bodyFont = raw.bodyFont ?? null;
+  if (
+    typeof id !== "string" ||
+    typeof name !== "string" ||
+    !isStringArray(palette) ||
+    !palette.every((c) => HEX_COLOR.test(c)) ||
+    typeof defaultCta !== "string" ||
+    typeof darkMode !== "boolean" ||
+    !isLogo(logoSquare) ||
+    !isLogo(logoWide) ||
+    !isBrandFont(headlineFont) ||
+    !isBrandFont(bodyFont)
+  ) {
+    return null;
+  }
+  return {
+    id,
+    name,
+    logoSquare,
+    logoWide,
+    palette,
+    headlineFont,
+    bodyFont,
+    defaultCta,
+    darkMode,
+    updatedAt: isNumber(raw.updatedAt) ? raw.updatedAt : 0,
+  };
+}
+
+export async function loadBrandKits(): Promise<BrandKit[]> {
+  const records = await withStore<unknown[]>(STORE, "readonly", (store) =>
+    store.getAll()
+  );
+  const kits = (records ?? [])
+    .map(validateBrandKit)
+    .filter((kit): kit is BrandKit => kit !== null);
+  if (kits.length < (records ?? []).length) {
+    console.warn("Skipped invalid brand kit record(s)");
+  }
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveBrandKit(kit: BrandKit): Promise<void> {
+  await withStore(STORE, "readwrite", (store) => store.put(kit));
+}
+
+export async function deleteBrandKit(id: string): Promise<void> {
+  await withStore(STORE, "readwrite", (store) => store.delete(id));
+}
+
+export function loadActiveKitId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch (e) {
+    console.warn("Could not load active brand kit", e);
+    return null;
+  }
+}
+
+export function saveActiveKitId(id: string | null): void {
+  try {
+    if (id) localStorage.setItem(ACTIVE_KEY, id);
+    else localStorage.removeItem(ACTIVE_KEY);
+  } catch (e) {
+    console.warn("Could not save active brand kit", e);
+  }
+}
+
+// ---------- Import / export ----------
+
+const EXPORT_FORMAT = "google-ads-visualizer-brand-kit";
+
+export function exportBrandKitBlob(kit: BrandKit): Blob {
+  return new Blob(
+    [JSON.stringify({ format: EXPORT_FORMAT, version: 1, kit }, null, 2)],
+    { type: "application/json" }
+  );
+}
+
+/** Imported kits get a fresh id so they sit beside an existing copy. */
+export function parseBrandKitImport(text: string): BrandKit {
+  const json = JSON.parse(text) as { format?: string; kit?: unknown };
+  const kit = json.format === EXPORT_FORMAT ? validateBrandKit(json.kit) : null;
+  if (!kit) throw new Error("Not a brand kit file");
+  return {
+    ...kit,
+    id: `kit-${Date.now().toString(36)}`,
+    updatedAt: Date.now(),
+  };
+}
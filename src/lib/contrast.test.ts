@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { blendColors } from "./contrast";
+
+describe("blendColors", () => {
+  it("mixes the top colour in by alpha", () => {
+    expect(blendColors("#000000", "#FFFFFF", 0.5)).toBe("#808080");
+    expect(blendColors("#0F172A", "#FFFFFF", 0)).toBe("#FFFFFF");
+    expect(blendColors("#0F172A", "#FFFFFF", 1)).toBe("#0F172A");
+  });
+
+  it("returns the bottom colour when either is unparseable", () => {
+    expect(blendColors("nope", "#123456", 0.5)).toBe("#123456");
+  });
+});
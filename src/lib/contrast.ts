@@ -0,0 +1,192 @@
+// ---------- Types ----------
+
+export type WcagLevel = "AAA" | "AA" | "fail";
+
+export interface ContrastCheck {
+  id: string;
+  label: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  level: WcagLevel;
+}
+
+/** Normal-size text thresholds; ad copy is rarely large enough for 3:1. */
+export const WCAG_AA = 4.5;
+export const WCAG_AAA = 7;
+
+export const LIGHT_TEXT = "#FFFFFF";
+export const DARK_TEXT = "#111827";
+
+/** Hex values of the Tailwind classes AdCanvas uses for copy and card. */
+export const COPY_COLORS = {
+  light: { background: "#FFFFFF", headline: "#1E293B", subhead: "#475569" },
+  dark: { background: "#0F172A", headline: "#FFFFFF", subhead: "#CBD5E1" },
+};
+
+/**
+ * The full-bleed scrim: slate-900 fading from 0.9 to 0.15 opacity, under
+ * forced light copy. `alpha` is a typical opacity behind the text.
+ */
+export const SCRIM = {
+  color: "#0F172A",
+  alpha: 0.6,
+  headline: "#FFFFFF",
+  subhead: "#E2E8F0",
+};
+
+// ---------- Colour maths ----------
+
+type Rgb = [number, number, number];
+
+export function parseHex(hex: string): Rgb | null {
+  let h = hex.trim().replace(/^#/, "");
+  if (h.length === 3) h = [...h].map((c) => c + c).join("");
+  if (!/^[0-9a-f]{6}$/i.test(h)) return null;
+  return [0, 2, 4].map((i) => parseInt(h.slice(i, i + 2), 16)) as Rgb;
+}
+
+export function toHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b]
+    .map((c) => Math.round(c).toString(16).padStart(2, "0"))
+    .join("")}`.toUpperCase();
+}
+
+/** `top` painted over `bottom` at `alpha` opacity. */
+export function blendColors(
+  top: string,
+  bottom: string,
+  alpha: number
+): string {
+  const t = parseHex(top);
+  const b = parseHex(bottom);
+  if (!t || !b) return bottom;
+  return toHex(t.map((c, i) => c * alpha + b[i] * (1 - alpha)) as Rgb);
+}
+
+function luminance([r, g, b]: Rgb): number {
+  const [lr, lg, lb] = [r, g, b].map((c) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/** WCAG 2.x contrast ratio, 1–21. Unparseable colours count as 1. */
+export function contrastRatio(a: string, b: string): number {
+  const ca = parseHex(a);
+  const cb = parseHex(b);
+  if (!ca || !cb) return 1;
+  const [hi, lo] = [luminance(ca), luminance(cb)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+export function wcagLevel(ratio: number): WcagLevel {
+  return ratio >= WCAG_AAA ? "AAA" : ratio >= WCAG_AA ? "AA" : "fail";
+}
+
+export function checkContrast(
+  id: string,
+  label: string,
+  foreground: string,
+  background: string
+): ContrastCheck {
+  const ratio = contrastRatio(foreground, background);
+  return { id, label, foreground, background, ratio, level: wcagLevel(ratio) };
+}
+
+/** Light or dark text, whichever reads better on `background`. */
+export function readableTextColor(background: string): string {
+  return contrastRatio(LIGHT_TEXT, background) >=
+    contrastRatio(DARK_TEXT, background)
+    ? LIGHT_TEXT
+    : DARK_TEXT;
+}
+
+function rgbToHsl([r, g, b]: Rgb): Rgb {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h =
+    max === rn
+      ? (gn - bn) / d + (gn < bn ? 6 : 0)
+      : max === gn
+      ? (bn - rn) / d + 2
+      : (rn - gn) / d + 4;
+  return [h / 6, s, l];
+}
+
+function hslToRgb([h, s, l]: Rgb): Rgb {
+  if (s === 0) return [l * 255, l * 255, l * 255];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const tt = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (tt < 1 / 6) return p + (q - p) * 6 * tt;
+    if (tt < 1 / 2) return q;
+    if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6;
+    return p;
+  };
+  return [channel(h + 1 / 3), channel(h), channel(h - 1 / 3)].map(
+    (c) => c * 255
+  ) as Rgb;
+}
+
+/**
+ * Shifts the lightness of `color` (keeping hue and saturation) by the
+ * smallest amount that reaches `minRatio` against `against`.
+ */
+export function nearestPassingColor(
+  color: string,
+  against: string,
+  minRatio: number = WCAG_AA
+): string | null {
+  const rgb = parseHex(color);
+  if (!rgb) return null;
+  if (contrastRatio(color, against) >= minRatio) return toHex(rgb);
+  const [h, s, l] = rgbToHsl(rgb);
+  for (let step = 0.01; step <= 1; step += 0.01) {
+    for (const next of [l - step, l + step]) {
+      if (next < 0 || next > 1) continue;
+      const candidate = toHex(hslToRgb([h, s, next]));
+      if (contrastRatio(candidate, against) >= minRatio) return candidate;
+    }
+  }
+  return null;
+}
+
+// ---------- Image sampling ----------
+
+/** Mean colour of an image, for judging copy laid over it. */
+export function averageImageColor(src: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = 32;
+      canvas.height = 32;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return reject(new Error("Canvas 2D context unavailable"));
+      ctx.drawImage(img, 0, 0, 32, 32);
+      const { data } = ctx.getImageData(0, 0, 32, 32);
+      const sum = [0, 0, 0];
+      let weight = 0;
+      for (let i = 0; i < data.length; i += 4) {
+        // Transparent pixels show the card, not the image.
+        const a = data[i + 3] / 255;
+        sum[0] += data[i] * a;
+        sum[1] += data[i + 1] * a;
+        sum[2] += data[i + 2] * a;
+        weight += a;
+      }
+      if (!weight) return reject(new Error("Image is fully transparent"));
+      resolve(toHex(sum.map((c) => c / weight) as Rgb));
+    };
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { googleLength, isOverLimit } from "./copyLimits";
+
+describe("googleLength", () => {
+  it.each([
+    ["ASCII", "Shop now", 8],
+    ["CJK", "今すぐ購入", 10],
+    ["Hangul", "지금 구매", 9],
+    ["fullwidth forms", "ＳＡＬＥ", 8],
+    ["a single emoji", "Sale 🔥", 7],
+    ["a ZWJ emoji sequence", "👩‍💻", 2],
+    ["a flag", "🇯🇵", 2],
+    ["combining marks", "Cafe\u0301 cre\u0300me", 10],
+    ["an empty string", "", 0],
+  ])("counts %s", (_, text, length) => {
+    expect(googleLength(text)).toBe(length);
+  });
+});
+
+describe("isOverLimit", () => {
+  it("compares the Google length, not the string length", () => {
+    expect(isOverLimit("a".repeat(30), 30)).toBe(false);
+    expect(isOverLimit("購".repeat(16), 30)).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+// ---------- Copy limits ----------
+
+/** Google Display character limits enforced by the Copy compliance panel. */
+export const COPY_LIMITS = {
+  headline: 30,
+  subhead: 90,
+  cta: 15,
+};
+
+// ---------- Counting ----------
+
+/**
+ * East Asian wide and fullwidth ranges (CJK, kana, Hangul, fullwidth forms)
+ * plus emoji and flags, which Google counts as two characters each.
+ */
+const DOUBLE_WIDTH = new RegExp(
+  "^(?:[\\u1100-\\u115F\\u2E80-\\u303E\\u3041-\\u33FF\\u3400-\\u4DBF" +
+    "\\u4E00-\\u9FFF\\uA960-\\uA97F\\uAC00-\\uD7A3\\uF900-\\uFAFF" +
+    "\\uFE30-\\uFE4F\\uFF00-\\uFF60\\uFFE0-\\uFFE6]" +
+    "|[\\u{20000}-\\u{3FFFD}]|\\p{Extended_Pictographic}" +
+    "|\\p{Regional_Indicator})",
+  "u"
+);
+
+const segmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+    : null;
+
+function graphemes(text: string): string[] {
+  if (segmenter) return Array.from(segmenter.segment(text), (s) => s.segment);
+  return Array.from(text);
+}
+
+/**
+ * Length as Google Ads counts it: one per user-perceived character, so
+ * emoji sequences and combining marks aren't over-counted, and two for
+ * double-width characters.
+ */
+export function googleLength(text: string): number {
+  return graphemes(text).reduce(
+    (sum, g) => sum + (DOUBLE_WIDTH.test(g) ? 2 : 1),
+    0
+  );
+}
+
+export const isOverLimit = (text: string, max: number) =>
+  googleLength(text) > max;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { evaluateCreative } from "./creativeValidation";
+import type { CreativeInfo } from "./creativeValidation";
+import { parseGif } from "./gifInfo";
+import { HEAD, TRAILER, frame, gif, loop } from "./__fixtures__/gif";
+
+const SIZES = [
+  { w: 300, h: 250, label: "Medium Rectangle" },
+  { w: 600, h: 500, label: "Medium Rectangle 2x" },
+  { w: 728, h: 90, label: "Leaderboard" },
+];
+
+const png = (patch: Partial<CreativeInfo> = {}): CreativeInfo => ({
+  mime: "image/png",
+  bytes: 40 * 1024,
+  width: 300,
+  height: 250,
+  gif: null,
+  ...patch,
+});
+
+const animated = (bytes: Uint8Array): CreativeInfo =>
+  png({ mime: "image/gif", gif: parseGif(bytes) });
+
+const check = (info: CreativeInfo, id: string) =>
+  evaluateCreative(info, SIZES).checks.find((c) => c.id === id);
+
+describe("evaluateCreative", () => {
+  it("passes a PNG at an exact size", () => {
+    const report = evaluateCreative(png(), SIZES);
+    expect(report.status).toBe("pass");
+    expect(report.exactSizes.map((s) => s.label)).toEqual(["Medium Rectangle"]);
+    expect(report.resizableSizes.map((s) => s.label)).toEqual([
+      "Medium Rectangle 2x",
+    ]);
+  });
+
+  it("fails WebP files and files over 150 KB", () => {
+    expect(check(png({ mime: "image/webp" }), "type")?.status).toBe("fail");
+    expect(check(png({ bytes: 150 * 1024 }), "file-size")?.status).toBe("pass");
+    expect(check(png({ bytes: 150 * 1024 + 1 }), "file-size")?.status).toBe(
+      "fail"
+    );
+  });
+
+  it("warns about sizes that match nothing", () => {
+    const report = evaluateCreative(png({ width: 123, height: 45 }), SIZES);
+    expect(report.status).toBe("warn");
+    expect(report.exactSizes).toEqual([]);
+  });
+
+  it("passes a slow GIF that stops within 30s", () => {
+    const info = animated(gif(HEAD, loop(2), frame(500), frame(500), TRAILER));
+    expect(check(info, "animation")).toMatchObject({
+      status: "pass",
+      message: "2 frames, 10.0s, 0.2 fps, loops 2×",
+    });
+  });
+
+  it("fails a GIF that loops forever", () => {
+    const info = animated(gif(HEAD, loop(0), frame(50), frame(50), TRAILER));
+    expect(check(info, "animation")?.status).toBe("fail");
+  });
+
+  it("fails a GIF faster than 5 fps", () => {
+    const info = animated(gif(HEAD, frame(10), frame(10), frame(10), TRAILER));
+    expect(check(info, "animation")?.message).toMatch(/frame rate above 5/);
+  });
+
+  it("still evaluates a truncated GIF", () => {
+    const bytes = gif(HEAD, loop(1), frame(100), frame(100), frame(100));
+    const info = animated(bytes.subarray(0, bytes.length - 20));
+    expect(check(info, "animation")).toMatchObject({
+      status: "pass",
+      message: "2 frames, 2.0s, 1.0 fps, loops 1×",
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import type { AdSizeSpec } from "../types";
+import { loadImageSize } from "./files";
+import { parseGif } from "./gifInfo";
+import type { GifInfo } from "./gifInfo";
+
+// ---------- Google Display rules for uploaded images ----------
+
+export const CREATIVE_MAX_BYTES = 150 * 1024;
+export const CREATIVE_MIME_TYPES = ["image/png", "image/jpeg", "image/gif"];
+export const GIF_MAX_DURATION_MS = 30_000;
+export const GIF_MAX_FPS = 5;
+/** Relative tolerance when matching an upload's aspect ratio to a size. */
+const RATIO_TOLERANCE = 0.01;
+
+// ---------- Types ----------
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface CreativeInfo {
+  mime: string;
+  bytes: number;
+  width: number;
+  height: number;
+  gif: GifInfo | null;
+}
+
+export interface CreativeCheck {
+  id: "type" | "file-size" | "dimensions" | "animation";
+  status: CheckStatus;
+  message: string;
+}
+
+export interface CreativeReport {
+  status: CheckStatus;
+  checks: CreativeCheck[];
+  /** Sizes the file can be uploaded to as-is. */
+  exactSizes: AdSizeSpec[];
+  /** Sizes with the same aspect ratio that need a resize first. */
+  resizableSizes: AdSizeSpec[];
+}
+
+// ---------- Inspection ----------
+
+function decodeDataUrl(dataUrl: string): { mime: string; bytes: Uint8Array } {
+  const comma = dataUrl.indexOf(",");
+  const meta = dataUrl.slice(5, comma);
+  const mime = meta.split(";")[0] || "application/octet-stream";
+  const payload = dataUrl.slice(comma + 1);
+  if (meta.endsWith(";base64")) {
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { mime, bytes };
+  }
+  return { mime, bytes: new TextEncoder().encode(decodeURIComponent(payload)) };
+}
+
+/** Reads type, byte size, pixel size and GIF timing from a data URL. */
+export async function inspectCreative(dataUrl: string): Promise<CreativeInfo> {
+  const { mime, bytes } = decodeDataUrl(dataUrl);
+  const { width, height } = await loadImageSize(dataUrl);
+  return {
+    mime,
+    bytes: bytes.byteLength,
+    width,
+    height,
+    gif: mime === "image/gif" ? parseGif(bytes) : null,
+  };
+}
+
+// ---------- Evaluation ----------
+
+const worst = (statuses: CheckStatus[]): CheckStatus =>
+  statuses.includes("fail")
+    ? "fail"
+    : statuses.includes("warn")
+    ? "warn"
+    : "pass";
+
+function checkAnimation(gif: GifInfo): CreativeCheck {
+  if (gif.frames <= 1) {
+    return { id: "animation", status: "pass", message: "Static GIF" };
+  }
+  const seconds = (gif.durationMs / 1000).toFixed(1);
+  const loops =
+    gif.loopCount === null
+      ? "plays once"
+      : gif.loopCount === 0
+      ? "loops forever"
+      : `loops ${gif.loopCount}×`;
+  const summary = `${gif.frames} frames, ${seconds}s, ${gif.fps.toFixed(
+    1
+  )} fps, ${loops}`;
+
+  const problems: string[] = [];
+  // Total play time includes every repeat of the loop.
+  const plays = gif.loopCount === null ? 1 : gif.loopCount + 1;
+  if (gif.loopCount === 0) {
+    problems.push("must stop within 30s (set a finite loop count)");
+  } else if (gif.durationMs * plays > GIF_MAX_DURATION_MS) {
+    problems.push(
+      `plays for ${((gif.durationMs * plays) / 1000).toFixed(1)}s, max 30s`
+    );
+  }
+  if (gif.fps > GIF_MAX_FPS) {
+    problems.push(`frame rate above ${GIF_MAX_FPS} fps`);
+  }
+
+  return {
+    id: "animation",
+    status: problems.length ? "fail" : "pass",
+    message: problems.length ? `${summary}: ${problems.join("; ")}` : summary,
+  };
+}
+
+/** Checks an inspected upload against Google's rules and the size list. */
+export function evaluateCreative(
+  info: CreativeInfo,
+  sizes: AdSizeSpec[]
+): CreativeReport {
+  const checks: CreativeCheck[] = [];
+
+  checks.push(
+    CREATIVE_MIME_TYPES.includes(info.mime)
+      ? { id: "type", status: "pass", message: info.mime }
+      : {
+          id: "type",
+          status: "fail",
+          message: `${info.mime} is not accepted (PNG, JPG or GIF only)`,
+        }
+  );
+
+  const kb = (info.bytes / 1024).toFixed(1);
+  checks.push(
+    info.bytes <= CREATIVE_MAX_BYTES
+      ? { id: "file-size", status: "pass", message: `${kb} KB` }
+      : {
+          id: "file-size",
+          status: "fail",
+          message: `${kb} KB exceeds the ${CREATIVE_MAX_BYTES / 1024} KB limit`,
+        }
+  );
+
+  const ratio = info.width / info.height;
+  const exactSizes = sizes.filter(
+    (s) => s.w === info.width && s.h === info.height
+  );
+  const resizableSizes = sizes.filter(
+    (s) =>
+      !exactSizes.includes(s) &&
+      Math.abs(s.w / s.h - ratio) / ratio <= RATIO_TOLERANCE
+  );
+  const dims = `${info.width}x${info.height}`;
+  checks.push(
+    exactSizes.length
+      ? {
+          id: "dimensions",
+          status: "pass",
+          message: `${dims} matches ${exactSizes
+            .map((s) => s.label)
+            .join(", ")}`,
+        }
+      : resizableSizes.length
+      ? {
+          id: "dimensions",
+          status: "warn",
+          message: `${dims} has the ratio of ${resizableSizes
+            .map((s) => `${s.w}x${s.h}`)
+            .join(", ")} but must be resized`,
+        }
+      : {
+          id: "dimensions",
+          status: "warn",
+          message: `${dims} doesn't match any selected size`,
+        }
+  );
+
+  if (info.gif) checks.push(checkAnimation(info.gif));
+
+  return {
+    status: worst(checks.map((c) => c.status)),
+    checks,
+    exactSizes,
+    resizableSizes,
+  };
+}
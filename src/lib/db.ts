@@ -0,0 +1,44 @@
+// ---------- IndexedDB ----------
+
+const DB_NAME = "ga-visualizer";
+// v1: presets. v2: brandKits.
+const DB_VERSION = 2;
+const STORES = ["presets", "brandKits"];
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      STORES.forEach((name) => {
+        if (!req.result.objectStoreNames.contains(name)) {
+          req.result.createObjectStore(name, { keyPath: "id" });
+        }
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Runs one transaction against `store` and resolves once it commits. */
+export function withStore<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  return openDb().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = run(tx.objectStore(store));
+        tx.oncomplete = () => {
+          db.close();
+          resolve(req ? req.result : undefined);
+        };
+        tx.onerror = () => {
+          db.close();
+          reject(tx.error);
+        };
+      })
+  );
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { guessMapping, parseDelimited } from "./feedImport";
+
+describe("parseDelimited", () => {
+  it("splits plain comma-separated rows", () => {
+    expect(parseDelimited("a,b,c\r\n1,2,3\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("keeps delimiters and doubled quotes inside quoted cells", () => {
+    expect(parseDelimited('headline,cta\n"Fast, ""fresh""",Shop')).toEqual([
+      ["headline", "cta"],
+      ['Fast, "fresh"', "Shop"],
+    ]);
+  });
+
+  it("keeps newlines inside quoted cells", () => {
+    expect(
+      parseDelimited('headline,subhead\n"Line one\r\nLine two",x')
+    ).toEqual([
+      ["headline", "subhead"],
+      ["Line one\r\nLine two", "x"],
+    ]);
+  });
+
+  it("strips a byte order mark", () => {
+    expect(parseDelimited("\uFEFFheadline,cta\nHi,Go")[0]).toEqual([
+      "headline",
+      "cta",
+    ]);
+  });
+
+  it.each([
+    [
+      "tabs",
+      "a\tb,c\n1\t2,3",
+      [
+        ["a", "b,c"],
+        ["1", "2,3"],
+      ],
+    ],
+    [
+      "semicolons",
+      "a;b\n1,5;2",
+      [
+        ["a", "b"],
+        ["1,5", "2"],
+      ],
+    ],
+  ])("detects %s", (_, text, rows) => {
+    expect(parseDelimited(text)).toEqual(rows);
+  });
+
+  it("drops blank lines", () => {
+    expect(parseDelimited("a,b\n\n , \n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("guessMapping", () => {
+  it("maps columns by header name in any order", () => {
+    expect(
+      guessMapping(["Image file", "Button", "Hex", "Description", "Title"])
+    ).toEqual({ headline: 4, subhead: 3, cta: 1, color: 2, image: 0 });
+  });
+
+  it("doesn't take Subheadline as the headline", () => {
+    expect(guessMapping(["Subheadline", "Headline"])).toMatchObject({
+      headline: 1,
+      subhead: 0,
+    });
+  });
+
+  it("falls back to column order for unknown headers", () => {
+    expect(guessMapping(["A", "B", "C"])).toEqual({
+      headline: 0,
+      subhead: 1,
+      cta: 2,
+      color: -1,
+      image: -1,
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { COPY_LIMITS, googleLength } from "./copyLimits";
+import { parseHex } from "./contrast";
+
+// ---------- Types ----------
+
+export type FeedField = "headline" | "subhead" | "cta" | "color" | "image";
+
+/** Column index per field; -1 leaves the field unmapped. */
+export type FeedMapping = Record<FeedField, number>;
+
+export interface FeedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface FeedRow {
+  /** 1-based, counting data rows only. */
+  row: number;
+  headline: string;
+  subhead: string;
+  cta: string;
+  color: string | null;
+  imageName: string;
+  image: string | null;
+  errors: string[];
+}
+
+export const FEED_FIELDS: { id: FeedField; label: string }[] = [
+  { id: "headline", label: "Headline" },
+  { id: "subhead", label: "Subhead" },
+  { id: "cta", label: "CTA" },
+  { id: "color", label: "Colour" },
+  { id: "image", label: "Image file" },
+];
+
+export const DEFAULT_FEED_PATTERN = "{row}-{label}-{w}x{h}";
+
+// ---------- Parsing ----------
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts = ["\t", ",", ";"].map(
+    (d) => [d, firstLine.split(d).length - 1] as const
+  );
+  counts.sort((a, b) => b[1] - a[1]);
+  return counts[0][1] > 0 ? counts[0][0] : ",";
+}
+
+/** RFC 4180-style parsing: quoted cells may hold delimiters, quotes and newlines. */
+export function parseDelimited(source: string): string[][] {
+  // Excel writes a byte order mark that would stick to the first header.
+  const text = source.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export function toFeedTable(rows: string[][], hasHeader: boolean): FeedTable {
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  const headers = hasHeader
+    ? Array.from(
+        { length: width },
+        (_, i) => rows[0]?.[i]?.trim() || `Column ${i + 1}`
+      )
+    : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  return { headers, rows: hasHeader ? rows.slice(1) : rows };
+}
+
+const HEADER_HINTS: Record<FeedField, RegExp> = {
+  headline: /head(line)?|title/i,
+  subhead: /sub|desc|body/i,
+  cta: /cta|button|call/i,
+  color: /colou?r|hex/i,
+  image: /image|file|img|asset/i,
+};
+
+/** Maps columns by header name, falling back to the column order above. */
+export function guessMapping(headers: string[]): FeedMapping {
+  const mapping = {} as FeedMapping;
+  const used = new Set<number>();
+  // Subhead first so "Subheadline" isn't taken as the headline.
+  (["subhead", "headline", "cta", "color", "image"] as FeedField[]).forEach(
+    (field) => {
+      const idx = headers.findIndex(
+        (h, i) => !used.has(i) && HEADER_HINTS[field].test(h)
+      );
+      mapping[field] = idx;
+      if (idx >= 0) used.add(idx);
+    }
+  );
+  FEED_FIELDS.forEach(({ id }, i) => {
+    if (mapping[id] < 0 && i < headers.length && !used.has(i)) {
+      mapping[id] = i;
+      used.add(i);
+    }
+  });
+  return mapping;
+}
+
+// ---------- Validation ----------
+
+const baseName = (path: string) =>
+  (path.split(/[\\/]/).pop() ?? path).trim().toLowerCase();
+
+/**
+ * Builds one FeedRow per data row, checking copy length against the Copy
+ * panel limits, colours and that each image file was supplied.
+ */
+export function buildFeedRows(
+  table: FeedTable,
+  mapping: FeedMapping,
+  images: Record<string, string>
+): FeedRow[] {
+  const lookup = new Map(
+    Object.entries(images).map(([name, url]) => [baseName(name), url])
+  );
+  const cell = (row: string[], field: FeedField) =>
+    mapping[field] >= 0 ? (row[mapping[field]] ?? "").trim() : "";
+
+  return table.rows.map((cells, i) => {
+    const headline = cell(cells, "headline");
+    const subhead = cell(cells, "subhead");
+    const cta = cell(cells, "cta");
+    const rawColor = cell(cells, "color");
+    const imageName = cell(cells, "image");
+    const errors: string[] = [];
+
+    if (!headline) errors.push("Headline is empty");
+    const over = (label: string, text: string, max: number) => {
+      const length = googleLength(text);
+      if (length > max) {
+        errors.push(`${label} is ${length}/${max} characters`);
+      }
+    };
+    over("Headline", headline, COPY_LIMITS.headline);
+    over("Subhead", subhead, COPY_LIMITS.subhead);
+    over("CTA", cta, COPY_LIMITS.cta);
+
+    let color: string | null = null;
+    if (rawColor) {
+      const hex = rawColor.startsWith("#") ? rawColor : `#${rawColor}`;
+      if (parseHex(hex)) color = hex.toUpperCase();
+      else errors.push(`"${rawColor}" is not a hex colour`);
+    }
+
+    let image: string | null = null;
+    if (imageName) {
+      image = lookup.get(baseName(imageName)) ?? null;
+      if (!image) errors.push(`Image "${imageName}" was not in the folder`);
+    }
+
+    return {
+      row: i + 1,
+      headline,
+      subhead,
+      cta,
+      color,
+      imageName,
+      image,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { parseGif } from "./gifInfo";
+import { HEAD, TRAILER, ascii, frame, gif, loop } from "./__fixtures__/gif";
+
+describe("parseGif", () => {
+  it("rejects files that aren't GIFs", () => {
+    expect(parseGif(new Uint8Array(ascii("\x89PNG\r\n\x1a\n")))).toBeNull();
+  });
+
+  it("reports a static GIF without timing", () => {
+    expect(parseGif(gif(HEAD, frame(50), TRAILER))).toEqual({
+      frames: 1,
+      durationMs: 0,
+      fps: 0,
+      loopCount: null,
+    });
+  });
+
+  it("sums frame delays and reads the loop count", () => {
+    expect(
+      parseGif(gif(HEAD, loop(3), frame(50), frame(50), frame(100), TRAILER))
+    ).toEqual({ frames: 3, durationMs: 2000, fps: 1.5, loopCount: 3 });
+  });
+
+  it("treats delays under 20ms as 100ms", () => {
+    expect(parseGif(gif(HEAD, frame(0), frame(1), TRAILER))?.durationMs).toBe(
+      200
+    );
+  });
+
+  it("counts the frames before a truncation", () => {
+    const bytes = gif(HEAD, loop(0), frame(20), frame(20), frame(20));
+    // Cut inside the third frame's Graphic Control Extension.
+    expect(parseGif(bytes.subarray(0, bytes.length - 20))).toMatchObject({
+      frames: 2,
+      loopCount: 0,
+    });
+  });
+
+  it("survives a file cut off inside the header", () => {
+    expect(parseGif(gif(HEAD).subarray(0, 15))).toMatchObject({ frames: 0 });
+  });
+});
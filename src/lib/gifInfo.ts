@@ -0,0 +1,80 @@
+// ---------- GIF parsing ----------
+
+export interface GifInfo {
+  frames: number;
+  /** Length of one play-through. */
+  durationMs: number;
+  /** Average frames per second over one play-through. */
+  fps: number;
+  /** NETSCAPE loop count: 0 loops forever, null means play once. */
+  loopCount: number | null;
+}
+
+// Browsers clamp delays below 20ms to 100ms; match what viewers will see.
+const effectiveDelay = (centiseconds: number) =>
+  centiseconds < 2 ? 100 : centiseconds * 10;
+
+/**
+ * Walks the GIF block structure to count frames, sum their delays and read
+ * the NETSCAPE2.0 loop extension. Returns null for anything that isn't a GIF.
+ */
+export function parseGif(bytes: Uint8Array): GifInfo | null {
+  const header = String.fromCharCode(...bytes.subarray(0, 6));
+  if (header !== "GIF87a" && header !== "GIF89a") return null;
+
+  let pos = 13;
+  const flags = bytes[10];
+  if (flags & 0x80) pos += 3 * (1 << ((flags & 0x07) + 1));
+
+  const skipSubBlocks = () => {
+    while (pos < bytes.length && bytes[pos] !== 0) pos += bytes[pos] + 1;
+    pos++;
+  };
+
+  let frames = 0;
+  let durationMs = 0;
+  let loopCount: number | null = null;
+  let pendingDelay = 0;
+
+  while (pos < bytes.length) {
+    const block = bytes[pos++];
+    if (block === 0x3b) break; // Trailer
+
+    if (block === 0x21) {
+      const label = bytes[pos++];
+      if (label === 0xf9) {
+        // Graphic Control Extension: delay is bytes 2–3 of the 4-byte body.
+        pendingDelay = bytes[pos + 2] | (bytes[pos + 3] << 8);
+      } else if (label === 0xff) {
+        const id = String.fromCharCode(...bytes.subarray(pos + 1, pos + 12));
+        if (id === "NETSCAPE2.0" || id === "ANIMEXTS1.0") {
+          const sub = pos + 1 + bytes[pos];
+          if (bytes[sub] === 3 && bytes[sub + 1] === 1) {
+            loopCount = bytes[sub + 2] | (bytes[sub + 3] << 8);
+          }
+        }
+      }
+      skipSubBlocks();
+    } else if (block === 0x2c) {
+      frames++;
+      durationMs += effectiveDelay(pendingDelay);
+      pendingDelay = 0;
+      const localFlags = bytes[pos + 8];
+      pos += 9;
+      if (localFlags & 0x80) pos += 3 * (1 << ((localFlags & 0x07) + 1));
+      pos++; // LZW minimum code size
+      skipSubBlocks();
+    } else {
+      break; // Corrupt or unknown block
+    }
+  }
+
+  // A single frame has no animation timing worth reporting.
+  if (frames <= 1) durationMs = 0;
+  return {
+    frames,
+    durationMs,
+    fps: durationMs ? (frames * 1000) / durationMs : 0,
+    loopCount,
+  };
+}
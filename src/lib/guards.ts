@@ -0,0 +1,109 @@
+import type { ImageFocus, ImageOverride, SizeOverrides } from "../types";
+import type { AdsEditorTarget } from "./adsEditorExport";
+import { IMAGE_FORMATS } from "./imageExport";
+import type { ImageExportSettings } from "./imageExport";
+import type { LocaleCopy } from "./locales";
+import type { RdaAssets } from "./responsiveAds";
+import type { CatalogSize, SizeCatalogState } from "./sizeCatalog";
+import type { TextFitSettings } from "./textFit";
+
+// ---------- Type guards for untrusted JSON ----------
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export const isOffset = (value: unknown): value is { x: number; y: number } =>
+  isRecord(value) && isNumber(value.x) && isNumber(value.y);
+
+export const isStringRecord = (
+  value: unknown
+): value is Record<string, string> =>
+  isRecord(value) && Object.values(value).every((v) => typeof v === "string");
+
+const isImageOverride = (value: unknown): value is ImageOverride =>
+  isRecord(value) &&
+  (value.imageScale === undefined || isNumber(value.imageScale)) &&
+  (value.imageOffset === undefined || isOffset(value.imageOffset));
+
+export const isSizeOverrides = (value: unknown): value is SizeOverrides =>
+  isRecord(value) && Object.values(value).every(isImageOverride);
+
+export const isTextFit = (value: unknown): value is TextFitSettings =>
+  isRecord(value) &&
+  typeof value.enabled === "boolean" &&
+  isNumber(value.minPx) &&
+  isNumber(value.maxPx);
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+const isImageFocus = (value: unknown): value is ImageFocus =>
+  isRecord(value) &&
+  isNumber(value.x) &&
+  isNumber(value.y) &&
+  (value.keep === null ||
+    (isRecord(value.keep) &&
+      isNumber(value.keep.x) &&
+      isNumber(value.keep.y) &&
+      isNumber(value.keep.w) &&
+      isNumber(value.keep.h)));
+
+/** Focal points keyed by image index. */
+export const isImageFocusMap = (
+  value: unknown
+): value is Record<number, ImageFocus> =>
+  isRecord(value) && Object.values(value).every(isImageFocus);
+
+const isCatalogSize = (value: unknown): value is CatalogSize =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.label === "string" &&
+  typeof value.group === "string" &&
+  isNumber(value.w) &&
+  isNumber(value.h) &&
+  value.w > 0 &&
+  value.h > 0;
+
+export const isSizeCatalog = (value: unknown): value is SizeCatalogState =>
+  isRecord(value) &&
+  isStringArray(value.enabled) &&
+  Array.isArray(value.custom) &&
+  value.custom.every(isCatalogSize);
+
+const isLocaleCopy = (value: unknown): value is LocaleCopy =>
+  isRecord(value) &&
+  typeof value.headline === "string" &&
+  typeof value.subhead === "string" &&
+  typeof value.cta === "string";
+
+/** Copy sets keyed by locale code. */
+export const isLocaleCopyMap = (
+  value: unknown
+): value is Record<string, LocaleCopy> =>
+  isRecord(value) && Object.values(value).every(isLocaleCopy);
+
+export const isImageExport = (value: unknown): value is ImageExportSettings =>
+  isRecord(value) &&
+  IMAGE_FORMATS.some((f) => f.value === value.format) &&
+  isNumber(value.maxKB) &&
+  typeof value.exactSize === "boolean";
+
+export const isRdaAssets = (value: unknown): value is RdaAssets =>
+  isRecord(value) &&
+  isStringArray(value.headlines) &&
+  typeof value.longHeadline === "string" &&
+  isStringArray(value.descriptions) &&
+  typeof value.businessName === "string" &&
+  isStringArray(value.landscapeImages) &&
+  isStringArray(value.squareImages) &&
+  isStringArray(value.squareLogos) &&
+  isStringArray(value.wideLogos);
+
+export const isAdsEditorTarget = (value: unknown): value is AdsEditorTarget =>
+  isRecord(value) &&
+  typeof value.campaign === "string" &&
+  typeof value.adGroup === "string" &&
+  typeof value.finalUrl === "string";
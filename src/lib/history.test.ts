@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  HISTORY_LIMIT,
+  HISTORY_SETTLE_MS,
+  canRedo,
+  canUndo,
+  createHistory,
+  currentStep,
+  describeChange,
+  jumpHistory,
+  pushHistory,
+  scheduleSettle,
+} from "./history";
+
+describe("scheduleSettle", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it("commits once edits have been quiet for the settle window", () => {
+    const commit = vi.fn();
+    scheduleSettle(commit, () => false);
+    vi.advanceTimersByTime(HISTORY_SETTLE_MS - 1);
+    expect(commit).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(commit).toHaveBeenCalledOnce();
+  });
+
+  it("restarts the window on every edit", () => {
+    const commit = vi.fn();
+    let cancel = scheduleSettle(commit, () => false);
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(HISTORY_SETTLE_MS - 100);
+      cancel();
+      cancel = scheduleSettle(commit, () => false);
+    }
+    expect(commit).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(HISTORY_SETTLE_MS);
+    expect(commit).toHaveBeenCalledOnce();
+  });
+
+  it("waits while the pointer is held", () => {
+    const commit = vi.fn();
+    let held = true;
+    scheduleSettle(commit, () => held);
+    vi.advanceTimersByTime(HISTORY_SETTLE_MS * 10);
+    expect(commit).not.toHaveBeenCalled();
+    held = false;
+    vi.advanceTimersByTime(HISTORY_SETTLE_MS);
+    expect(commit).toHaveBeenCalledOnce();
+  });
+});
+
+describe("pushHistory", () => {
+  it("drops the redo branch", () => {
+    let history = createHistory("a");
+    history = pushHistory(history, "b", "B");
+    history = pushHistory(history, "c", "C");
+    history = jumpHistory(history, 0);
+    expect(canRedo(history)).toBe(true);
+
+    history = pushHistory(history, "d", "D");
+    expect(history.steps.map((s) => s.state)).toEqual(["a", "d"]);
+    expect(canRedo(history)).toBe(false);
+    expect(canUndo(history)).toBe(true);
+  });
+
+  it("keeps the newest steps past the limit", () => {
+    let history = createHistory(0);
+    for (let i = 1; i <= HISTORY_LIMIT + 5; i++) {
+      history = pushHistory(history, i, `Step ${i}`);
+    }
+    expect(history.steps).toHaveLength(HISTORY_LIMIT);
+    expect(currentStep(history).state).toBe(HISTORY_LIMIT + 5);
+    expect(history.steps[0].state).toBe(6);
+  });
+});
+
+describe("jumpHistory", () => {
+  it("clamps and returns the same object when nothing moves", () => {
+    const history = pushHistory(createHistory("a"), "b", "B");
+    expect(jumpHistory(history, 5)).toBe(history);
+    expect(jumpHistory(history, -3).index).toBe(0);
+  });
+});
+
+describe("describeChange", () => {
+  const labels = { headline: "Edit headline", cta: "Edit CTA" };
+  const prev = { headline: "a", cta: "b", color: "#fff" };
+
+  it("names a single change", () => {
+    expect(describeChange(prev, { ...prev, cta: "c" }, labels)).toBe(
+      "Edit CTA"
+    );
+  });
+
+  it("counts several changes", () => {
+    expect(
+      describeChange(prev, { ...prev, headline: "x", color: "#000" }, labels)
+    ).toBe("Edit 2 settings");
+  });
+});
@@ -0,0 +1,95 @@
+// ---------- Types ----------
+
+export interface HistoryStep<T> {
+  label: string;
+  state: T;
+}
+
+/** Linear undo stack; `index` points at the step currently shown. */
+export interface History<T> {
+  steps: HistoryStep<T>[];
+  index: number;
+}
+
+/** Oldest steps are dropped past this; each holds references, not copies. */
+export const HISTORY_LIMIT = 100;
+
+/** How long edits must settle before they become one step. */
+export const HISTORY_SETTLE_MS = 400;
+
+// ---------- Helpers ----------
+
+export function createHistory<T>(state: T, label = "Start"): History<T> {
+  return { steps: [{ label, state }], index: 0 };
+}
+
+export function currentStep<T>(history: History<T>): HistoryStep<T> {
+  return history.steps[history.index];
+}
+
+/** Records a new step, discarding anything that was undone. */
+export function pushHistory<T>(
+  history: History<T>,
+  state: T,
+  label: string
+): History<T> {
+  const steps = [
+    ...history.steps.slice(0, history.index + 1),
+    { label, state },
+  ].slice(-HISTORY_LIMIT);
+  return { steps, index: steps.length - 1 };
+}
+
+/** Moves to `index`, clamped; returns the same object when nothing moves. */
+export function jumpHistory<T>(history: History<T>, index: number): History<T> {
+  const next = Math.max(0, Math.min(history.steps.length - 1, index));
+  return next === history.index ? history : { ...history, index: next };
+}
+
+/**
+ * Calls `commit` once edits have been quiet for HISTORY_SETTLE_MS. While
+ * `isHeld()` (a drag or slider move) it keeps waiting, so the whole gesture
+ * becomes one step. Returns a cancel function; the next edit cancels and
+ * schedules again.
+ */
+export function scheduleSettle(
+  commit: () => void,
+  isHeld: () => boolean
+): () => void {
+  let timer = setTimeout(function settle() {
+    if (isHeld()) {
+      timer = setTimeout(settle, HISTORY_SETTLE_MS);
+      return;
+    }
+    commit();
+  }, HISTORY_SETTLE_MS);
+  return () => clearTimeout(timer);
+}
+
+export const canUndo = (history: History<unknown>) => history.index > 0;
+
+export const canRedo = (history: History<unknown>) =>
+  history.index < history.steps.length - 1;
+
+/**
+ * Editor state is made of setState values, so an unchanged field keeps its
+ * reference and a shallow compare is enough.
+ */
+export function changedKeys<T extends object>(prev: T, next: T): (keyof T)[] {
+  return (Object.keys(next) as (keyof T)[]).filter(
+    (key) => !Object.is(prev[key], next[key])
+  );
+}
+
+/** Names a step after the field that changed, or counts them. */
+export function describeChange<T extends object>(
+  prev: T,
+  next: T,
+  labels: Partial<Record<keyof T, string>>
+): string {
+  const names = [
+    ...new Set(changedKeys(prev, next).map((key) => labels[key] ?? "Edit")),
+  ];
+  if (names.length === 1) return names[0];
+  return `Edit ${names.length} settings`;
+}
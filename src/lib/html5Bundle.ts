@@ -0,0 +1,368 @@
+import JSZip from "jszip";
+import type { AdSize } from "../types";
+
+// ---------- Google HTML5 rules ----------
+
+export const HTML5_MAX_FILES = 40;
+export const HTML5_MAX_BYTES = 150 * 1024;
+export const HTML5_ALLOWED_EXTENSIONS = [
+  "html",
+  "css",
+  "js",
+  "gif",
+  "png",
+  "jpg",
+  "jpeg",
+  "svg",
+];
+
+// ---------- Types ----------
+
+export type ClickTarget = "ad" | "cta";
+
+export interface Html5Options {
+  clickTagUrl: string;
+  clickTarget: ClickTarget;
+}
+
+export interface BundleFile {
+  name: string;
+  data: Uint8Array;
+}
+
+export interface BundleViolation {
+  rule: "file-count" | "total-size" | "file-type" | "external" | "structure";
+  message: string;
+}
+
+export interface Html5Bundle {
+  size: AdSize;
+  files: BundleFile[];
+  zip: Blob;
+  zipBytes: number;
+  violations: BundleViolation[];
+}
+
+export const DEFAULT_HTML5_OPTIONS: Html5Options = {
+  clickTagUrl: "https://www.google.com",
+  clickTarget: "ad",
+};
+
+// ---------- Computed CSS ----------
+
+// Each entry is a longhand property and the value we can omit because it is
+// what the browser would compute anyway.
+const STYLE_PROPS: [string, string | null][] = [
+  ["display", "inline"],
+  ["position", "static"],
+  ["top", "auto"],
+  ["right", "auto"],
+  ["bottom", "auto"],
+  ["left", "auto"],
+  ["z-index", "auto"],
+  ["box-sizing", "content-box"],
+  ["width", null],
+  ["height", null],
+  ["min-width", "auto"],
+  ["min-height", "auto"],
+  ["max-width", "none"],
+  ["max-height", "none"],
+  ["margin-top", "0px"],
+  ["margin-right", "0px"],
+  ["margin-bottom", "0px"],
+  ["margin-left", "0px"],
+  ["padding-top", "0px"],
+  ["padding-right", "0px"],
+  ["padding-bottom", "0px"],
+  ["padding-left", "0px"],
+  ["flex-direction", "row"],
+  ["flex-wrap", "nowrap"],
+  ["flex-grow", "0"],
+  ["flex-shrink", "1"],
+  ["flex-basis", "auto"],
+  ["order", "0"],
+  ["justify-content", "normal"],
+  ["align-items", "normal"],
+  ["align-self", "auto"],
+  ["row-gap", "normal"],
+  ["column-gap", "normal"],
+  ["overflow-x", "visible"],
+  ["overflow-y", "visible"],
+  ["border-top-width", "0px"],
+  ["border-right-width", "0px"],
+  ["border-bottom-width", "0px"],
+  ["border-left-width", "0px"],
+  ["border-top-style", "none"],
+  ["border-right-style", "none"],
+  ["border-bottom-style", "none"],
+  ["border-left-style", "none"],
+  ["border-top-color", null],
+  ["border-right-color", null],
+  ["border-bottom-color", null],
+  ["border-left-color", null],
+  ["border-top-left-radius", "0px"],
+  ["border-top-right-radius", "0px"],
+  ["border-bottom-right-radius", "0px"],
+  ["border-bottom-left-radius", "0px"],
+  ["background-color", "rgba(0, 0, 0, 0)"],
+  ["color", null],
+  ["font-family", null],
+  ["font-size", null],
+  ["font-weight", "400"],
+  ["font-style", "normal"],
+  ["line-height", "normal"],
+  ["letter-spacing", "normal"],
+  ["text-align", "start"],
+  ["text-transform", "none"],
+  ["text-decoration-line", "none"],
+  ["white-space", "normal"],
+  ["text-overflow", "clip"],
+  ["word-break", "normal"],
+  ["overflow-wrap", "normal"],
+  ["direction", "ltr"],
+  ["vertical-align", "baseline"],
+  ["box-shadow", "none"],
+  ["opacity", "1"],
+  ["transform", "none"],
+  ["transform-origin", null],
+  ["object-fit", "fill"],
+  ["object-position", "50% 50%"],
+  ["visibility", "visible"],
+];
+
+function declarationsFor(el: Element): string {
+  const computed = getComputedStyle(el);
+  const hasBorder = computed.borderTopStyle !== "none";
+  const hasTransform = computed.transform !== "none";
+
+  return STYLE_PROPS.flatMap(([prop, skipValue]) => {
+    const value = computed.getPropertyValue(prop);
+    if (!value || value === skipValue) return [];
+    if (prop.endsWith("-color") && prop.startsWith("border") && !hasBorder) {
+      return [];
+    }
+    if (prop === "transform-origin" && !hasTransform) return [];
+    return [`${prop}:${value}`];
+  }).join(";");
+}
+
+/**
+ * Clones `node` with every Tailwind class replaced by a generated class that
+ * holds the browser's computed style, so the result renders without the
+ * Tailwind runtime. Identical declaration blocks share one class.
+ */
+export function inlineComputedStyles(node: HTMLElement): {
+  clone: HTMLElement;
+  css: string;
+} {
+  const clone = node.cloneNode(true) as HTMLElement;
+  const classByBlock = new Map<string, string>();
+
+  const visit = (source: Element, target: Element) => {
+    const block = declarationsFor(source);
+    let className = classByBlock.get(block);
+    if (!className) {
+      className = `c${classByBlock.size}`;
+      classByBlock.set(block, className);
+    }
+    target.removeAttribute("style");
+    target.setAttribute("class", className);
+
+    // SVG icons keep their presentation attributes; styling the root is enough.
+    if (source instanceof SVGElement) return;
+    for (let i = 0; i < source.children.length; i++) {
+      visit(source.children[i], target.children[i]);
+    }
+  };
+  visit(node, clone);
+  clone.querySelectorAll("[data-export-ignore]").forEach((el) => el.remove());
+
+  const css = Array.from(classByBlock, ([block, name]) => `.${name}{${block}}`);
+  return { clone, css: css.join("\n") };
+}
+
+// ---------- Assets ----------
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/svg+xml": "svg",
+  "image/webp": "webp",
+};
+
+async function toLocalAsset(
+  src: string,
+  index: number
+): Promise<BundleFile | null> {
+  try {
+    const res = await fetch(src);
+    const blob = await res.blob();
+    const ext = MIME_EXTENSIONS[blob.type] ?? "bin";
+    return {
+      name: `image${index + 1}.${ext}`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    };
+  } catch (err) {
+    console.warn("Could not localise asset", src, err);
+    return null;
+  }
+}
+
+// ---------- Build ----------
+
+const encoder = new TextEncoder();
+
+const CLICK_HANDLER = "window.open(window.clickTag)";
+
+export function buildIndexHtml(
+  size: AdSize,
+  body: string,
+  css: string,
+  options: Html5Options
+): string {
+  // Escape "<" so a URL can never close the inline script early.
+  const clickTag = JSON.stringify(options.clickTagUrl).replace(/</g, "\\u003c");
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="ad.size" content="width=${size.w},height=${size.h}">
+<title>${size.w}x${size.h}</title>
+<script type="text/javascript">var clickTag = ${clickTag};</script>
+<style>
+html,body{margin:0;padding:0;width:${size.w}px;height:${size.h}px;overflow:hidden}
+a.clicktag{display:block;width:100%;height:100%;color:inherit;text-decoration:none;cursor:pointer}
+${css}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Turns a rendered AdCanvas node into a Google Ads HTML5 creative: an
+ * index.html with compiled CSS, local image files and a clickTag exit.
+ * `fontCss` holds @font-face rules for any web fonts the ad uses; font files
+ * aren't an allowed upload type, so they go inline as data URLs.
+ */
+export async function buildHtml5Bundle(
+  node: HTMLElement,
+  size: AdSize,
+  options: Html5Options,
+  fontCss = ""
+): Promise<Html5Bundle> {
+  const { clone, css: classCss } = inlineComputedStyles(node);
+  const css = fontCss ? `${fontCss}\n${classCss}` : classCss;
+  const files: BundleFile[] = [];
+  const violations: BundleViolation[] = [];
+
+  const images = Array.from(clone.querySelectorAll("img"));
+  for (let i = 0; i < images.length; i++) {
+    const src = images[i].getAttribute("src") ?? "";
+    const asset = await toLocalAsset(src, i);
+    if (asset) {
+      files.push(asset);
+      images[i].setAttribute("src", asset.name);
+    } else {
+      violations.push({
+        rule: "external",
+        message: `Image could not be bundled locally: ${src.slice(0, 60)}`,
+      });
+    }
+  }
+
+  if (options.clickTarget === "cta") {
+    const cta = clone.querySelector<HTMLElement>("[data-role='cta']");
+    if (cta) {
+      cta.setAttribute("onclick", CLICK_HANDLER);
+      cta.style.cursor = "pointer";
+    } else {
+      violations.push({
+        rule: "structure",
+        message: "No CTA found to bind the clickTag to",
+      });
+    }
+  }
+  const body =
+    options.clickTarget === "ad"
+      ? `<a class="clicktag" href="javascript:${CLICK_HANDLER}">${clone.outerHTML}</a>`
+      : clone.outerHTML;
+
+  const html = buildIndexHtml(size, body, css, options);
+  files.unshift({ name: "index.html", data: encoder.encode(html) });
+
+  const zip = new JSZip();
+  files.forEach((f) => zip.file(f.name, f.data));
+  const zipData = await zip.generateAsync({
+    type: "uint8array",
+    compression: "DEFLATE",
+  });
+
+  violations.push(...validateHtml5Bundle(files, zipData.byteLength, html));
+
+  return {
+    size,
+    files,
+    zip: new Blob([zipData as BlobPart], { type: "application/zip" }),
+    zipBytes: zipData.byteLength,
+    violations,
+  };
+}
+
+// ---------- Validation ----------
+
+const EXTERNAL_REF =
+  /(?:src|href)\s*=\s*["'](?:https?:)?\/\/|url\(\s*["']?(?:https?:)?\/\/|@import/i;
+
+export function validateHtml5Bundle(
+  files: BundleFile[],
+  zipBytes: number,
+  html: string
+): BundleViolation[] {
+  const violations: BundleViolation[] = [];
+
+  if (files.length > HTML5_MAX_FILES) {
+    violations.push({
+      rule: "file-count",
+      message: `${files.length} files, Google allows ${HTML5_MAX_FILES}`,
+    });
+  }
+
+  if (zipBytes > HTML5_MAX_BYTES) {
+    violations.push({
+      rule: "total-size",
+      message: `ZIP is ${(zipBytes / 1024).toFixed(1)} KB, limit is ${
+        HTML5_MAX_BYTES / 1024
+      } KB`,
+    });
+  }
+
+  files.forEach((f) => {
+    const ext = f.name.split(".").pop()?.toLowerCase() ?? "";
+    if (!HTML5_ALLOWED_EXTENSIONS.includes(ext)) {
+      violations.push({
+        rule: "file-type",
+        message: `${f.name}: .${ext} files are not allowed`,
+      });
+    }
+  });
+
+  if (EXTERNAL_REF.test(html)) {
+    violations.push({
+      rule: "external",
+      message: "index.html references an external resource",
+    });
+  }
+  if (!/<meta name="ad\.size"/.test(html)) {
+    violations.push({ rule: "structure", message: "Missing ad.size meta tag" });
+  }
+  if (!/clickTag/.test(html)) {
+    violations.push({ rule: "structure", message: "Missing clickTag" });
+  }
+
+  return violations;
+}
@@ -0,0 +1,211 @@
+import { toCanvas } from "html-to-image";
+import { GIFEncoder, applyPalette, quantize } from "gifenc";
+import type { AdSize } from "../types";
+
+// ---------- Types ----------
+
+export type ImageFormat = "png" | "jpeg" | "webp" | "gif";
+
+export interface ImageExportSettings {
+  format: ImageFormat;
+  /** Byte budget in KB; 0 disables the search. */
+  maxKB: number;
+  /** Write files at exactly the ad size instead of a retina multiple. */
+  exactSize: boolean;
+}
+
+export interface ImageExportResult {
+  blob: Blob;
+  format: ImageFormat;
+  width: number;
+  height: number;
+  pixelRatio: number;
+  /** JPEG/WebP quality (0–1) or GIF palette size. PNG has none. */
+  quality: number | null;
+  withinBudget: boolean;
+}
+
+export const IMAGE_FORMATS: { value: ImageFormat; label: string }[] = [
+  { value: "png", label: "PNG" },
+  { value: "jpeg", label: "JPEG" },
+  { value: "webp", label: "WebP" },
+  { value: "gif", label: "GIF" },
+];
+
+export const FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  png: "png",
+  jpeg: "jpg",
+  webp: "webp",
+  gif: "gif",
+};
+
+export const DEFAULT_IMAGE_EXPORT: ImageExportSettings = {
+  format: "png",
+  maxKB: 150,
+  exactSize: false,
+};
+
+// ---------- Encoding ----------
+
+const RETINA_RATIOS = [2, 1.5, 1];
+const GIF_PALETTES = [256, 128, 64, 32, 16];
+const MIN_QUALITY = 0.3;
+const MAX_QUALITY = 0.95;
+const QUALITY_STEPS = 6;
+
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality?: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`)),
+      type,
+      quality
+    )
+  );
+}
+
+function encodeGif(canvas: HTMLCanvasElement, colors: number): Blob {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const palette = quantize(data, colors);
+  const gif = GIFEncoder();
+  gif.writeFrame(applyPalette(data, palette), canvas.width, canvas.height, {
+    palette,
+  });
+  gif.finish();
+  return new Blob([gif.bytes() as BlobPart], { type: "image/gif" });
+}
+
+function encode(
+  canvas: HTMLCanvasElement,
+  format: ImageFormat,
+  quality: number | null
+): Promise<Blob> {
+  if (format === "gif") {
+    return Promise.resolve(encodeGif(canvas, quality ?? 256));
+  }
+  return canvasToBlob(canvas, `image/${format}`, quality ?? undefined);
+}
+
+/** Debug and QA overlays mark themselves with data-export-ignore. */
+export const isExportable = (node: Node) =>
+  !(node instanceof Element && node.hasAttribute("data-export-ignore"));
+
+// ---------- Budget search ----------
+
+interface Attempt {
+  blob: Blob;
+  quality: number | null;
+}
+
+/**
+ * Finds the best quality for one canvas that fits `budget` bytes. JPEG and
+ * WebP use a binary search over quality, GIF steps down the palette and PNG
+ * has a single lossless attempt. Returns the smallest attempt when nothing
+ * fits so the caller can still report it.
+ */
+async function fitCanvas(
+  canvas: HTMLCanvasElement,
+  format: ImageFormat,
+  budget: number
+): Promise<Attempt & { fits: boolean }> {
+  if (format === "png") {
+    const blob = await encode(canvas, format, null);
+    return { blob, quality: null, fits: !budget || blob.size <= budget };
+  }
+
+  if (format === "gif") {
+    let last: Attempt | null = null;
+    for (const colors of GIF_PALETTES) {
+      const blob = await encode(canvas, format, colors);
+      last = { blob, quality: colors };
+      if (!budget || blob.size <= budget) return { ...last, fits: true };
+    }
+    return { ...last!, fits: false };
+  }
+
+  const best = await encode(canvas, format, MAX_QUALITY);
+  if (!budget || best.size <= budget) {
+    return { blob: best, quality: MAX_QUALITY, fits: true };
+  }
+
+  let lo = MIN_QUALITY;
+  let hi = MAX_QUALITY;
+  let fit: Attempt | null = null;
+  let smallest: Attempt = { blob: best, quality: MAX_QUALITY };
+  for (let i = 0; i < QUALITY_STEPS; i++) {
+    const q = (lo + hi) / 2;
+    const blob = await encode(canvas, format, q);
+    if (blob.size < smallest.blob.size) smallest = { blob, quality: q };
+    if (blob.size <= budget) {
+      fit = { blob, quality: q };
+      lo = q;
+    } else {
+      hi = q;
+    }
+  }
+  if (!fit) {
+    const blob = await encode(canvas, format, MIN_QUALITY);
+    if (blob.size <= budget) fit = { blob, quality: MIN_QUALITY };
+    else if (blob.size < smallest.blob.size) {
+      smallest = { blob, quality: MIN_QUALITY };
+    }
+  }
+  return fit ? { ...fit, fits: true } : { ...smallest, fits: false };
+}
+
+/**
+ * Renders `node` and encodes it in `settings.format`, stepping down quality
+ * and then pixel ratio until the file lands under `settings.maxKB`.
+ */
+export async function exportImage(
+  node: HTMLElement,
+  size: AdSize,
+  settings: ImageExportSettings
+): Promise<ImageExportResult> {
+  const budget = settings.maxKB * 1024;
+  const ratios = settings.exactSize ? [1] : RETINA_RATIOS;
+  let fallback: ImageExportResult | null = null;
+
+  for (const pixelRatio of ratios) {
+    const canvas = await toCanvas(node, {
+      cacheBust: true,
+      pixelRatio,
+      canvasWidth: size.w,
+      canvasHeight: size.h,
+      filter: isExportable,
+    });
+    const attempt = await fitCanvas(canvas, settings.format, budget);
+    const result: ImageExportResult = {
+      blob: attempt.blob,
+      format: settings.format,
+      width: canvas.width,
+      height: canvas.height,
+      pixelRatio,
+      quality: attempt.quality,
+      withinBudget: attempt.fits,
+    };
+    if (attempt.fits) return result;
+    if (!fallback || result.blob.size < fallback.blob.size) fallback = result;
+  }
+
+  return fallback!;
+}
+
+export function describeExport(result: ImageExportResult): string {
+  const kb = (result.blob.size / 1024).toFixed(1);
+  const quality =
+    result.quality === null
+      ? ""
+      : result.format === "gif"
+      ? ` ${result.quality} colours`
+      : ` q${Math.round(result.quality * 100)}`;
+  return `${kb} KB · ${result.width}x${
+    result.height
+  } · ${result.format.toUpperCase()}${quality}`;
+}
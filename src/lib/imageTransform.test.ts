@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { SNAP_THRESHOLD, snapOffset } from "./imageTransform";
+
+const SLOT = { w: 300, h: 250 };
+const SQUARE = { w: 100, h: 100 };
+
+describe("snapOffset", () => {
+  it("snaps the left edge onto the slot edge", () => {
+    // Left edge at x = 3; y stays clear of every line.
+    expect(snapOffset({ x: -97, y: 20 }, SLOT, SQUARE)).toEqual({
+      offset: { x: -100, y: 20 },
+      guides: [{ axis: "x", at: 0 }],
+    });
+  });
+
+  it("snaps the bottom edge onto the slot edge", () => {
+    // Bottom edge at y = 248.
+    expect(snapOffset({ x: 20, y: 73 }, SLOT, SQUARE)).toEqual({
+      offset: { x: 20, y: 75 },
+      guides: [{ axis: "y", at: 250 }],
+    });
+  });
+
+  it("snaps the image centre onto the slot centre", () => {
+    expect(snapOffset({ x: 2, y: 20 }, SLOT, { w: 120, h: 100 })).toEqual({
+      offset: { x: 0, y: 20 },
+      guides: [{ axis: "x", at: 150 }],
+    });
+  });
+
+  it("snaps both axes at once", () => {
+    expect(snapOffset({ x: -97, y: 73 }, SLOT, SQUARE).guides).toEqual([
+      { axis: "x", at: 0 },
+      { axis: "y", at: 250 },
+    ]);
+  });
+
+  it("leaves offsets just past the threshold alone", () => {
+    const offset = { x: -100 + SNAP_THRESHOLD + 1, y: 20 };
+    expect(snapOffset(offset, SLOT, SQUARE)).toEqual({ offset, guides: [] });
+  });
+
+  it("snaps exactly at the threshold", () => {
+    const offset = { x: -100 + SNAP_THRESHOLD, y: 20 };
+    expect(snapOffset(offset, SLOT, SQUARE).offset.x).toBe(-100);
+  });
+
+  it("takes a custom threshold", () => {
+    expect(snapOffset({ x: -92, y: 20 }, SLOT, SQUARE, 10).offset.x).toBe(-100);
+  });
+});
@@ -0,0 +1,105 @@
+import type { AdPreviewSettings, ImageOverride, SizeOverrides } from "../types";
+
+// ---------- Image scale / offset ----------
+
+export const IMAGE_SCALE_RANGE = { min: 0.2, max: 3, step: 0.05 };
+
+/** Layers a per-size override on top of the shared settings. */
+export function applyOverride(
+  settings: AdPreviewSettings,
+  override: ImageOverride | undefined
+): AdPreviewSettings {
+  if (!override) return settings;
+  return {
+    ...settings,
+    imageScale: override.imageScale ?? settings.imageScale,
+    imageOffset: override.imageOffset ?? settings.imageOffset,
+    manualCrop: true,
+  };
+}
+
+export function updateOverride(
+  overrides: SizeOverrides,
+  sizeId: string,
+  patch: ImageOverride
+): SizeOverrides {
+  return { ...overrides, [sizeId]: { ...overrides[sizeId], ...patch } };
+}
+
+export function clearOverride(
+  overrides: SizeOverrides,
+  sizeId: string
+): SizeOverrides {
+  const next = { ...overrides };
+  delete next[sizeId];
+  return next;
+}
+
+// ---------- Nudging & snapping ----------
+
+/** Arrow-key nudges in px; Shift uses the large step. */
+export const NUDGE_STEP = 1;
+export const NUDGE_STEP_LARGE = 10;
+
+export const NUDGE_KEYS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+/** How close, in px, an image edge or centre has to be to snap. */
+export const SNAP_THRESHOLD = 4;
+
+/** Slot edges, thirds and centre, as fractions of its width or height. */
+const SNAP_LINES = [0, 1 / 3, 1 / 2, 2 / 3, 1];
+
+/** A line in slot coordinates the image is snapped to. */
+export interface SnapGuide {
+  axis: "x" | "y";
+  at: number;
+}
+
+function snapAxis(
+  center: number,
+  half: number,
+  length: number,
+  threshold: number
+): { delta: number; at: number } | null {
+  let best: { delta: number; at: number } | null = null;
+  for (const line of SNAP_LINES) {
+    const at = line * length;
+    for (const anchor of [center - half, center, center + half]) {
+      const delta = at - anchor;
+      if (
+        Math.abs(delta) <= threshold &&
+        (!best || Math.abs(delta) < Math.abs(best.delta))
+      ) {
+        best = { delta, at };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Pulls the image's edges or centre onto the nearest slot line. The offset
+ * is measured from the slot centre and `image` is the scaled size, matching
+ * how AdCanvas transforms the image.
+ */
+export function snapOffset(
+  offset: { x: number; y: number },
+  slot: { w: number; h: number },
+  image: { w: number; h: number },
+  threshold = SNAP_THRESHOLD
+): { offset: { x: number; y: number }; guides: SnapGuide[] } {
+  const x = snapAxis(slot.w / 2 + offset.x, image.w / 2, slot.w, threshold);
+  const y = snapAxis(slot.h / 2 + offset.y, image.h / 2, slot.h, threshold);
+  const guides: SnapGuide[] = [];
+  if (x) guides.push({ axis: "x", at: x.at });
+  if (y) guides.push({ axis: "y", at: y.at });
+  return {
+    offset: { x: offset.x + (x?.delta ?? 0), y: offset.y + (y?.delta ?? 0) },
+    guides,
+  };
+}
@@ -0,0 +1,206 @@
+import type { AdSize } from "../types";
+import type { CopyFontSizes } from "./textFit";
+
+// ---------- Types ----------
+
+/** Shape buckets a template gives separate layouts for. */
+export type AspectClass = "micro" | "leaderboard" | "skyscraper" | "box";
+
+export type LayoutRegion = "image" | "text" | "cta";
+
+export type ImagePlacement =
+  /** Its own region in the flow; `size` is the width (row) or height (column). */
+  | { mode: "inline"; size: string; margin?: string }
+  /** Fills the whole ad behind the copy. */
+  | { mode: "background" };
+
+export interface TemplateLayout {
+  direction: "row" | "column";
+  /** Flow order. A background image or inline CTA is skipped here. */
+  order: LayoutRegion[];
+  image: ImagePlacement;
+  /** px around the whole ad and between regions. */
+  padding: number;
+  gap: number;
+  textAlign: "left" | "center";
+  /** Where the copy sits in its region along the main axis. */
+  textJustify?: "center" | "end";
+  /** "end" pins the CTA to the end of the ad; "inline" puts it under the copy. */
+  cta: "end" | "inline";
+  fonts: CopyFontSizes;
+  showSubhead: boolean;
+  /** Gradient between a background image and the copy; forces light text. */
+  scrim?: boolean;
+}
+
+export interface LayoutTemplate {
+  id: string;
+  name: string;
+  description: string;
+  layouts: Record<AspectClass, TemplateLayout>;
+}
+
+// ---------- Classification ----------
+
+export function aspectClass(size: AdSize): AspectClass {
+  if (size.h <= 60) return "micro";
+  if (size.w > size.h * 1.5) return "leaderboard";
+  if (size.h > size.w * 1.5) return "skyscraper";
+  return "box";
+}
+
+// ---------- Built-in templates ----------
+
+const MICRO_FONTS: CopyFontSizes = { headline: 11, subhead: 12, cta: 10 };
+const ROW_FONTS: CopyFontSizes = { headline: 18, subhead: 12, cta: 12 };
+const TALL_FONTS: CopyFontSizes = { headline: 20, subhead: 14, cta: 12 };
+const BOX_FONTS: CopyFontSizes = { headline: 18, subhead: 12, cta: 12 };
+
+/** The original hard-coded arrangement. */
+const classic: LayoutTemplate = {
+  id: "classic",
+  name: "Classic",
+  description: "Image on top (or right in wide sizes), CTA at the end.",
+  layouts: {
+    micro: {
+      direction: "row",
+      order: ["text", "cta", "image"],
+      image: { mode: "inline", size: "48px" },
+      padding: 12,
+      gap: 16,
+      textAlign: "left",
+      cta: "end",
+      fonts: MICRO_FONTS,
+      showSubhead: false,
+    },
+    leaderboard: {
+      direction: "row",
+      order: ["text", "cta", "image"],
+      image: { mode: "inline", size: "25%" },
+      padding: 12,
+      gap: 16,
+      textAlign: "left",
+      cta: "end",
+      fonts: ROW_FONTS,
+      showSubhead: true,
+    },
+    skyscraper: {
+      direction: "column",
+      order: ["image", "text", "cta"],
+      image: { mode: "inline", size: "33.333%", margin: "32px 0 0" },
+      padding: 12,
+      gap: 8,
+      textAlign: "center",
+      cta: "end",
+      fonts: TALL_FONTS,
+      showSubhead: true,
+    },
+    box: {
+      direction: "column",
+      order: ["image", "text", "cta"],
+      image: { mode: "inline", size: "50%", margin: "16px 0 0" },
+      padding: 12,
+      gap: 8,
+      textAlign: "center",
+      cta: "end",
+      fonts: BOX_FONTS,
+      showSubhead: true,
+    },
+  },
+};
+
+const sideImage = (side: "left" | "right"): LayoutTemplate => {
+  const rowOrder: LayoutRegion[] =
+    side === "left" ? ["image", "text", "cta"] : ["text", "cta", "image"];
+  const row = (
+    size: string,
+    fonts: CopyFontSizes,
+    showSubhead: boolean
+  ): TemplateLayout => ({
+    direction: "row",
+    order: rowOrder,
+    image: { mode: "inline", size },
+    padding: 12,
+    gap: 12,
+    textAlign: "left",
+    cta: "end",
+    fonts,
+    showSubhead,
+  });
+  return {
+    id: `image-${side}`,
+    name: `Image ${side}`,
+    description: `Image beside the copy on the ${side}; stacked in tall sizes.`,
+    layouts: {
+      micro: row("48px", MICRO_FONTS, false),
+      leaderboard: row("30%", ROW_FONTS, true),
+      skyscraper: classic.layouts.skyscraper,
+      box: {
+        ...row("45%", { headline: 16, subhead: 11, cta: 11 }, true),
+        // Side-by-side boxes are too narrow for a separate CTA column.
+        order: side === "left" ? ["image", "text"] : ["text", "image"],
+        cta: "inline",
+      },
+    },
+  };
+};
+
+const ctaUnderHeadline: LayoutTemplate = {
+  id: "cta-under-headline",
+  name: "CTA under headline",
+  description: "Classic, but the CTA sits right below the copy.",
+  layouts: {
+    micro: classic.layouts.micro,
+    leaderboard: { ...classic.layouts.leaderboard, cta: "inline" },
+    skyscraper: { ...classic.layouts.skyscraper, cta: "inline" },
+    box: { ...classic.layouts.box, cta: "inline" },
+  },
+};
+
+const fullBleed = (
+  base: TemplateLayout,
+  overrides: Partial<TemplateLayout> = {}
+): TemplateLayout => ({
+  ...base,
+  image: { mode: "background" },
+  order: base.order.filter((r) => r !== "image"),
+  scrim: true,
+  textJustify: base.direction === "column" ? "end" : "center",
+  ...overrides,
+});
+
+const fullBleedScrim: LayoutTemplate = {
+  id: "full-bleed",
+  name: "Full-bleed image",
+  description: "Image fills the ad behind a dark scrim with light copy.",
+  layouts: {
+    micro: fullBleed(classic.layouts.micro),
+    leaderboard: fullBleed(classic.layouts.leaderboard),
+    skyscraper: fullBleed(classic.layouts.skyscraper, {
+      padding: 16,
+      cta: "inline",
+    }),
+    box: fullBleed(classic.layouts.box, { padding: 16, cta: "inline" }),
+  },
+};
+
+export const LAYOUT_TEMPLATES: LayoutTemplate[] = [
+  classic,
+  sideImage("left"),
+  sideImage("right"),
+  ctaUnderHeadline,
+  fullBleedScrim,
+];
+
+export const DEFAULT_LAYOUT_TEMPLATE = classic.id;
+
+export function getLayoutTemplate(id: string | undefined): LayoutTemplate {
+  return LAYOUT_TEMPLATES.find((t) => t.id === id) ?? classic;
+}
+
+export function resolveLayout(
+  templateId: string | undefined,
+  size: AdSize
+): TemplateLayout {
+  return getLayoutTemplate(templateId).layouts[aspectClass(size)];
+}
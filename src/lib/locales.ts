@@ -0,0 +1,81 @@
+// ---------- Types ----------
+
+export interface LocaleCopy {
+  headline: string;
+  subhead: string;
+  cta: string;
+}
+
+export interface LocaleOption {
+  /** BCP 47 tag, used for `lang` and in export paths. */
+  code: string;
+  name: string;
+}
+
+export type TextDirection = "ltr" | "rtl";
+
+export const DEFAULT_LOCALE = "en";
+
+export const LOCALE_OPTIONS: LocaleOption[] = [
+  { code: "en", name: "English" },
+  { code: "en-GB", name: "English (UK)" },
+  { code: "de", name: "German" },
+  { code: "fr", name: "French" },
+  { code: "es", name: "Spanish" },
+  { code: "it", name: "Italian" },
+  { code: "pt-BR", name: "Portuguese (Brazil)" },
+  { code: "nl", name: "Dutch" },
+  { code: "pl", name: "Polish" },
+  { code: "tr", name: "Turkish" },
+  { code: "ru", name: "Russian" },
+  { code: "ar", name: "Arabic" },
+  { code: "he", name: "Hebrew" },
+  { code: "fa", name: "Persian" },
+  { code: "hi", name: "Hindi" },
+  { code: "th", name: "Thai" },
+  { code: "vi", name: "Vietnamese" },
+  { code: "id", name: "Indonesian" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "zh-CN", name: "Chinese (Simplified)" },
+  { code: "zh-TW", name: "Chinese (Traditional)" },
+];
+
+const RTL_LANGUAGES = new Set(["ar", "he", "fa", "ur"]);
+
+// ---------- Helpers ----------
+
+export function textDirection(code: string | undefined): TextDirection {
+  const language = (code ?? "").split("-")[0].toLowerCase();
+  return RTL_LANGUAGES.has(language) ? "rtl" : "ltr";
+}
+
+export function localeName(code: string): string {
+  return LOCALE_OPTIONS.find((l) => l.code === code)?.name ?? code;
+}
+
+/**
+ * The project's locales in the order they were added. `copy` holds every
+ * locale but the active one is only current in the editor fields.
+ */
+export function localeCodes(
+  active: string,
+  copy: Record<string, LocaleCopy>
+): string[] {
+  const codes = Object.keys(copy);
+  return codes.includes(active) ? codes : [active, ...codes];
+}
+
+/** Writes the editor's copy back into the active locale's entry. */
+export function storeLocaleCopy(
+  active: string,
+  copy: Record<string, LocaleCopy>,
+  current: LocaleCopy
+): Record<string, LocaleCopy> {
+  return Object.fromEntries(
+    localeCodes(active, copy).map((code) => [
+      code,
+      code === active ? current : copy[code],
+    ])
+  );
+}
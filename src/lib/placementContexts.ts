@@ -0,0 +1,138 @@
+import type { AdSize } from "../types";
+import { aspectClass } from "./layoutTemplates";
+
+// ---------- Types ----------
+
+export type PlacementContextId =
+  | "news"
+  | "mobile-app"
+  | "dark-site"
+  | "gmail"
+  | "youtube";
+
+export type DeviceId = "desktop" | "laptop" | "tablet" | "phone";
+
+/** Where in the mock page an ad lands. */
+export type SlotId = "top" | "sidebar" | "inline" | "anchor" | "companion";
+
+export interface Viewport {
+  id: DeviceId;
+  label: string;
+  w: number;
+  h: number;
+  /** Phones and tablets get a bezel; the others a browser window. */
+  frame: "browser" | "device";
+}
+
+export interface PlacementContext {
+  id: PlacementContextId;
+  label: string;
+  description: string;
+  devices: DeviceId[];
+}
+
+export const VIEWPORTS: Record<DeviceId, Viewport> = {
+  desktop: {
+    id: "desktop",
+    label: "Desktop",
+    w: 1280,
+    h: 800,
+    frame: "browser",
+  },
+  laptop: { id: "laptop", label: "Laptop", w: 1024, h: 700, frame: "browser" },
+  tablet: { id: "tablet", label: "Tablet", w: 768, h: 1024, frame: "device" },
+  phone: { id: "phone", label: "Phone", w: 390, h: 844, frame: "device" },
+};
+
+export const PLACEMENT_CONTEXTS: PlacementContext[] = [
+  {
+    id: "news",
+    label: "News article",
+    description: "Publisher page with a leaderboard and sidebar",
+    devices: ["desktop", "laptop", "tablet", "phone"],
+  },
+  {
+    id: "mobile-app",
+    label: "Mobile app",
+    description: "App feed with a 320x50 style anchor",
+    devices: ["phone"],
+  },
+  {
+    id: "dark-site",
+    label: "Dark-mode site",
+    description: "The same page on a dark theme, to check edges and halos",
+    devices: ["desktop", "laptop", "tablet", "phone"],
+  },
+  {
+    id: "gmail",
+    label: "Gmail promotions",
+    description: "Inbox promotions tab with a sponsored slot",
+    devices: ["desktop", "laptop"],
+  },
+  {
+    id: "youtube",
+    label: "YouTube companion",
+    description: "Watch page with a companion banner beside the player",
+    devices: ["desktop", "laptop"],
+  },
+];
+
+// ---------- Slots ----------
+
+/** Column widths the mocks are laid out with. */
+export const SIDEBAR_WIDTH = 336;
+export const PAGE_GUTTER = 24;
+
+/**
+ * Picks the slot a size would realistically run in, or null when the
+ * context has nowhere to put it at this viewport.
+ */
+export function slotFor(
+  context: PlacementContextId,
+  size: AdSize,
+  viewport: Viewport
+): SlotId | null {
+  const shape = aspectClass(size);
+  const content = viewport.w - PAGE_GUTTER * 2;
+  const hasSidebar = viewport.w >= 1024;
+
+  switch (context) {
+    case "news":
+    case "dark-site":
+      if (size.w > content) return null;
+      if (shape === "leaderboard" || (shape === "micro" && viewport.w > 480)) {
+        return "top";
+      }
+      if (shape === "micro") return "anchor";
+      if (hasSidebar && size.w <= SIDEBAR_WIDTH) return "sidebar";
+      return "inline";
+    case "mobile-app":
+      if (size.w > viewport.w) return null;
+      return shape === "micro" || size.h <= 100 ? "anchor" : "inline";
+    case "gmail":
+      if (shape === "leaderboard" && size.w <= content - 256) return "top";
+      if (hasSidebar && size.w <= 300) return "sidebar";
+      return null;
+    case "youtube":
+      return size.w <= 300 && size.h <= 250 ? "companion" : null;
+  }
+}
+
+export function describeSlot(slot: SlotId): string {
+  switch (slot) {
+    case "top":
+      return "Above the content";
+    case "sidebar":
+      return "Right rail";
+    case "inline":
+      return "In the content";
+    case "anchor":
+      return "Sticky anchor";
+    case "companion":
+      return "Companion slot";
+  }
+}
+
+export function getPlacementContext(id: PlacementContextId): PlacementContext {
+  return PLACEMENT_CONTEXTS.find((c) => c.id === id) ?? PLACEMENT_CONTEXTS[0];
+}
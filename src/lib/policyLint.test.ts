@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_POLICY_CONFIG, lintCopy, normalizeConfig } from "./policyLint";
+
+const ruleIds = (subhead: string) =>
+  lintCopy({ headline: "", subhead, cta: "" }, DEFAULT_POLICY_CONFIG).map(
+    (i) => i.ruleId
+  );
+
+describe("missing-space", () => {
+  it.each(["Visit www.site.com today", "Order at shop.example.com"])(
+    "skips hostnames in %j",
+    (text) => expect(ruleIds(text)).not.toContain("missing-space")
+  );
+
+  it("flags words joined by a full stop", () => {
+    expect(ruleIds("Shop now.Save more")).toContain("missing-space");
+  });
+});
+
+describe("phone-number", () => {
+  it.each(["Sale 2024-2025 season", "Over 1 000 000 happy customers"])(
+    "ignores %j",
+    (text) => expect(ruleIds(text)).not.toContain("phone-number")
+  );
+
+  it("warns about phone numbers", () => {
+    const [issue] = lintCopy(
+      { headline: "", subhead: "Call +44 20 7946 0958", cta: "" },
+      DEFAULT_POLICY_CONFIG
+    ).filter((i) => i.ruleId === "phone-number");
+    expect(issue.severity).toBe("warning");
+  });
+});
+
+describe("normalizeConfig", () => {
+  it("drops word list entries that aren't strings", () => {
+    const config = normalizeConfig({
+      allowedCaps: ["NASA", 42, null] as unknown as string[],
+      vagueCtas: [{}, "Click here"] as unknown as string[],
+    });
+    expect(config.allowedCaps).toEqual(["NASA"]);
+    expect(config.vagueCtas).toEqual(["Click here"]);
+  });
+});
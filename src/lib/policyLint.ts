@@ -0,0 +1,290 @@
+import type { LocaleCopy } from "./locales";
+import { csvCell } from "./batchExport";
+
+// ---------- Types ----------
+
+export type LintField = keyof LocaleCopy;
+export type LintSeverity = "error" | "warning" | "info";
+
+export interface PolicyRule {
+  id: string;
+  label: string;
+  /** Why Google disapproves it, shown under each issue. */
+  explanation: string;
+  fields: LintField[];
+  severity: LintSeverity;
+  /** Returns the offending fragments, empty when the text passes. */
+  check: (text: string, config: PolicyConfig) => string[];
+}
+
+export interface RuleSetting {
+  enabled: boolean;
+  severity: LintSeverity;
+}
+
+/** One account's rule setup. */
+export interface PolicyConfig {
+  rules: Record<string, RuleSetting>;
+  /** All-caps words that are fine, e.g. brand names and acronyms. */
+  allowedCaps: string[];
+  /** CTA labels treated as vague, compared case-insensitively. */
+  vagueCtas: string[];
+}
+
+export interface LintIssue {
+  ruleId: string;
+  field: LintField;
+  severity: LintSeverity;
+  label: string;
+  explanation: string;
+  matches: string[];
+}
+
+export const LINT_FIELDS: { id: LintField; label: string }[] = [
+  { id: "headline", label: "Headline" },
+  { id: "subhead", label: "Subhead" },
+  { id: "cta", label: "CTA" },
+];
+
+export const SEVERITIES: LintSeverity[] = ["error", "warning", "info"];
+
+// ---------- Rules ----------
+
+const ALL_FIELDS: LintField[] = ["headline", "subhead", "cta"];
+
+const matchAll = (text: string, re: RegExp) =>
+  Array.from(text.matchAll(re), (m) => m[0]);
+
+// "2024-2025" and "1 000 000" look like phone numbers to the digit count.
+const YEAR_RANGE = /^(?:19|20)\d{2}\s*[-–]\s*(?:19|20)\d{2}$/;
+const GROUPED_QUANTITY = /^\d{1,3}(?:[ ,.]\d{3})+$/;
+
+/** URLs and bare hostnames ("www.site.com"), skipped by missing-space. */
+const HOSTNAME =
+  /(?:https?:\/\/)?(?:[\p{L}\d-]+\.)+(?:com|net|org|io|co|app|shop|store|info|biz|dev|ai|[a-z]{2})(?![\p{L}\d])(?:\/\S*)?/gu;
+
+export const POLICY_RULES: PolicyRule[] = [
+  {
+    id: "excessive-caps",
+    label: "Excessive capitalisation",
+    explanation:
+      'Words in all caps ("FREE SHIPPING") are disapproved under Editorial > Capitalisation. Acronyms and brand names can be allowed in the account settings.',
+    fields: ALL_FIELDS,
+    severity: "error",
+    check: (text, config) => {
+      const allowed = new Set(config.allowedCaps.map((w) => w.toUpperCase()));
+      return matchAll(text, /\p{Lu}{3,}/gu).filter((w) => !allowed.has(w));
+    },
+  },
+  {
+    id: "repeated-punctuation",
+    label: "Repeated punctuation",
+    explanation:
+      'Repeated or gimmicky punctuation such as "!!" or "?!" isn\'t allowed in ad text.',
+    fields: ALL_FIELDS,
+    severity: "error",
+    check: (text) => matchAll(text, /[!?]{2,}|,{2,}|[;:]{2,}|\.{4,}/g),
+  },
+  {
+    id: "headline-exclamation",
+    label: "Exclamation mark in headline",
+    explanation:
+      "Headlines can't contain an exclamation mark; move the emphasis to the description.",
+    fields: ["headline"],
+    severity: "error",
+    check: (text) => (text.includes("!") ? ["!"] : []),
+  },
+  {
+    id: "symbols",
+    label: "Emoji or gimmicky symbols",
+    explanation:
+      "Emoji and decorative symbols (★, ✓, →) are disapproved as non-standard use of symbols. ©, ® and ™ are fine.",
+    fields: ALL_FIELDS,
+    severity: "error",
+    check: (text) =>
+      matchAll(
+        text,
+        /(?![©®™])\p{Extended_Pictographic}|[\u2190-\u21FF\u25A0-\u25FF\u2700-\u27BF\u2605\u2606\u2022]/gu
+      ),
+  },
+  {
+    id: "phone-number",
+    label: "Phone number in ad text",
+    explanation:
+      "Phone numbers belong in call assets, not in the ad copy itself.",
+    fields: ALL_FIELDS,
+    severity: "warning",
+    check: (text) =>
+      matchAll(text, /\+?\(?\d[\d\s().-]{5,}\d/g).filter(
+        (m) =>
+          m.replace(/\D/g, "").length >= 7 &&
+          !YEAR_RANGE.test(m) &&
+          !GROUPED_QUANTITY.test(m)
+      ),
+  },
+  {
+    id: "missing-space",
+    label: "Missing space",
+    explanation:
+      'Words joined by punctuation without a space ("Shop now.Save 20%") read as a gimmick and are disapproved for spacing.',
+    fields: ALL_FIELDS,
+    severity: "warning",
+    check: (text) =>
+      matchAll(text.replace(HOSTNAME, " "), /\p{L}{2,}[,.!?;:]\p{L}{2,}/gu),
+  },
+  {
+    id: "vague-cta",
+    label: "Vague call to action",
+    explanation:
+      'Generic CTAs like "Click here" are flagged as unclear; say what happens next ("Get a quote", "Shop sale").',
+    fields: ["cta"],
+    severity: "warning",
+    check: (text, config) => {
+      const normal = text
+        .trim()
+        .toLowerCase()
+        .replace(/[.!]+$/, "");
+      return config.vagueCtas.some((v) => v.toLowerCase() === normal)
+        ? [text.trim()]
+        : [];
+    },
+  },
+];
+
+export const DEFAULT_POLICY_CONFIG: PolicyConfig = {
+  rules: Object.fromEntries(
+    POLICY_RULES.map((r) => [r.id, { enabled: true, severity: r.severity }])
+  ),
+  allowedCaps: ["USA", "UK", "EU", "FAQ", "SUV", "CEO", "DIY"],
+  vagueCtas: ["Click here", "Click", "Here", "More", "Go", "Submit", "Read"],
+};
+
+// ---------- Linting ----------
+
+export function ruleSetting(config: PolicyConfig, rule: PolicyRule) {
+  return config.rules[rule.id] ?? { enabled: true, severity: rule.severity };
+}
+
+export function lintCopy(copy: LocaleCopy, config: PolicyConfig): LintIssue[] {
+  const issues: LintIssue[] = [];
+  for (const rule of POLICY_RULES) {
+    const setting = ruleSetting(config, rule);
+    if (!setting.enabled) continue;
+    for (const field of rule.fields) {
+      const matches = copy[field] ? rule.check(copy[field], config) : [];
+      if (matches.length) {
+        issues.push({
+          ruleId: rule.id,
+          field,
+          severity: setting.severity,
+          label: rule.label,
+          explanation: rule.explanation,
+          matches: [...new Set(matches)],
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+export function countBySeverity(
+  issues: LintIssue[]
+): Record<LintSeverity, number> {
+  const counts = { error: 0, warning: 0, info: 0 };
+  issues.forEach((i) => counts[i.severity]++);
+  return counts;
+}
+
+/** One row per issue, for every locale. */
+export function lintReportCsv(
+  account: string,
+  copies: { locale: string; copy: LocaleCopy }[],
+  config: PolicyConfig
+): string {
+  const header = [
+    "account",
+    "locale",
+    "field",
+    "text",
+    "rule",
+    "severity",
+    "matches",
+    "explanation",
+  ];
+  const rows = copies.flatMap(({ locale, copy }) =>
+    lintCopy(copy, config).map((issue) =>
+      [
+        account,
+        locale,
+        issue.field,
+        copy[issue.field],
+        issue.label,
+        issue.severity,
+        issue.matches.join(" | "),
+        issue.explanation,
+      ]
+        .map(csvCell)
+        .join(",")
+    )
+  );
+  return [header.join(","), ...rows].join("\r\n");
+}
+
+// ---------- Accounts ----------
+
+export interface PolicySettings {
+  /** Rule setups keyed by account name. */
+  accounts: Record<string, PolicyConfig>;
+  active: string;
+}
+
+export const DEFAULT_POLICY_SETTINGS: PolicySettings = {
+  accounts: { Default: DEFAULT_POLICY_CONFIG },
+  active: "Default",
+};
+
+const STORAGE_KEY = "ga-visualizer-policy";
+
+/** Fills in rules added since the config was saved. */
+export function normalizeConfig(raw: Partial<PolicyConfig>): PolicyConfig {
+  return {
+    rules: { ...DEFAULT_POLICY_CONFIG.rules, ...(raw.rules ?? {}) },
+    allowedCaps: Array.isArray(raw.allowedCaps)
+      ? raw.allowedCaps.filter((w) => typeof w === "string")
+      : DEFAULT_POLICY_CONFIG.allowedCaps,
+    vagueCtas: Array.isArray(raw.vagueCtas)
+      ? raw.vagueCtas.filter((c) => typeof c === "string")
+      : DEFAULT_POLICY_CONFIG.vagueCtas,
+  };
+}
+
+export function loadPolicySettings(): PolicySettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<PolicySettings>;
+      if (parsed.accounts && typeof parsed.active === "string") {
+        const accounts = Object.fromEntries(
+          Object.entries(parsed.accounts).map(([name, config]) => [
+            name,
+            normalizeConfig(config),
+          ])
+        );
+        if (accounts[parsed.active]) {
+          return { accounts, active: parsed.active };
+        }
+      }
+    }
+  } catch (e) {
+    console.warn("Could not load policy settings", e);
+  }
+  return DEFAULT_POLICY_SETTINGS;
+}
+
+export function savePolicySettings(settings: PolicySettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save policy settings", e);
+  }
+}
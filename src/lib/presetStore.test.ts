@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { validatePreset } from "./presetStore";
+
+const base = {
+  id: "p1",
+  name: "Spring",
+  headline: "Headline",
+  subhead: "Subhead",
+  cta: "Shop",
+  primaryColor: "#EF4444",
+  darkMode: false,
+  imageScale: 1,
+  imageOffset: { x: 0, y: 0 },
+};
+
+describe("validatePreset", () => {
+  it("drops optional fields of the wrong type", () => {
+    const preset = validatePreset({
+      ...base,
+      sizeOverrides: "300x250",
+      textFit: 1,
+      layoutTemplate: 2,
+      sizeTemplates: { "300x250": 3 },
+    });
+    expect(preset).not.toBeNull();
+    expect(preset).not.toHaveProperty("sizeOverrides");
+    expect(preset).not.toHaveProperty("textFit");
+    expect(preset).not.toHaveProperty("layoutTemplate");
+    expect(preset).not.toHaveProperty("sizeTemplates");
+  });
+
+  it("keeps well-formed optional fields", () => {
+    const sizeOverrides = { "300x250": { imageScale: 1.2 } };
+    expect(validatePreset({ ...base, sizeOverrides })?.sizeOverrides).toEqual(
+      sizeOverrides
+    );
+  });
+
+  it("rejects presets missing required fields", () => {
+    expect(validatePreset({ ...base, headline: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import type { Preset } from "../types";
+import { withStore } from "./db";
+import {
+  isOffset,
+  isRecord,
+  isSizeOverrides,
+  isStringRecord,
+  isTextFit,
+} from "./guards";
+
+// ---------- Validation ----------
+
+/**
+ * Returns a clean Preset, or null when required fields are missing or
+ * mistyped. Optional fields of the wrong type are dropped.
+ */
+export function validatePreset(raw: unknown): Preset | null {
+  if (!isRecord(raw)) return null;
+  const {
+    id,
+    name,
+    headline,
+    subhead,
+    cta,
+    primaryColor,
+    darkMode,
+    imageScale,
+    imageOffset,
+  } = raw;
+  if (
+    typeof id !== "string" ||
+    typeof name !== "string" ||
+    typeof headline !== "string" ||
+    typeof subhead !== "string" ||
+    typeof cta !== "string" ||
+    typeof primaryColor !== "string" ||
+    typeof darkMode !== "boolean" ||
+    typeof imageScale !== "number" ||
+    !isOffset(imageOffset)
+  ) {
+    return null;
+  }
+  return {
+    id,
+    name,
+    headline,
+    subhead,
+    cta,
+    primaryColor,
+    darkMode,
+    imageScale,
+    imageOffset,
+    ...(isSizeOverrides(raw.sizeOverrides) && {
+      sizeOverrides: raw.sizeOverrides,
+    }),
+    ...(typeof raw.autoCtaText === "boolean" && {
+      autoCtaText: raw.autoCtaText,
+    }),
+    ...(isTextFit(raw.textFit) && { textFit: raw.textFit }),
+    ...(typeof raw.layoutTemplate === "string" && {
+      layoutTemplate: raw.layoutTemplate,
+    }),
+    ...(isStringRecord(raw.sizeTemplates) && {
+      sizeTemplates: raw.sizeTemplates,
+    }),
+    folder: typeof raw.folder === "string" ? raw.folder : "",
+    tags: Array.isArray(raw.tags)
+      ? raw.tags.filter((t): t is string => typeof t === "string")
+      : [],
+    updatedAt: typeof raw.updatedAt === "number" ? raw.updatedAt : 0,
+  };
+}
+
+/** Validates a list, keeping good entries and counting the rest. */
+export function validatePresets(list: unknown[]): {
+  presets: Preset[];
+  skipped: number;
+} {
+  const presets: Preset[] = [];
+  list.forEach((raw) => {
+    const preset = validatePreset(raw);
+    if (preset) presets.push(preset);
+  });
+  return { presets, skipped: list.length - presets.length };
+}
+
+export const newPresetId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Newest first. */
+export const sortPresets = (presets: Preset[]) =>
+  [...presets].sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0));
+
+// ---------- IndexedDB ----------
+
+const STORE = "presets";
+const LEGACY_KEY = "ga-visualizer-presets";
+
+export async function savePresets(presets: Preset[]): Promise<void> {
+  await withStore(STORE, "readwrite", (store) => {
+    presets.forEach((p) => store.put(p));
+  });
+}
+
+export async function deletePresetRecord(id: string): Promise<void> {
+  await withStore(STORE, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Copies presets from the old localStorage key into IndexedDB once, then
+ * removes the key. Entries that fail validation are skipped with a warning.
+ */
+async function migrateLegacyPresets(): Promise<void> {
+  const raw = localStorage.getItem(LEGACY_KEY);
+  if (!raw) return;
+  let list: unknown;
+  try {
+    list = JSON.parse(raw);
+  } catch (e) {
+    console.warn("Legacy presets are not valid JSON; leaving them in place", e);
+    return;
+  }
+  if (!Array.isArray(list)) return;
+  const { presets, skipped } = validatePresets(list);
+  if (skipped) console.warn(`Skipped ${skipped} invalid legacy preset(s)`);
+  // Old presets were stored newest first; keep that order.
+  const now = Date.now();
+  await savePresets(
+    presets.map((p, i) => ({ ...p, updatedAt: p.updatedAt || now - i }))
+  );
+  localStorage.removeItem(LEGACY_KEY);
+}
+
+/** Loads every valid preset; corrupted records are skipped, not deleted. */
+export async function loadPresetLibrary(): Promise<{
+  presets: Preset[];
+  skipped: number;
+}> {
+  try {
+    await migrateLegacyPresets();
+  } catch (e) {
+    console.warn("Could not migrate legacy presets", e);
+  }
+  const records = await withStore<unknown[]>(STORE, "readonly", (store) =>
+    store.getAll()
+  );
+  const { presets, skipped } = validatePresets(records ?? []);
+  if (skipped) console.warn(`Skipped ${skipped} invalid preset record(s)`);
+  return { presets: sortPresets(presets), skipped };
+}
+
+// ---------- Import / export ----------
+
+const EXPORT_FORMAT = "google-ads-visualizer-presets";
+
+export function exportPresetsBlob(presets: Preset[]): Blob {
+  return new Blob(
+    [JSON.stringify({ format: EXPORT_FORMAT, version: 1, presets }, null, 2)],
+    { type: "application/json" }
+  );
+}
+
+/**
+ * Accepts an exported library or a bare array of presets. Imported presets
+ * get fresh ids so they never overwrite local ones.
+ */
+export function parsePresetImport(text: string): {
+  presets: Preset[];
+  skipped: number;
+} {
+  const json: unknown = JSON.parse(text);
+  const list = Array.isArray(json)
+    ? json
+    : isRecord(json) && Array.isArray(json.presets)
+    ? json.presets
+    : null;
+  if (!list) throw new Error("No presets found in file");
+  const { presets, skipped } = validatePresets(list);
+  const now = Date.now();
+  return {
+    presets: presets.map((p, i) => ({
+      ...p,
+      id: newPresetId(),
+      updatedAt: now - i,
+    })),
+    skipped,
+  };
+}
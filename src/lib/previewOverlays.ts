@@ -0,0 +1,112 @@
+// ---------- Types ----------
+
+/** QA guides drawn over each preview card; never part of an export. */
+export interface OverlaySettings {
+  safeZone: boolean;
+  /** Safe-area inset in ad pixels, left/right and top/bottom. */
+  safeMarginX: number;
+  safeMarginY: number;
+  grid: boolean;
+  rulers: boolean;
+  /** Drag on a preview to measure instead of moving the image. */
+  measure: boolean;
+}
+
+export const DEFAULT_OVERLAYS: OverlaySettings = {
+  safeZone: false,
+  safeMarginX: 10,
+  safeMarginY: 10,
+  grid: false,
+  rulers: false,
+  measure: false,
+};
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Element edges a measurement can snap to, in ad pixels. */
+export interface SnapEdges {
+  x: number[];
+  y: number[];
+}
+
+// ---------- Rulers ----------
+
+export const RULER_MINOR_STEP = 10;
+export const RULER_MAJOR_STEP = 50;
+
+export function rulerTicks(length: number): { at: number; major: boolean }[] {
+  const ticks: { at: number; major: boolean }[] = [];
+  for (let at = RULER_MINOR_STEP; at < length; at += RULER_MINOR_STEP) {
+    ticks.push({ at, major: at % RULER_MAJOR_STEP === 0 });
+  }
+  return ticks;
+}
+
+// ---------- Measuring ----------
+
+/** How close, in ad pixels, a measurement end has to be to snap to an edge. */
+export const MEASURE_SNAP = 4;
+
+function snapValue(value: number, edges: number[]): number {
+  let best = value;
+  let bestDistance = MEASURE_SNAP;
+  for (const edge of edges) {
+    const distance = Math.abs(edge - value);
+    if (distance <= bestDistance) {
+      best = edge;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export function snapPoint(point: Point, edges: SnapEdges): Point {
+  return { x: snapValue(point.x, edges.x), y: snapValue(point.y, edges.y) };
+}
+
+/** Shift-drags measure straight along whichever axis moved further. */
+export function constrainToAxis(from: Point, to: Point): Point {
+  return Math.abs(to.x - from.x) >= Math.abs(to.y - from.y)
+    ? { x: to.x, y: from.y }
+    : { x: from.x, y: to.y };
+}
+
+export function describeDistance(from: Point, to: Point): string {
+  const dx = Math.round(Math.abs(to.x - from.x));
+  const dy = Math.round(Math.abs(to.y - from.y));
+  if (!dy) return `${dx}px`;
+  if (!dx) return `${dy}px`;
+  return `${Math.round(Math.hypot(dx, dy))}px (${dx}×${dy})`;
+}
+
+// ---------- Persistence ----------
+
+const STORAGE_KEY = "ga-visualizer-overlays";
+
+export function loadOverlaySettings(): OverlaySettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<OverlaySettings>;
+      return { ...DEFAULT_OVERLAYS, ...parsed, measure: false };
+    }
+  } catch (e) {
+    console.warn("Could not load overlay settings", e);
+  }
+  return DEFAULT_OVERLAYS;
+}
+
+/** The measure tool is a mode, so it always starts off. */
+export function saveOverlaySettings(settings: OverlaySettings): void {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...settings, measure: false })
+    );
+  } catch (e) {
+    console.warn("Could not save overlay settings", e);
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PROJECT,
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  parseProject,
+} from "./projectFile";
+
+const fileWith = (project: Record<string, unknown>) =>
+  JSON.stringify({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: "",
+    project,
+  });
+
+describe("parseProject", () => {
+  it("falls back to defaults for mistyped fields", () => {
+    const project = parseProject(
+      fileWith({
+        headline: 3,
+        subhead: "Kept",
+        sizeCatalog: null,
+        sizeOverrides: "x",
+        imageExport: { format: "bmp", maxKB: 0, exactSize: true },
+      })
+    );
+    expect(project.headline).toBe("");
+    expect(project.subhead).toBe("Kept");
+    expect(project.sizeCatalog).toEqual(DEFAULT_PROJECT.sizeCatalog);
+    expect(project.sizeOverrides).toEqual({});
+    expect(project.imageExport).toEqual(DEFAULT_PROJECT.imageExport);
+  });
+
+  it("repairs size review statuses and drops bad comments", () => {
+    const project = parseProject(
+      fileWith({
+        sizeReviews: {
+          "300x250": {
+            status: "rejected",
+            comments: [
+              { id: "a", x: 10, y: 20, text: "Logo too small" },
+              { id: "b", x: "1;background:red", y: 0, text: "Bad" },
+              { id: "c", x: 1, y: 2, text: 4 },
+            ],
+          },
+          "728x90": "approved",
+        },
+      })
+    );
+    expect(Object.keys(project.sizeReviews)).toEqual(["300x250"]);
+    const review = project.sizeReviews["300x250"];
+    expect(review.status).toBe("pending");
+    expect(review.comments.map((c) => c.id)).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,257 @@
+import type { ImageFocus, SizeOverrides } from "../types";
+import { DEFAULT_IMAGE_EXPORT } from "./imageExport";
+import type { ImageExportSettings } from "./imageExport";
+import { EMPTY_RDA_ASSETS } from "./responsiveAds";
+import type { AdMode, RdaAssets } from "./responsiveAds";
+import { DEFAULT_SIZE_CATALOG } from "./sizeCatalog";
+import type { SizeCatalogState } from "./sizeCatalog";
+import { DEFAULT_LAYOUT_TEMPLATE } from "./layoutTemplates";
+import { DEFAULT_TEXT_FIT } from "./textFit";
+import type { TextFitSettings } from "./textFit";
+import { parseSizeReviews } from "./sizeReview";
+import type { SizeReviews } from "./sizeReview";
+import {
+  isAdsEditorTarget,
+  isImageExport,
+  isImageFocusMap,
+  isLocaleCopyMap,
+  isNumber,
+  isOffset,
+  isRdaAssets,
+  isRecord,
+  isSizeCatalog,
+  isSizeOverrides,
+  isStringRecord,
+  isTextFit,
+} from "./guards";
+import { DEFAULT_LOCALE } from "./locales";
+import type { LocaleCopy } from "./locales";
+import { EMPTY_ADS_EDITOR_TARGET } from "./adsEditorExport";
+import type { AdsEditorTarget } from "./adsEditorExport";
+
+// ---------- Types ----------
+
+/** Everything needed to pick a review back up, images included. */
+export interface ProjectState {
+  images: string[];
+  activeImageIndex: number;
+  imageFocus: Record<number, ImageFocus>;
+  headline: string;
+  subhead: string;
+  cta: string;
+  /** Locale of the copy above. */
+  activeLocale: string;
+  /** Copy per locale; the active entry may lag behind the fields above. */
+  localeCopy: Record<string, LocaleCopy>;
+  primaryColor: string;
+  autoCtaText: boolean;
+  darkMode: boolean;
+  imageScale: number;
+  imageOffset: { x: number; y: number };
+  /** Shared scale/offset win over the focal-point auto-crop. */
+  manualCrop: boolean;
+  sizeOverrides: SizeOverrides;
+  textFit: TextFitSettings;
+  layoutTemplate: string;
+  /** Per-size template ids, keyed by catalog size id. */
+  sizeTemplates: Record<string, string>;
+  sizeCatalog: SizeCatalogState;
+  imageExport: ImageExportSettings;
+  adMode: AdMode;
+  rdaAssets: RdaAssets;
+  rdaSamples: number;
+  /** QA status and pinned comments per size. */
+  sizeReviews: SizeReviews;
+  /** Campaign, ad group and final URL for the Ads Editor CSV. */
+  adsEditorTarget: AdsEditorTarget;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  project: ProjectState;
+}
+
+export const PROJECT_FORMAT = "google-ads-visualizer-project";
+export const PROJECT_VERSION = 5;
+export const PROJECT_EXTENSION = ".gav.json";
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+export const DEFAULT_PROJECT: ProjectState = {
+  images: [],
+  activeImageIndex: 0,
+  imageFocus: {},
+  headline: "",
+  subhead: "",
+  cta: "",
+  activeLocale: DEFAULT_LOCALE,
+  localeCopy: {},
+  primaryColor: "#EF4444",
+  autoCtaText: false,
+  darkMode: false,
+  imageScale: 1,
+  imageOffset: { x: 0, y: 0 },
+  manualCrop: false,
+  sizeOverrides: {},
+  textFit: DEFAULT_TEXT_FIT,
+  layoutTemplate: DEFAULT_LAYOUT_TEMPLATE,
+  sizeTemplates: {},
+  sizeCatalog: DEFAULT_SIZE_CATALOG,
+  imageExport: DEFAULT_IMAGE_EXPORT,
+  adMode: "static",
+  rdaAssets: EMPTY_RDA_ASSETS,
+  rdaSamples: 3,
+  sizeReviews: {},
+  adsEditorTarget: EMPTY_ADS_EDITOR_TARGET,
+};
+
+// ---------- Migrations ----------
+
+type RawProject = { version: number; project: Record<string, unknown> };
+
+/**
+ * `MIGRATIONS[n]` upgrades a version-n file to version n + 1. Version 0 is
+ * a bare exported Preset, which predates project files.
+ */
+const MIGRATIONS: Record<number, (raw: RawProject) => RawProject> = {
+  0: (raw) => {
+    // Preset fields carry over by name; its id and name have no place here.
+    const project = { ...raw.project };
+    delete project.id;
+    delete project.name;
+    return { version: 1, project };
+  },
+  1: (raw) => ({ version: 2, project: { ...raw.project, sizeReviews: {} } }),
+  2: (raw) => ({
+    version: 3,
+    project: { ...raw.project, activeLocale: DEFAULT_LOCALE, localeCopy: {} },
+  }),
+  3: (raw) => ({
+    version: 4,
+    project: { ...raw.project, adsEditorTarget: EMPTY_ADS_EDITOR_TARGET },
+  }),
+  4: (raw) => ({ version: 5, project: { ...raw.project, manualCrop: false } }),
+};
+
+function migrate(raw: RawProject): RawProject {
+  let current = raw;
+  while (current.version < PROJECT_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) {
+      throw new ProjectFileError(
+        `No migration from project version ${current.version}`
+      );
+    }
+    current = step(current);
+  }
+  return current;
+}
+
+// ---------- Reading & writing ----------
+
+export function serializeProject(project: ProjectState): Blob {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    project,
+  };
+  return new Blob([JSON.stringify(file)], { type: "application/json" });
+}
+
+const isString = (value: unknown) => typeof value === "string";
+const isBoolean = (value: unknown) => typeof value === "boolean";
+
+/** Checks for every field with a plain type; the rest are rebuilt below. */
+const FIELD_CHECKS: {
+  [K in Exclude<
+    keyof ProjectState,
+    "images" | "activeImageIndex" | "sizeReviews"
+  >]: (value: unknown) => boolean;
+} = {
+  imageFocus: isImageFocusMap,
+  headline: isString,
+  subhead: isString,
+  cta: isString,
+  activeLocale: isString,
+  localeCopy: isLocaleCopyMap,
+  primaryColor: isString,
+  autoCtaText: isBoolean,
+  darkMode: isBoolean,
+  imageScale: isNumber,
+  imageOffset: isOffset,
+  manualCrop: isBoolean,
+  sizeOverrides: isSizeOverrides,
+  textFit: isTextFit,
+  layoutTemplate: isString,
+  sizeTemplates: isStringRecord,
+  sizeCatalog: isSizeCatalog,
+  imageExport: isImageExport,
+  adMode: (value) => value === "static" || value === "responsive",
+  rdaAssets: isRdaAssets,
+  rdaSamples: isNumber,
+  adsEditorTarget: isAdsEditorTarget,
+};
+
+/**
+ * Parses and upgrades a project file. Missing fields, and fields whose type
+ * doesn't match, fall back to defaults.
+ */
+export function parseProject(text: string): ProjectState {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("File is not valid JSON");
+  }
+  if (!isRecord(json)) throw new ProjectFileError("Unrecognised project file");
+
+  let raw: RawProject;
+  if (json.format === PROJECT_FORMAT && isRecord(json.project)) {
+    const version = Number(json.version);
+    if (!Number.isInteger(version) || version < 0) {
+      throw new ProjectFileError("Project file has no valid version");
+    }
+    if (version > PROJECT_VERSION) {
+      throw new ProjectFileError(
+        `Project was saved by a newer version (v${version}); update the visualizer to open it`
+      );
+    }
+    raw = { version, project: json.project };
+  } else if (typeof json.headline === "string") {
+    raw = { version: 0, project: json };
+  } else {
+    throw new ProjectFileError("Unrecognised project file");
+  }
+
+  const project = migrate(raw).project;
+  const checked: Record<string, unknown> = {};
+  for (const [key, check] of Object.entries(FIELD_CHECKS)) {
+    if (check(project[key])) checked[key] = project[key];
+  }
+  const images = (Array.isArray(project.images) ? project.images : []).filter(
+    (img): img is string => typeof img === "string"
+  );
+  return {
+    ...DEFAULT_PROJECT,
+    ...(checked as Partial<ProjectState>),
+    images,
+    activeImageIndex: Math.min(
+      Math.max(0, Math.floor(Number(project.activeImageIndex) || 0)),
+      Math.max(0, images.length - 1)
+    ),
+    sizeReviews: parseSizeReviews(project.sizeReviews),
+  };
+}
+
+/** Project files and bare preset exports are both plain JSON. */
+export function isProjectFileName(name: string): boolean {
+  return /\.json$/i.test(name);
+}
@@ -0,0 +1,47 @@
+import type { ReactElement } from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+
+// ---------- Offscreen rendering ----------
+
+const nextFrame = () =>
+  new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+const waitForImages = (root: HTMLElement) =>
+  Promise.all(
+    Array.from(root.querySelectorAll("img")).map((img) =>
+      img.complete ? Promise.resolve() : img.decode().catch(() => undefined)
+    )
+  );
+
+/**
+ * Mounts `element` outside the visible viewport, waits for it to paint and
+ * hands its root node to `capture`. The node is unmounted afterwards, even
+ * when `capture` throws.
+ */
+export async function renderOffscreen<T>(
+  element: ReactElement,
+  capture: (node: HTMLElement) => Promise<T>
+): Promise<T> {
+  const host = document.createElement("div");
+  host.style.cssText =
+    "position:fixed;left:-100000px;top:0;pointer-events:none;";
+  document.body.appendChild(host);
+  const root = createRoot(host);
+
+  try {
+    flushSync(() => root.render(element));
+    await waitForImages(host);
+    // Two frames: one for the Tailwind runtime to inject styles, one to paint.
+    await nextFrame();
+    await nextFrame();
+    const node = host.firstElementChild;
+    if (!(node instanceof HTMLElement)) {
+      throw new Error("Offscreen render produced no element");
+    }
+    return await capture(node);
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+}
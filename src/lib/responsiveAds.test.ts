@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_RDA_ASSETS, sampleCombinations } from "./responsiveAds";
+import type { RdaAssets } from "./responsiveAds";
+
+const LEADERBOARD = { w: 728, h: 90 };
+
+const assetsWith = (headlines: number, descriptions: number): RdaAssets => ({
+  ...EMPTY_RDA_ASSETS,
+  headlines: Array.from({ length: headlines }, (_, i) => `Headline ${i + 1}`),
+  descriptions: Array.from(
+    { length: descriptions },
+    (_, i) => `Description ${i + 1}`
+  ),
+});
+
+describe("sampleCombinations", () => {
+  it.each([
+    [5, 5, 5],
+    [3, 3, 3],
+    [2, 5, 5],
+    [5, 2, 5],
+  ])(
+    "shows every asset from %i headlines × %i descriptions in %i samples",
+    (h, d, count) => {
+      const assets = assetsWith(h, d);
+      const combos = sampleCombinations(assets, LEADERBOARD, count);
+      expect(combos).toHaveLength(count);
+      expect(new Set(combos.map((c) => c.headline))).toEqual(
+        new Set(assets.headlines)
+      );
+      expect(new Set(combos.map((c) => c.description))).toEqual(
+        new Set(assets.descriptions)
+      );
+    }
+  );
+
+  it("never repeats a combination", () => {
+    const combos = sampleCombinations(assetsWith(2, 4), LEADERBOARD, 8);
+    expect(new Set(combos.map((c) => c.label)).size).toBe(8);
+  });
+
+  it("tags assets by their slot, skipping empty ones", () => {
+    const assets = {
+      ...assetsWith(1, 0),
+      descriptions: ["", "Description 2"],
+    };
+    const [combo] = sampleCombinations(assets, LEADERBOARD, 1);
+    expect(combo.description).toBe("Description 2");
+    expect(combo.label).toMatch(/^H1 · D2 · /);
+  });
+
+  it("caps the count at the number of combinations", () => {
+    expect(sampleCombinations(assetsWith(2, 2), LEADERBOARD, 10)).toHaveLength(
+      4
+    );
+  });
+});
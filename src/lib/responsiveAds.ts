@@ -0,0 +1,199 @@
+import type { AdSize } from "../types";
+
+// ---------- Types ----------
+
+export type AdMode = "static" | "responsive";
+
+export type RdaImageSlot =
+  | "landscapeImages"
+  | "squareImages"
+  | "squareLogos"
+  | "wideLogos";
+
+export interface RdaAssets {
+  headlines: string[];
+  longHeadline: string;
+  descriptions: string[];
+  businessName: string;
+  landscapeImages: string[];
+  squareImages: string[];
+  squareLogos: string[];
+  wideLogos: string[];
+}
+
+export interface RdaCombination {
+  headline: string;
+  description: string;
+  image: string | null;
+  logo: string | null;
+  /** Short label naming the assets used, e.g. "H2 · D1 · L1 · Logo 1:1". */
+  label: string;
+}
+
+// ---------- Google RDA limits ----------
+
+export const RDA_LIMITS = {
+  headline: 30,
+  longHeadline: 90,
+  description: 90,
+  businessName: 25,
+};
+
+export const RDA_MAX_HEADLINES = 5;
+export const RDA_MAX_DESCRIPTIONS = 5;
+
+export const RDA_IMAGE_SLOTS: {
+  id: RdaImageSlot;
+  label: string;
+  ratio: number;
+  max: number;
+}[] = [
+  {
+    id: "landscapeImages",
+    label: "Landscape image (1.91:1)",
+    ratio: 1.91,
+    max: 15,
+  },
+  { id: "squareImages", label: "Square image (1:1)", ratio: 1, max: 15 },
+  { id: "squareLogos", label: "Logo (1:1)", ratio: 1, max: 5 },
+  { id: "wideLogos", label: "Logo (4:1)", ratio: 4, max: 5 },
+];
+
+/** How far an upload may drift from its slot's ratio before we warn. */
+export const RDA_RATIO_TOLERANCE = 0.02;
+
+export const EMPTY_RDA_ASSETS: RdaAssets = {
+  headlines: [""],
+  longHeadline: "",
+  descriptions: [""],
+  businessName: "",
+  landscapeImages: [],
+  squareImages: [],
+  squareLogos: [],
+  wideLogos: [],
+};
+
+// ---------- Combinations ----------
+
+interface Candidate<T> {
+  value: T;
+  tag: string;
+}
+
+/** Google only swaps in the long headline where there is room for it. */
+const fitsLongHeadline = (size: AdSize) =>
+  size.h >= 250 && size.w >= 250 && size.w <= size.h * 1.5;
+
+function headlineCandidates(
+  assets: RdaAssets,
+  size: AdSize
+): Candidate<string>[] {
+  const shorts = assets.headlines
+    .map((text, i) => ({ value: text.trim(), tag: `H${i + 1}` }))
+    .filter((c) => c.value);
+  const long = assets.longHeadline.trim();
+  if (long && fitsLongHeadline(size)) {
+    shorts.push({ value: long, tag: "Long H" });
+  }
+  return shorts.length ? shorts : [{ value: "", tag: "No H" }];
+}
+
+function imageCandidates(
+  assets: RdaAssets,
+  size: AdSize
+): Candidate<string | null>[] {
+  const landscape = assets.landscapeImages.map((value, i) => ({
+    value,
+    tag: `Land ${i + 1}`,
+  }));
+  const square = assets.squareImages.map((value, i) => ({
+    value,
+    tag: `Sq ${i + 1}`,
+  }));
+  const preferred = size.w >= size.h * 1.3 ? landscape : square;
+  const fallback = preferred === landscape ? square : landscape;
+  const list = preferred.length ? preferred : fallback;
+  return list.length ? list : [{ value: null, tag: "No img" }];
+}
+
+function logoCandidates(
+  assets: RdaAssets,
+  size: AdSize
+): Candidate<string | null>[] {
+  const square = assets.squareLogos.map((value, i) => ({
+    value,
+    tag: `Logo 1:1 #${i + 1}`,
+  }));
+  const wide = assets.wideLogos.map((value, i) => ({
+    value,
+    tag: `Logo 4:1 #${i + 1}`,
+  }));
+  const preferred = size.w >= size.h * 3 ? wide : square;
+  const fallback = preferred === wide ? square : wide;
+  const list = preferred.length ? preferred : fallback;
+  return list.length ? list : [{ value: null, tag: "No logo" }];
+}
+
+/**
+ * Picks `count` distinct combinations of headline × description × image ×
+ * logo for one size, advancing every asset list on each sample so short runs
+ * still show every asset. Only assets that fit the size's shape are
+ * considered, mirroring how Google assembles Responsive Display Ads.
+ */
+export function sampleCombinations(
+  assets: RdaAssets,
+  size: AdSize,
+  count: number
+): RdaCombination[] {
+  const headlines = headlineCandidates(assets, size);
+  const descriptions = assets.descriptions
+    .map((text, i) => ({ value: text.trim(), tag: `D${i + 1}` }))
+    .filter((c) => c.value);
+  const descs = descriptions.length
+    ? descriptions
+    : [{ value: "", tag: "No D" }];
+  const images = imageCandidates(assets, size);
+  const logos = logoCandidates(assets, size);
+
+  const dims = [headlines.length, descs.length, images.length, logos.length];
+  const total = dims.reduce((a, b) => a * b, 1);
+  const n = Math.min(count, total);
+
+  const seen = new Set<string>();
+  const picks: number[][] = [];
+  const add = (pick: number[]) => {
+    const key = pick.join(",");
+    if (seen.has(key)) return;
+    seen.add(key);
+    picks.push(pick);
+  };
+  for (let k = 0; picks.length < n && k < total; k++) {
+    add(dims.map((d) => k % d));
+  }
+  // The diagonal repeats once every list has wrapped; fill the rest with a
+  // mixed-radix walk, headline fastest.
+  for (let k = 0; picks.length < n && k < total; k++) {
+    let rest = k;
+    add(
+      dims.map((d) => {
+        const i = rest % d;
+        rest = Math.floor(rest / d);
+        return i;
+      })
+    );
+  }
+
+  return picks.map((pick) => {
+    const h = headlines[pick[0]];
+    const d = descs[pick[1]];
+    const img = images[pick[2]];
+    const logo = logos[pick[3]];
+    return {
+      headline: h.value,
+      description: d.value,
+      image: img.value,
+      logo: logo.value,
+      label: [h.tag, d.tag, img.tag, logo.tag].join(" · "),
+    };
+  });
+}
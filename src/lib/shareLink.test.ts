@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { decodeShareHash, encodeShareHash } from "./shareLink";
+import type { ShareState } from "./shareLink";
+
+const hashFor = (state: Record<string, unknown>) =>
+  encodeShareHash(state as unknown as ShareState);
+
+describe("decodeShareHash", () => {
+  it("falls back to defaults for mistyped fields", async () => {
+    const state = await decodeShareHash(
+      await hashFor({
+        headline: 42,
+        subhead: "Kept",
+        sizeCatalog: null,
+        sizeOverrides: 1,
+        imageFocus: { 0: { x: "a", y: 0, keep: null } },
+        textFit: { enabled: "yes" },
+      })
+    );
+    expect(state).not.toBeNull();
+    expect(state!.headline).toBe("");
+    expect(state!.subhead).toBe("Kept");
+    expect(state!.sizeCatalog.enabled.length).toBeGreaterThan(0);
+    expect(state!.sizeOverrides).toEqual({});
+    expect(state!.imageFocus).toEqual({});
+    expect(state!.textFit.enabled).toBe(false);
+  });
+
+  it("drops malformed images and clamps the active index", async () => {
+    const state = await decodeShareHash(
+      await hashFor({
+        images: [{ name: "a.png" }, { name: 1 }, { name: "b.png", data: "x" }],
+        activeImageIndex: 9,
+      })
+    );
+    expect(state!.images).toEqual([{ name: "a.png" }]);
+    expect(state!.activeImageIndex).toBe(0);
+  });
+
+  it("ignores hashes that are not review links", async () => {
+    expect(await decodeShareHash("#other")).toBeNull();
+  });
+});
@@ -0,0 +1,221 @@
+import type { ImageFocus, SizeOverrides } from "../types";
+import { DEFAULT_LAYOUT_TEMPLATE } from "./layoutTemplates";
+import { DEFAULT_LOCALE } from "./locales";
+import { DEFAULT_SIZE_CATALOG } from "./sizeCatalog";
+import type { SizeCatalogState } from "./sizeCatalog";
+import { DEFAULT_TEXT_FIT } from "./textFit";
+import type { TextFitSettings } from "./textFit";
+import {
+  isImageFocusMap,
+  isNumber,
+  isOffset,
+  isRecord,
+  isSizeCatalog,
+  isSizeOverrides,
+  isStringRecord,
+  isTextFit,
+} from "./guards";
+
+// ---------- Types ----------
+
+export interface SharedImage {
+  /** File name the viewer is asked to load. */
+  name: string;
+  /** Data URL, when the image was small enough to embed. */
+  data?: string;
+}
+
+/** What a review link carries; a subset of ProjectState plus image names. */
+export interface ShareState {
+  images: SharedImage[];
+  activeImageIndex: number;
+  imageFocus: Record<number, ImageFocus>;
+  headline: string;
+  subhead: string;
+  cta: string;
+  activeLocale: string;
+  primaryColor: string;
+  autoCtaText: boolean;
+  darkMode: boolean;
+  imageScale: number;
+  imageOffset: { x: number; y: number };
+  manualCrop: boolean;
+  sizeOverrides: SizeOverrides;
+  textFit: TextFitSettings;
+  layoutTemplate: string;
+  sizeTemplates: Record<string, string>;
+  sizeCatalog: SizeCatalogState;
+  /** Name of the preset applied last, shown to the reviewer. */
+  preset: string | null;
+}
+
+export const SHARE_HASH_PREFIX = "#review=";
+export const SHARE_VERSION = 1;
+
+/** Per-image limit for embedding; larger files are referenced by name. */
+export const EMBED_MAX_BYTES = 24 * 1024;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+const SHARE_DEFAULTS: ShareState = {
+  images: [],
+  activeImageIndex: 0,
+  imageFocus: {},
+  headline: "",
+  subhead: "",
+  cta: "",
+  activeLocale: DEFAULT_LOCALE,
+  primaryColor: "#EF4444",
+  autoCtaText: false,
+  darkMode: false,
+  imageScale: 1,
+  imageOffset: { x: 0, y: 0 },
+  manualCrop: false,
+  sizeOverrides: {},
+  textFit: DEFAULT_TEXT_FIT,
+  layoutTemplate: DEFAULT_LAYOUT_TEMPLATE,
+  sizeTemplates: {},
+  sizeCatalog: DEFAULT_SIZE_CATALOG,
+  preset: null,
+};
+
+// ---------- Encoding ----------
+
+async function pipe(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Deflates the state into a `#review=` hash. */
+export async function encodeShareHash(state: ShareState): Promise<string> {
+  const json = JSON.stringify({ v: SHARE_VERSION, state });
+  const packed = await pipe(
+    new TextEncoder().encode(json),
+    new CompressionStream("deflate-raw")
+  );
+  return SHARE_HASH_PREFIX + toBase64Url(packed);
+}
+
+const isString = (value: unknown) => typeof value === "string";
+const isBoolean = (value: unknown) => typeof value === "boolean";
+
+/**
+ * Link JSON comes from outside the team; any field that fails its check
+ * falls back to `SHARE_DEFAULTS`. Images are filtered separately.
+ */
+const FIELD_CHECKS: {
+  [K in Exclude<keyof ShareState, "images">]: (value: unknown) => boolean;
+} = {
+  activeImageIndex: isNumber,
+  imageFocus: isImageFocusMap,
+  headline: isString,
+  subhead: isString,
+  cta: isString,
+  activeLocale: isString,
+  primaryColor: isString,
+  autoCtaText: isBoolean,
+  darkMode: isBoolean,
+  imageScale: isNumber,
+  imageOffset: isOffset,
+  manualCrop: isBoolean,
+  sizeOverrides: isSizeOverrides,
+  textFit: isTextFit,
+  layoutTemplate: isString,
+  sizeTemplates: isStringRecord,
+  sizeCatalog: isSizeCatalog,
+  preset: (value) => value === null || isString(value),
+};
+
+/** Returns null when the hash isn't a review link. */
+export async function decodeShareHash(
+  hash: string
+): Promise<ShareState | null> {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  let json: unknown;
+  try {
+    const bytes = await pipe(
+      fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)),
+      new DecompressionStream("deflate-raw")
+    );
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ShareLinkError("The link is incomplete or damaged");
+  }
+  if (!isRecord(json) || !isRecord(json.state)) {
+    throw new ShareLinkError("Unrecognised review link");
+  }
+  if (Number(json.v) > SHARE_VERSION) {
+    throw new ShareLinkError(
+      "The link was made by a newer version; update the visualizer to open it"
+    );
+  }
+
+  const raw = json.state;
+  const state: Record<string, unknown> = { ...SHARE_DEFAULTS };
+  for (const [key, check] of Object.entries(FIELD_CHECKS)) {
+    if (check(raw[key])) state[key] = raw[key];
+  }
+  const images = (Array.isArray(raw.images) ? raw.images : []).filter(
+    (img): img is SharedImage =>
+      isRecord(img) &&
+      typeof img.name === "string" &&
+      (img.data === undefined ||
+        (typeof img.data === "string" && img.data.startsWith("data:image/")))
+  );
+  return {
+    ...(state as Omit<ShareState, "images">),
+    images,
+    activeImageIndex: Math.min(
+      Math.max(0, Math.floor(state.activeImageIndex as number)),
+      Math.max(0, images.length - 1)
+    ),
+  };
+}
+
+export function shareUrl(hash: string): string {
+  return `${window.location.origin}${window.location.pathname}${hash}`;
+}
+
+// ---------- Images ----------
+
+/**
+ * Pairs shared image names with loaded files by base name, case-insensitive.
+ * Embedded images need no file.
+ */
+export function matchSharedImages(
+  shared: SharedImage[],
+  files: Record<string, string>
+): (string | null)[] {
+  const lookup = new Map(
+    Object.entries(files).map(([name, url]) => [name.toLowerCase(), url])
+  );
+  return shared.map(
+    (img) => img.data ?? lookup.get(img.name.toLowerCase()) ?? null
+  );
+}
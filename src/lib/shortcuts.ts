@@ -0,0 +1,55 @@
+// ---------- Types ----------
+
+export type ShortcutAction =
+  | "undo"
+  | "redo"
+  | "prev-variant"
+  | "next-variant"
+  | "toggle-halo"
+  | "export-all";
+
+export interface ShortcutHelp {
+  keys: string;
+  description: string;
+}
+
+// ---------- Matching ----------
+
+const isMac =
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const MOD_KEY = isMac ? "⌘" : "Ctrl";
+
+export const SHORTCUT_HELP: ShortcutHelp[] = [
+  { keys: `${MOD_KEY}+Z`, description: "Undo" },
+  { keys: `${MOD_KEY}+Shift+Z / ${MOD_KEY}+Y`, description: "Redo" },
+  { keys: "[ / ]", description: "Previous / next variant" },
+  { keys: "H", description: "Toggle Halo checker" },
+  { keys: `${MOD_KEY}+Shift+E`, description: "Export all sizes" },
+];
+
+/** Text fields keep their own single-key shortcuts. */
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLInputElement &&
+      !["checkbox", "radio", "range", "button", "file"].includes(target.type)));
+
+export function matchShortcut(e: KeyboardEvent): ShortcutAction | null {
+  const mod = isMac ? e.metaKey : e.ctrlKey;
+  const key = e.key.toLowerCase();
+  if (mod && !e.altKey) {
+    if (key === "z") return e.shiftKey ? "redo" : "undo";
+    if (key === "y" && !e.shiftKey) return "redo";
+    if (key === "e" && e.shiftKey) return "export-all";
+    return null;
+  }
+  if (e.ctrlKey || e.metaKey || e.altKey || isEditable(e.target)) return null;
+  if (key === "[") return "prev-variant";
+  if (key === "]") return "next-variant";
+  if (key === "h") return "toggle-halo";
+  return null;
+}
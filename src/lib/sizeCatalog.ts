@@ -0,0 +1,152 @@
+import type { AdSizeSpec } from "../types";
+
+// ---------- Types ----------
+
+export type SizeGroup =
+  | "high-impact"
+  | "rectangles"
+  | "leaderboards"
+  | "skyscrapers"
+  | "custom";
+
+export interface CatalogSize extends AdSizeSpec {
+  id: string;
+  group: SizeGroup;
+}
+
+export interface SizeCatalogState {
+  /** Ids of the sizes rendered in the preview grid. */
+  enabled: string[];
+  custom: CatalogSize[];
+}
+
+// ---------- Built-in catalog ----------
+
+export const SIZE_GROUPS: { id: SizeGroup; label: string }[] = [
+  { id: "high-impact", label: "High impact" },
+  { id: "rectangles", label: "Rectangles" },
+  { id: "leaderboards", label: "Leaderboards" },
+  { id: "skyscrapers", label: "Skyscrapers" },
+  { id: "custom", label: "Custom" },
+];
+
+const builtin = (
+  w: number,
+  h: number,
+  label: string,
+  group: SizeGroup
+): CatalogSize => ({ id: `${w}x${h}`, w, h, label, group });
+
+/** Google Display / IAB sizes accepted for uploaded image ads. */
+export const BUILTIN_SIZES: CatalogSize[] = [
+  builtin(970, 250, "Billboard", "high-impact"),
+  builtin(980, 120, "Panorama", "high-impact"),
+  builtin(930, 180, "Top banner", "high-impact"),
+  builtin(300, 1050, "Portrait", "high-impact"),
+  builtin(300, 250, "Medium rectangle", "rectangles"),
+  builtin(336, 280, "Large rectangle", "rectangles"),
+  builtin(250, 250, "Square", "rectangles"),
+  builtin(200, 200, "Small square", "rectangles"),
+  builtin(250, 360, "Triple widescreen", "rectangles"),
+  builtin(580, 400, "Netboard", "rectangles"),
+  builtin(728, 90, "Leaderboard", "leaderboards"),
+  builtin(970, 90, "Large leaderboard", "leaderboards"),
+  builtin(468, 60, "Banner", "leaderboards"),
+  builtin(320, 50, "Mobile leaderboard", "leaderboards"),
+  builtin(300, 50, "Mobile banner", "leaderboards"),
+  builtin(320, 100, "Large mobile", "leaderboards"),
+  builtin(300, 600, "Half page", "skyscrapers"),
+  builtin(160, 600, "Wide skyscraper", "skyscrapers"),
+  builtin(120, 600, "Skyscraper", "skyscrapers"),
+  builtin(240, 400, "Vertical rectangle", "skyscrapers"),
+];
+
+/** The sizes the visualizer has always shown. */
+export const DEFAULT_SIZE_CATALOG: SizeCatalogState = {
+  enabled: [
+    "970x250",
+    "300x250",
+    "336x280",
+    "250x250",
+    "728x90",
+    "320x50",
+    "320x100",
+    "300x600",
+    "160x600",
+    "240x400",
+  ],
+  custom: [],
+};
+
+// ---------- Helpers ----------
+
+export function allSizes(state: SizeCatalogState): CatalogSize[] {
+  return [...BUILTIN_SIZES, ...state.custom];
+}
+
+export function enabledSizes(state: SizeCatalogState): CatalogSize[] {
+  const enabled = new Set(state.enabled);
+  return allSizes(state).filter((s) => enabled.has(s.id));
+}
+
+export function toggleSize(
+  state: SizeCatalogState,
+  id: string
+): SizeCatalogState {
+  const enabled = state.enabled.includes(id)
+    ? state.enabled.filter((e) => e !== id)
+    : [...state.enabled, id];
+  return { ...state, enabled };
+}
+
+export function addCustomSize(
+  state: SizeCatalogState,
+  spec: AdSizeSpec
+): SizeCatalogState {
+  const size: CatalogSize = {
+    ...spec,
+    id: `custom-${Date.now()}`,
+    group: "custom",
+  };
+  return {
+    enabled: [...state.enabled, size.id],
+    custom: [...state.custom, size],
+  };
+}
+
+export function removeCustomSize(
+  state: SizeCatalogState,
+  id: string
+): SizeCatalogState {
+  return {
+    enabled: state.enabled.filter((e) => e !== id),
+    custom: state.custom.filter((s) => s.id !== id),
+  };
+}
+
+// ---------- Persistence ----------
+
+const STORAGE_KEY = "ga-visualizer-sizes";
+
+export function loadSizeCatalog(): SizeCatalogState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<SizeCatalogState>;
+      if (Array.isArray(parsed.enabled) && Array.isArray(parsed.custom)) {
+        return { enabled: parsed.enabled, custom: parsed.custom };
+      }
+    }
+  } catch (e) {
+    console.warn("Could not load size catalog", e);
+  }
+  return DEFAULT_SIZE_CATALOG;
+}
+
+export function saveSizeCatalog(state: SizeCatalogState): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.warn("Could not save size catalog", e);
+  }
+}
@@ -0,0 +1,271 @@
+import type { AdSizeSpec } from "../types";
+import { isNumber, isRecord } from "./guards";
+
+// ---------- Types ----------
+
+export type ReviewStatus = "pending" | "approved" | "changes";
+
+export interface ReviewComment {
+  id: string;
+  /** Pin position in ad pixels, from the top-left corner. */
+  x: number;
+  y: number;
+  text: string;
+  author: string;
+  createdAt: string;
+}
+
+export interface SizeReview {
+  status: ReviewStatus;
+  comments: ReviewComment[];
+}
+
+/** Keyed by catalog size id; sizes not listed are pending with no comments. */
+export type SizeReviews = Record<string, SizeReview>;
+
+export const REVIEW_STATUSES: {
+  value: ReviewStatus;
+  label: string;
+  color: string;
+}[] = [
+  { value: "pending", label: "Pending", color: "#64748B" },
+  { value: "approved", label: "Approved", color: "#16A34A" },
+  { value: "changes", label: "Changes requested", color: "#DC2626" },
+];
+
+export const EMPTY_SIZE_REVIEW: SizeReview = {
+  status: "pending",
+  comments: [],
+};
+
+// ---------- Helpers ----------
+
+const statusInfo = (status: ReviewStatus) =>
+  REVIEW_STATUSES.find((s) => s.value === status);
+
+export const statusLabel = (status: ReviewStatus) =>
+  statusInfo(status)?.label ?? status;
+
+/** Unknown statuses get the pending grey. */
+const statusColor = (status: ReviewStatus) =>
+  statusInfo(status)?.color ?? REVIEW_STATUSES[0].color;
+
+export const reviewFor = (reviews: SizeReviews, sizeId: string) =>
+  reviews[sizeId] ?? EMPTY_SIZE_REVIEW;
+
+function updateReview(
+  reviews: SizeReviews,
+  sizeId: string,
+  update: (review: SizeReview) => SizeReview
+): SizeReviews {
+  const next = update(reviewFor(reviews, sizeId));
+  const copy = { ...reviews };
+  if (next.status === "pending" && !next.comments.length) delete copy[sizeId];
+  else copy[sizeId] = next;
+  return copy;
+}
+
+export const setReviewStatus = (
+  reviews: SizeReviews,
+  sizeId: string,
+  status: ReviewStatus
+) => updateReview(reviews, sizeId, (r) => ({ ...r, status }));
+
+export function addReviewComment(
+  reviews: SizeReviews,
+  sizeId: string,
+  comment: Omit<ReviewComment, "id" | "createdAt">
+): SizeReviews {
+  const full: ReviewComment = {
+    ...comment,
+    x: Math.round(comment.x),
+    y: Math.round(comment.y),
+    id: `c-${Date.now().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2, 6)}`,
+    createdAt: new Date().toISOString(),
+  };
+  return updateReview(reviews, sizeId, (r) => ({
+    ...r,
+    comments: [...r.comments, full],
+  }));
+}
+
+export const removeReviewComment = (
+  reviews: SizeReviews,
+  sizeId: string,
+  commentId: string
+) =>
+  updateReview(reviews, sizeId, (r) => ({
+    ...r,
+    comments: r.comments.filter((c) => c.id !== commentId),
+  }));
+
+export function countStatuses(
+  reviews: SizeReviews,
+  sizeIds: string[]
+): Record<ReviewStatus, number> {
+  const counts: Record<ReviewStatus, number> = {
+    pending: 0,
+    approved: 0,
+    changes: 0,
+  };
+  sizeIds.forEach((id) => {
+    const { status } = reviewFor(reviews, id);
+    if (status in counts) counts[status]++;
+  });
+  return counts;
+}
+
+/**
+ * Rebuilds reviews from untrusted JSON: unknown statuses become pending and
+ * comments without a numeric position or text are dropped.
+ */
+export function parseSizeReviews(value: unknown): SizeReviews {
+  if (!isRecord(value)) return {};
+  const reviews: SizeReviews = {};
+  for (const [sizeId, raw] of Object.entries(value)) {
+    if (!isRecord(raw)) continue;
+    const status = REVIEW_STATUSES.some((s) => s.value === raw.status)
+      ? (raw.status as ReviewStatus)
+      : "pending";
+    const comments = (Array.isArray(raw.comments) ? raw.comments : [])
+      .filter(
+        (c): c is Record<string, unknown> =>
+          isRecord(c) &&
+          isNumber(c.x) &&
+          isNumber(c.y) &&
+          typeof c.text === "string"
+      )
+      .map((c, i) => ({
+        id: typeof c.id === "string" ? c.id : `c-import-${i}`,
+        x: c.x as number,
+        y: c.y as number,
+        text: c.text as string,
+        author: typeof c.author === "string" ? c.author : "",
+        createdAt: typeof c.createdAt === "string" ? c.createdAt : "",
+      }));
+    if (status !== "pending" || comments.length) {
+      reviews[sizeId] = { status, comments };
+    }
+  }
+  return reviews;
+}
+
+// ---------- Reviewer name ----------
+
+const REVIEWER_KEY = "ga-visualizer-reviewer";
+
+export function loadReviewerName(): string {
+  try {
+    return localStorage.getItem(REVIEWER_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveReviewerName(name: string): void {
+  try {
+    localStorage.setItem(REVIEWER_KEY, name);
+  } catch (e) {
+    console.warn("Could not save reviewer name", e);
+  }
+}
+
+// ---------- Report ----------
+
+export interface ReportSize {
+  spec: AdSizeSpec;
+  /** PNG data URL of the size at 1x, or null if it failed to render. */
+  image: string | null;
+  review: SizeReview;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** ", <local time>", or nothing when the timestamp is missing or invalid. */
+function commentTime(createdAt: string): string {
+  const time = createdAt ? new Date(createdAt) : null;
+  return time && !isNaN(time.getTime()) ? `, ${time.toLocaleString()}` : "";
+}
+
+function reportSection({ spec, image, review }: ReportSize): string {
+  const pins = review.comments
+    .map(
+      (c, i) =>
+        `<span class="pin" style="left:${Number(c.x) || 0}px;top:${
+          Number(c.y) || 0
+        }px">${i + 1}</span>`
+    )
+    .join("");
+  const comments = review.comments.length
+    ? `<ol>${review.comments
+        .map(
+          (c) =>
+            `<li>${escapeHtml(c.text)} <small>— ${escapeHtml(
+              c.author || "Anonymous"
+            )}${commentTime(c.createdAt)} · (${escapeHtml(
+              `${c.x}, ${c.y}`
+            )})</small></li>`
+        )
+        .join("")}</ol>`
+    : `<p class="none">No comments.</p>`;
+  const frame = image
+    ? `<div class="frame" style="width:${spec.w}px;height:${spec.h}px"><img src="${image}" width="${spec.w}" height="${spec.h}" alt="">${pins}</div>`
+    : `<p class="none">Preview could not be rendered.</p>`;
+  return `<section>
+<h2>${escapeHtml(spec.label)} <span class="size">${spec.w}×${
+    spec.h
+  }</span> <span class="status" style="background:${statusColor(
+    review.status
+  )}">${escapeHtml(statusLabel(review.status))}</span></h2>
+${frame}
+${comments}
+</section>`;
+}
+
+/** Self-contained HTML report; print it from the browser to get a PDF. */
+export function buildReviewReport(
+  title: string,
+  sizes: ReportSize[],
+  generatedAt: Date
+): string {
+  const counts = REVIEW_STATUSES.map(
+    (s) =>
+      `${
+        sizes.filter((r) => r.review.status === s.value).length
+      } ${s.label.toLowerCase()}`
+  ).join(" · ");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font: 13px/1.5 system-ui, sans-serif; color: #0f172a; margin: 32px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+.meta { color: #64748b; margin: 0 0 24px; }
+section { border-top: 1px solid #e2e8f0; padding: 16px 0; break-inside: avoid; }
+h2 { font-size: 14px; margin: 0 0 12px; }
+.size { color: #94a3b8; font-family: monospace; font-weight: normal; }
+.status { color: #fff; font-size: 11px; border-radius: 4px; padding: 2px 6px; }
+.frame { position: relative; max-width: 100%; }
+.frame img { display: block; box-shadow: 0 0 0 1px #e2e8f0; }
+.pin { position: absolute; transform: translate(-50%, -50%); width: 18px; height: 18px; border-radius: 50%; background: #2563eb; color: #fff; font-size: 10px; font-weight: bold; display: flex; align-items: center; justify-content: center; box-shadow: 0 0 0 2px #fff; }
+ol { padding-left: 20px; }
+small, .none { color: #64748b; }
+@media print { body { margin: 0; } .pin, .status { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Generated ${generatedAt.toLocaleString()} · ${counts}</p>
+${sizes.map(reportSection).join("\n")}
+</body>
+</html>`;
+}
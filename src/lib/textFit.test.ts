@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TEXT_FIT, fitHeadlinePx, scaledFonts } from "./textFit";
+import type { CopyElements, CopyFontSizes } from "./textFit";
+
+const BASE: CopyFontSizes = { headline: 20, subhead: 14, cta: 12 };
+
+/** A stand-in node whose height is `linesTall` times its font size. */
+const fakeNode = (linesTall: number, initial = "") => {
+  const style = { fontSize: initial };
+  return {
+    style,
+    scrollWidth: 0,
+    clientWidth: 0,
+    scrollHeight: 0,
+    clientHeight: 0,
+    getBoundingClientRect: () => ({
+      left: 0,
+      top: 0,
+      right: 100,
+      bottom: linesTall * (parseFloat(style.fontSize) || BASE.headline),
+    }),
+  } as unknown as HTMLElement;
+};
+
+const BOX = {
+  getBoundingClientRect: () => ({ left: 0, top: 0, right: 100, bottom: 100 }),
+} as unknown as HTMLElement;
+
+/** Copy inside a 100px-square box. */
+const copyWith = (headlineLines: number): CopyElements => ({
+  box: BOX,
+  headline: fakeNode(headlineLines, "20px"),
+  subhead: fakeNode(1),
+  cta: fakeNode(1),
+});
+
+const FIT = { ...DEFAULT_TEXT_FIT, enabled: true, minPx: 9, maxPx: 20 };
+
+describe("fitHeadlinePx", () => {
+  it("keeps the base size when the copy fits", () => {
+    expect(fitHeadlinePx(copyWith(2), BASE, FIT)).toBe(20);
+  });
+
+  it("shrinks to the largest size that fits", () => {
+    // 6 lines fit a 100px box at 16px but not at 17px.
+    expect(fitHeadlinePx(copyWith(6), BASE, FIT)).toBe(16);
+  });
+
+  it("stops at the minimum size", () => {
+    expect(fitHeadlinePx(copyWith(20), BASE, FIT)).toBe(FIT.minPx);
+  });
+
+  it("clamps the base size to the allowed range", () => {
+    expect(fitHeadlinePx(copyWith(1), BASE, { ...FIT, maxPx: 14 })).toBe(14);
+  });
+
+  it("restores the inline font sizes it tried", () => {
+    const els = copyWith(20);
+    fitHeadlinePx(els, BASE, FIT);
+    expect(els.headline.style.fontSize).toBe("20px");
+    expect(els.cta.style.fontSize).toBe("");
+  });
+});
+
+describe("scaledFonts", () => {
+  it("scales subhead and CTA with the headline, down to 8px", () => {
+    expect(scaledFonts(BASE, 15)).toEqual({
+      headline: 15,
+      subhead: 11,
+      cta: 9,
+    });
+    expect(scaledFonts(BASE, 10)).toEqual({ headline: 10, subhead: 8, cta: 8 });
+  });
+});
@@ -0,0 +1,145 @@
+import type { AdSize } from "../types";
+
+// ---------- Types ----------
+
+/** Which copy elements spill out of (or are cut off by) the ad box. */
+export interface TextOverflow {
+  headline: boolean;
+  subhead: boolean;
+  cta: boolean;
+}
+
+export interface TextFitSettings {
+  /** Shrink copy until it fits instead of letting it clip. */
+  enabled: boolean;
+  /** Headline font bounds in px; subhead and CTA scale with it. */
+  minPx: number;
+  maxPx: number;
+}
+
+/** A clipped preview card, for the text fit summary. */
+export interface TextOverflowEntry {
+  label: string;
+  size: AdSize;
+  caption?: string;
+  overflow: TextOverflow;
+}
+
+/** The rendered copy nodes of one AdCanvas. */
+export interface CopyElements {
+  box: HTMLElement;
+  headline: HTMLElement;
+  subhead: HTMLElement | null;
+  cta: HTMLElement;
+}
+
+export interface CopyFontSizes {
+  headline: number;
+  subhead: number;
+  cta: number;
+}
+
+export const DEFAULT_TEXT_FIT: TextFitSettings = {
+  enabled: false,
+  minPx: 9,
+  maxPx: 20,
+};
+
+export const NO_OVERFLOW: TextOverflow = {
+  headline: false,
+  subhead: false,
+  cta: false,
+};
+
+// ---------- Measuring ----------
+
+// Sub-pixel rounding shouldn't count as clipping.
+const TOLERANCE = 1;
+
+/** True when `el` is cut off by `bounds` or overflows its own box. */
+export function isClipped(el: HTMLElement, bounds: DOMRect): boolean {
+  const rect = el.getBoundingClientRect();
+  return (
+    rect.left < bounds.left - TOLERANCE ||
+    rect.top < bounds.top - TOLERANCE ||
+    rect.right > bounds.right + TOLERANCE ||
+    rect.bottom > bounds.bottom + TOLERANCE ||
+    el.scrollWidth > el.clientWidth + TOLERANCE ||
+    el.scrollHeight > el.clientHeight + TOLERANCE
+  );
+}
+
+export const hasOverflow = (o: TextOverflow) =>
+  o.headline || o.subhead || o.cta;
+
+export const sameOverflow = (a: TextOverflow, b: TextOverflow) =>
+  a.headline === b.headline && a.subhead === b.subhead && a.cta === b.cta;
+
+export function describeOverflow(o: TextOverflow): string {
+  return [o.headline && "headline", o.subhead && "subhead", o.cta && "CTA"]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function copyElements(
+  box: HTMLElement | null,
+  headline: HTMLElement | null,
+  subhead: HTMLElement | null,
+  cta: HTMLElement | null
+): CopyElements | null {
+  return box && headline && cta ? { box, headline, subhead, cta } : null;
+}
+
+export function measureOverflow(els: CopyElements): TextOverflow {
+  const bounds = els.box.getBoundingClientRect();
+  return {
+    headline: isClipped(els.headline, bounds),
+    subhead: els.subhead ? isClipped(els.subhead, bounds) : false,
+    cta: isClipped(els.cta, bounds),
+  };
+}
+
+// ---------- Auto-fit ----------
+
+/** Sizes for a given headline px; subhead and CTA keep their proportion. */
+export function scaledFonts(
+  base: CopyFontSizes,
+  headlinePx: number
+): CopyFontSizes {
+  const ratio = headlinePx / base.headline;
+  return {
+    headline: headlinePx,
+    subhead: Math.max(8, Math.round(base.subhead * ratio)),
+    cta: Math.max(8, Math.round(base.cta * ratio)),
+  };
+}
+
+/**
+ * Tries headline sizes from the largest allowed down to `minPx` directly on
+ * the DOM and returns the first that fits (or `minPx`). Inline font sizes
+ * are restored afterwards so React stays in charge of them.
+ */
+export function fitHeadlinePx(
+  els: CopyElements,
+  base: CopyFontSizes,
+  fit: TextFitSettings
+): number {
+  const nodes = [els.headline, els.subhead, els.cta];
+  const saved = nodes.map((el) => el?.style.fontSize ?? "");
+  const apply = (fonts: CopyFontSizes) => {
+    els.headline.style.fontSize = `${fonts.headline}px`;
+    if (els.subhead) els.subhead.style.fontSize = `${fonts.subhead}px`;
+    els.cta.style.fontSize = `${fonts.cta}px`;
+  };
+
+  let px = Math.min(Math.max(base.headline, fit.minPx), fit.maxPx);
+  for (; px > fit.minPx; px--) {
+    apply(scaledFonts(base, px));
+    if (!hasOverflow(measureOverflow(els))) break;
+  }
+
+  nodes.forEach((el, i) => {
+    if (el) el.style.fontSize = saved[i];
+  });
+  return px;
+}
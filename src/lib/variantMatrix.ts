@@ -0,0 +1,93 @@
+// ---------- Types ----------
+
+export interface MatrixCopy {
+  headlines: string[];
+  subheads: string[];
+  ctas: string[];
+}
+
+export type CellStatus = "pinned" | "rejected";
+
+export interface MatrixCell {
+  /** Built from the content, so a cell keeps its status when lists reorder. */
+  key: string;
+  /** Index into the Variants strip, or -1 when no image is uploaded. */
+  imageIndex: number;
+  headline: string;
+  subhead: string;
+  cta: string;
+}
+
+export const EMPTY_MATRIX_COPY: MatrixCopy = {
+  headlines: [],
+  subheads: [],
+  ctas: [],
+};
+
+/** Past this many cells the grid gets too slow to be useful. */
+export const MATRIX_MAX_CELLS = 120;
+
+// ---------- Helpers ----------
+
+/** One entry per non-empty line. */
+export const parseLines = (text: string) =>
+  text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+export const cellKey = (
+  imageIndex: number,
+  headline: string,
+  subhead: string,
+  cta: string
+) => JSON.stringify([imageIndex, headline, subhead, cta]);
+
+/**
+ * Every image × headline × subhead × CTA combination. Empty lists fall back
+ * to the single values from the Copy panel.
+ */
+export function buildMatrix(
+  imageCount: number,
+  copy: MatrixCopy,
+  fallback: { headline: string; subhead: string; cta: string }
+): MatrixCell[] {
+  const images = imageCount
+    ? Array.from({ length: imageCount }, (_, i) => i)
+    : [-1];
+  const headlines = copy.headlines.length
+    ? copy.headlines
+    : [fallback.headline];
+  const subheads = copy.subheads.length ? copy.subheads : [fallback.subhead];
+  const ctas = copy.ctas.length ? copy.ctas : [fallback.cta];
+
+  const cells: MatrixCell[] = [];
+  images.forEach((imageIndex) =>
+    headlines.forEach((headline) =>
+      subheads.forEach((subhead) =>
+        ctas.forEach((cta) =>
+          cells.push({
+            key: cellKey(imageIndex, headline, subhead, cta),
+            imageIndex,
+            headline,
+            subhead,
+            cta,
+          })
+        )
+      )
+    )
+  );
+  return cells;
+}
+
+/** "Img 2 · H1 · S3 · C1", numbered from the visible lists. */
+export function describeCell(cell: MatrixCell, copy: MatrixCopy): string {
+  const n = (list: string[], value: string) =>
+    list.length ? list.indexOf(value) + 1 : 1;
+  return [
+    cell.imageIndex >= 0 ? `Img ${cell.imageIndex + 1}` : "No image",
+    `H${n(copy.headlines, cell.headline)}`,
+    `S${n(copy.subheads, cell.subhead)}`,
+    `C${n(copy.ctas, cell.cta)}`,
+  ].join(" · ");
+}
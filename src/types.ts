@@ -0,0 +1,79 @@
+import type { TextFitSettings } from "./lib/textFit";
+
+// ---------- Shared types ----------
+
+export interface AdSize {
+  w: number;
+  h: number;
+}
+
+export interface AdSizeSpec extends AdSize {
+  label: string;
+}
+
+export interface AdPreviewSettings {
+  image: string | null;
+  headline: string;
+  subhead: string;
+  cta: string;
+  primaryColor: string;
+  /** CTA label colour; white when unset. */
+  ctaTextColor?: string;
+  darkMode: boolean;
+  imageScale: number;
+  imageOffset: { x: number; y: number };
+  logo?: string | null;
+  /** Used instead of `logo` in leaderboard-shaped sizes. */
+  logoWide?: string | null;
+  businessName?: string;
+  /** CSS font-family stacks from the brand kit. */
+  headlineFont?: string;
+  bodyFont?: string;
+  /** When set, AdCanvas frames the image around it instead of scale/offset. */
+  focus?: ImageFocus | null;
+  /** Set when a size override or the shared manual crop wins over auto-crop. */
+  manualCrop?: boolean;
+  textFit?: TextFitSettings;
+  /** Layout template id. */
+  layoutTemplate?: string;
+  /** BCP 47 tag of the copy; sets `lang` and flips RTL scripts. */
+  locale?: string;
+}
+
+/** Subject of an uploaded image, in 0–1 image coordinates. */
+export interface ImageFocus {
+  x: number;
+  y: number;
+  /** Region that must stay visible in every size. */
+  keep: { x: number; y: number; w: number; h: number } | null;
+}
+
+/** Per-size image framing layered over the shared scale and offset. */
+export interface ImageOverride {
+  imageScale?: number;
+  imageOffset?: { x: number; y: number };
+}
+
+/** Keyed by catalog size id. */
+export type SizeOverrides = Record<string, ImageOverride>;
+
+export interface Preset {
+  id: string;
+  name: string;
+  headline: string;
+  subhead: string;
+  cta: string;
+  primaryColor: string;
+  darkMode: boolean;
+  imageScale: number;
+  imageOffset: { x: number; y: number };
+  sizeOverrides?: SizeOverrides;
+  autoCtaText?: boolean;
+  textFit?: TextFitSettings;
+  layoutTemplate?: string;
+  sizeTemplates?: Record<string, string>;
+  /** Brand or campaign the preset is filed under; "" for unfiled. */
+  folder?: string;
+  tags?: string[];
+  updatedAt?: number;
+}